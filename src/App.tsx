@@ -1,8 +1,9 @@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { useEffect, useState, useMemo } from "react";
-import type { Address, Hex } from "viem";
+import { useEffect, useRef, useState, useMemo } from "react";
+import type { Address, Hex, TransactionSerialized } from "viem";
 import {
   createPublicClient,
+  getContractAddress,
   http,
   isAddress,
   parseEther,
@@ -10,27 +11,138 @@ import {
 } from "viem";
 import {
   useAccount,
+  usePublicClient,
   useBalance,
+  useCapabilities,
   useChainId,
+  useConfig,
   useConnect,
   useDisconnect,
+  useSendCalls,
   useSendTransaction,
+  useSignTypedData,
   useSwitchChain,
 } from "wagmi";
 import { base, mainnet } from "wagmi/chains";
+import { getPublicClient } from "wagmi/actions";
 
 import { toast } from "sonner";
 
 import type { TenderlySimulateResult } from "@/lib/tenderly";
 import { hexToBigIntSafe } from "@/lib/format";
+import {
+  getChainLabel,
+  getSafeTransactionServiceUrl,
+  requireTenderlyNetworkId,
+} from "@/lib/chains";
+import {
+  DEFAULT_SIMULATION_RPC_URL,
+  getSimulationBackend,
+  type SimulationBackendId,
+} from "@/lib/simulationBackend";
+import type { TransactionDraft } from "@/lib/transaction";
+import { loadTenderlySimulation } from "@/lib/tenderlySimulations";
+import { parseAbiFunctions } from "@/lib/abiForm";
+import {
+  computeBundleAssetDeltas,
+  createBundleStep,
+  type BundleStep,
+} from "@/lib/bundle";
+import {
+  DEFAULT_BLOCK_PIN,
+  formatBlockPin,
+  resolveBlockPin,
+  validateBlockPin,
+  type BlockPin,
+} from "@/lib/blockPin";
+import {
+  fromTenderlyStateObjects,
+  toTenderlyStateObjects,
+  validateStateOverrides,
+  type StateOverride,
+} from "@/lib/stateOverrides";
+import {
+  decodeLogsWithRegistry,
+  decodeTraceWithRegistry,
+} from "@/lib/contractRegistry";
+import { useContractRegistry } from "@/components/contract-registry-provider";
 import {
   tenderlyGetSavedSimulationById,
   tenderlyListSavedSimulations,
   tenderlySimulateAndSave,
+  type TenderlyAccessList,
   type TenderlySimulateApiRequest,
 } from "@/lib/tenderlyApi";
 
 import { useLocalStorageState } from "@/hooks/useLocalStorageState";
+import { useExecutionTracking } from "@/hooks/useExecutionTracking";
+import { useBatchTracking } from "@/hooks/useBatchTracking";
+import { useSafeInfo } from "@/hooks/useSafeInfo";
+import { useSimulationRisk } from "@/hooks/useSimulationRisk";
+import {
+  buildReplacement,
+  type ReplacementKind,
+} from "@/lib/executionTracking";
+import {
+  DEFAULT_SEND_GATE_POLICY,
+  checkSendGate,
+  fingerprintSend,
+  type SendGatePolicy,
+  type SimulatedSend,
+} from "@/lib/sendGate";
+import {
+  DEFAULT_GAS_AUTO_FILL,
+  bufferedGasLimit,
+  parseBufferPercent,
+  type GasAutoFill,
+} from "@/lib/gasLimit";
+import {
+  compareAccessListGas,
+  fromRpcAccessList,
+  toRpcAccessList,
+  type AccessListGasComparison,
+} from "@/lib/accessList";
+import { readBatchCapabilities, toBatchCalls } from "@/lib/batchCalls";
+import {
+  buildOfflineTransaction,
+  type SignedTransaction,
+} from "@/lib/offlineTx";
+import {
+  DEFAULT_DEPLOY_SETTINGS,
+  deployedCodeSize,
+  prepareDeployment,
+  type Deployment,
+  type DeploySettings,
+} from "@/lib/deploy";
+import {
+  authorizationSendError,
+  delegationsFromList,
+  toAuthorizationList,
+  toDelegations,
+  validateAuthorizations,
+  withDelegations,
+  type AuthorizationDraft,
+} from "@/lib/eip7702";
+import {
+  DEFAULT_SAFE_MODE,
+  approvedHashSignature,
+  buildSafeTx,
+  encodeExecTransaction,
+  safeServiceSubmitter,
+  safeTxHash,
+  safeTxTypedData,
+  toSafeProposal,
+  withSafeThresholdOverride,
+  type SafeModeSettings,
+  type SafeProposal,
+} from "@/lib/safe";
+import {
+  DEFAULT_FEE_SETTINGS,
+  toFeeParams,
+  validateFeeSettings,
+  type FeeSettings,
+  type TxType,
+} from "@/lib/fees";
 
 import {
   type HistoryItem,
@@ -38,6 +150,8 @@ import {
 } from "@/components/app/transaction/HistoryDataTable";
 import { AppSidebar } from "@/components/app-sidebar";
 import { GasView } from "@/components/app/dashboard/views/GasView";
+import { SafeModePanel } from "@/components/app/transaction/SafeModePanel";
+import { DeployModePanel } from "@/components/app/transaction/DeployModePanel";
 import {
   SidebarInset,
   SidebarProvider,
@@ -52,13 +166,32 @@ import {
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
 import { Separator } from "@/components/ui/separator";
-import { Copy, ExternalLink, Loader2 } from "lucide-react";
+import { Copy, ExternalLink, Loader2, Pin } from "lucide-react";
 import { TransactionPanel } from "@/components/app/transaction/TransactionPanel";
+import { SendConfirmDialog } from "@/components/app/transaction/SendConfirmDialog";
+import { RiskFindings } from "@/components/app/shared/RiskFindings";
 import { WarningCircleIcon } from "@phosphor-icons/react";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { AssetsView } from "@/components/app/dashboard/views/AssetsView";
 import { StateView } from "@/components/app/dashboard/views/StateView";
 import { EventsView } from "@/components/app/dashboard/views/EventsView";
+import { TxHashView } from "@/components/app/inputs/TxHashView";
+import { OfflineView } from "@/components/app/inputs/OfflineView";
+import { RawTxView } from "@/components/app/inputs/RawTxView";
+import { TenderlyIdView } from "@/components/app/inputs/TenderlyIdView";
+import { JsonView } from "@/components/app/inputs/JsonView";
+import { CustomView } from "@/components/app/inputs/CustomView";
+import { ContractsView } from "@/components/app/inputs/ContractsView";
+import { BundleView } from "@/components/app/inputs/BundleView";
+import { BundleDeltasView } from "@/components/app/dashboard/views/BundleDeltasView";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 // ENS lives on Ethereum mainnet. Use a mainnet chain config (for ENS registry addresses)
 // and an RPC that works from the browser.
@@ -92,6 +225,7 @@ function isLikelyEnsName(value: string) {
 function App() {
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
+  const publicClient = usePublicClient({ chainId });
 
   const { connectors, connect, isPending: isConnecting } = useConnect();
   const { disconnect } = useDisconnect();
@@ -109,6 +243,11 @@ function App() {
     isPending: isSending,
     reset: resetSendState,
   } = useSendTransaction();
+  // Separate from the form's send so replacements don't log a form execution.
+  const { sendTransactionAsync: sendReplacementAsync } = useSendTransaction();
+  const { sendCallsAsync, isPending: isSendingBatch } = useSendCalls();
+  const { signTypedDataAsync, isPending: isSigningSafeTx } = useSignTypedData();
+  const wagmiConfig = useConfig();
   const [lastTx, setLastTx] = useState<{
     hash: Hex;
     chainId: number;
@@ -118,10 +257,77 @@ function App() {
   const [calldata, setCalldata] = useLocalStorageState("form-calldata", "");
   const [valueEth, setValueEth] = useLocalStorageState("form-value", "");
   const [gasLimit, setGasLimit] = useLocalStorageState("form-gas", "");
+  const [gasAutoFill, setGasAutoFill] = useLocalStorageState<GasAutoFill>(
+    "gas-auto-fill",
+    DEFAULT_GAS_AUTO_FILL
+  );
+  const [sendGate, setSendGate] = useLocalStorageState<SendGatePolicy>(
+    "send-gate",
+    DEFAULT_SEND_GATE_POLICY
+  );
+  // Only the type is remembered: a saved nonce or fee cap is stale by the
+  // next visit, and a reused nonce replaces or fails the next send.
+  const [savedFeeType, setSavedFeeType] = useLocalStorageState<TxType>(
+    "form-fee-type",
+    DEFAULT_FEE_SETTINGS.type
+  );
+  const [fees, setFees] = useState<FeeSettings>(() => ({
+    ...DEFAULT_FEE_SETTINGS,
+    type: savedFeeType,
+  }));
+  useEffect(() => setSavedFeeType(fees.type), [fees.type, setSavedFeeType]);
+  const [safeMode, setSafeMode] = useLocalStorageState<SafeModeSettings>(
+    "safe-mode",
+    DEFAULT_SAFE_MODE
+  );
+  const [safeProposal, setSafeProposal] = useState<SafeProposal | null>(null);
+  const [deploy, setDeploy] = useLocalStorageState<DeploySettings>(
+    "deploy-mode",
+    DEFAULT_DEPLOY_SETTINGS
+  );
+  // What the last send deployed, for its history entry.
+  const sentDeploymentRef = useRef<Deployment | null>(null);
+  const [isSubmittingSafeProposal, setIsSubmittingSafeProposal] =
+    useState(false);
   const [simulateFrom, setSimulateFrom] = useLocalStorageState(
     "form-sim-from",
     ""
   );
+  const [blockPin, setBlockPin] = useLocalStorageState<BlockPin>(
+    "form-block-pin",
+    DEFAULT_BLOCK_PIN
+  );
+  const [stateOverrides, setStateOverrides] = useLocalStorageState<
+    StateOverride[]
+  >("form-state-overrides", []);
+  // Access list the form declares, from a pasted request that carried one.
+  const [formAccessList, setFormAccessList] =
+    useLocalStorageState<TenderlyAccessList | null>("form-access-list", null);
+  const [authorizations, setAuthorizations] = useLocalStorageState<
+    AuthorizationDraft[]
+  >("form-authorizations", []);
+  const [customAbi, setCustomAbi] = useLocalStorageState("custom-abi", "");
+  const { registry, resolveLabel: resolveRegistryLabel } =
+    useContractRegistry();
+  const customAbiFunctions = useMemo(() => {
+    const parsed = customAbi.trim() ? parseAbiFunctions(customAbi) : undefined;
+    return parsed?.ok ? parsed.functions : undefined;
+  }, [customAbi]);
+
+  const [simulationBackendId, setSimulationBackendId] =
+    useLocalStorageState<SimulationBackendId>("sim-backend", "tenderly");
+  const [simulationRpcUrl, setSimulationRpcUrl] = useLocalStorageState(
+    "sim-rpc-url",
+    DEFAULT_SIMULATION_RPC_URL
+  );
+  const simulationBackend = useMemo(
+    () =>
+      getSimulationBackend({
+        backend: simulationBackendId,
+        rpcUrl: simulationRpcUrl,
+      }),
+    [simulationBackendId, simulationRpcUrl]
+  );
 
   const [isSimulating, setIsSimulating] = useState(false);
   const [simulation, setSimulation] = useState<TenderlySimulateResult | null>(
@@ -130,6 +336,51 @@ function App() {
   const [simulationRequest, setSimulationRequest] = useState<any>(null);
   const [simulationError, setSimulationError] = useState<string | null>(null);
 
+  const [paymasterUrl, setPaymasterUrl] = useLocalStorageState(
+    "batch-paymaster-url",
+    ""
+  );
+  // Errors mean the wallet doesn't speak EIP-5792.
+  const capabilitiesQuery = useCapabilities({
+    chainId,
+    query: { enabled: isConnected, retry: false },
+  });
+  const batchCapabilities = capabilitiesQuery.data
+    ? readBatchCapabilities(capabilitiesQuery.data)
+    : undefined;
+  const [bundleQueue, setBundleQueue] = useLocalStorageState<BundleStep[]>(
+    "bundle-queue",
+    []
+  );
+  // Last simulated bundle; `simulation` then shows `results[bundleStep]`.
+  const [bundle, setBundle] = useState<{
+    requests: TenderlySimulateApiRequest[];
+    results: TenderlySimulateResult[];
+  } | null>(null);
+  const [bundleStep, setBundleStep] = useState(0);
+
+  // The simulation's generated access list, once attached to the next send.
+  const [attachedAccessList, setAttachedAccessList] =
+    useState<TenderlyAccessList | null>(null);
+  // Legacy transactions can't carry a list; an attached one wins over the form's.
+  const sendAccessList =
+    fees.type !== "legacy"
+      ? attachedAccessList ?? formAccessList ?? undefined
+      : undefined;
+  const [accessListComparison, setAccessListComparison] =
+    useState<AccessListGasComparison | null>(null);
+  const [accessListCompareError, setAccessListCompareError] = useState<
+    string | undefined
+  >(undefined);
+  const [isComparingAccessList, setIsComparingAccessList] = useState(false);
+
+  // Last successful single simulation, for the simulate-before-send gate.
+  const [lastSimulatedSend, setLastSimulatedSend] =
+    useState<SimulatedSend | null>(null);
+  const [sendConfirm, setSendConfirm] = useState<{ problems: string[] } | null>(
+    null
+  );
+
   const tenderlyAccountSlug = (
     import.meta.env.VITE_TENDERLY_ACCOUNT_SLUG ?? ""
   ).trim();
@@ -160,22 +411,35 @@ function App() {
     setSimulation(null);
     setSimulationRequest(null);
     setSimulationError(null);
+    setBundle(null);
+    setBundleStep(0);
+    setAttachedAccessList(null);
+    setAccessListComparison(null);
+    setAccessListCompareError(undefined);
+    setLastSimulatedSend(null);
   };
 
   useEffect(() => {
     if (!txHash) return;
     setLastTx({ hash: txHash, chainId });
+    // The nonce is spent; the next send goes back to the pending one.
+    setFees((prev) => (prev.nonce ? { ...prev, nonce: "" } : prev));
+    const deployed = sentDeploymentRef.current;
     setExecutionHistory((prev) => [
       {
         type: "execution",
-        method:
-          calldata === "" || calldata === "0x" ? "Transfer" : "Contract Call",
+        method: deployed
+          ? "Deploy"
+          : calldata === "" || calldata === "0x"
+          ? "Transfer"
+          : "Contract Call",
         from: address,
-        to: to.trim(),
+        to: deployed ? deployed.to ?? "" : to.trim(),
         value: valueEth,
-        calldata,
+        calldata: deployed ? deployed.data : calldata,
+        contractAddress: deployed?.address,
         gasLimit,
-        status: "success",
+        status: "pending",
         hash: txHash,
         chainId,
         timestamp: Date.now(),
@@ -184,6 +448,32 @@ function App() {
     ]);
   }, [txHash]);
 
+  useExecutionTracking(executionHistory, (hash, update) => {
+    setExecutionHistory((prev) =>
+      prev.map((h) => (h.hash === hash ? { ...h, ...update } : h))
+    );
+    if (update.status === "success") {
+      toast.success(
+        `Transaction ${hash.slice(0, 10)}… confirmed in block ${update.blockNumber}`
+      );
+    } else if (update.status === "reverted") {
+      toast.error(`Transaction ${hash.slice(0, 10)}… reverted`);
+    } else if (update.status === "dropped" || update.status === "replaced") {
+      toast.warning(`Transaction ${hash.slice(0, 10)}… was ${update.status}`);
+    }
+  });
+
+  useBatchTracking(executionHistory, (batchId, update) => {
+    setExecutionHistory((prev) =>
+      prev.map((h) => (h.batchId === batchId ? { ...h, ...update } : h))
+    );
+    if (update.status === "success") {
+      toast.success(`Batch of ${update.calls?.length ?? 0} calls confirmed`);
+    } else if (update.status === "reverted") {
+      toast.error("Batch failed");
+    }
+  });
+
   // Fetch ETH price for USD conversion
   const { data: ethPrice } = useQuery({
     queryKey: ["eth-price"],
@@ -327,15 +617,6 @@ function App() {
     }
   }
 
-  const formError =
-    toFieldError ||
-    valueError ||
-    gasError ||
-    (!dataLooksHex ? "Invalid calldata" : undefined);
-
-  const canSend = isConnected && !formError && !isSending && !isSwitching;
-  const tenderlySupported = chainId === base.id;
-
   const simulateFromTrimmed = simulateFrom.trim();
   const simulateFromIsEmpty = simulateFromTrimmed === "";
   const simulateFromIsAddress =
@@ -354,10 +635,132 @@ function App() {
     ? undefined
     : "Invalid simulation from address.";
 
+  const feeError = validateFeeSettings(fees);
+  const authorizationsError = validateAuthorizations(authorizations);
+  const authorizationsSendError =
+    authorizationsError ?? authorizationSendError(authorizations, fees.type);
+
+  // CREATE addresses come from the sender's next nonce (or the pinned one).
+  const deploySender = simulateFromAddress ?? address;
+  const deployNonceQuery = useQuery({
+    queryKey: ["deploy-nonce", chainId, deploySender ?? null],
+    enabled:
+      deploy.enabled &&
+      deploy.method === "create" &&
+      Boolean(deploySender && publicClient),
+    refetchInterval: 15_000,
+    retry: false,
+    queryFn: async () => {
+      if (!deploySender || !publicClient) throw new Error("No sender");
+      return await publicClient.getTransactionCount({
+        address: deploySender,
+        blockTag: "pending",
+      });
+    },
+  });
+  const preparedDeployment = useMemo(
+    () =>
+      deploy.enabled
+        ? prepareDeployment(deploy, {
+            from: deploySender,
+            nonce: /^\d+$/.test(fees.nonce.trim())
+              ? Number(fees.nonce.trim())
+              : deployNonceQuery.data,
+          })
+        : {},
+    [deploy, deploySender, fees.nonce, deployNonceQuery.data]
+  );
+  const deployment = preparedDeployment.deployment;
+  const deployError = !deploy.enabled
+    ? undefined
+    : safeMode.enabled
+    ? "Turn off Safe mode to deploy."
+    : deploy.method === "create" && authorizations.length
+    ? "EIP-7702 transactions can't create contracts; use CREATE2."
+    : preparedDeployment.error;
+
+  const formError =
+    (deploy.enabled ? deployError : toFieldError) ||
+    valueError ||
+    gasError ||
+    (!deploy.enabled && !dataLooksHex ? "Invalid calldata" : undefined);
+
+  // What Simulate and Submit send: the form's call, or the deployment.
+  const txTo = deploy.enabled ? deployment?.to : toResolvedAddress;
+  const txData = deploy.enabled ? deployment?.data : dataHex;
+
+  const safeInfoQuery = useSafeInfo(chainId, safeMode.safe, safeMode.enabled);
+  const safeInfo = safeMode.enabled ? safeInfoQuery.data : undefined;
+  const safeNonceError =
+    safeMode.nonce.trim() && !/^\d+$/.test(safeMode.nonce.trim())
+      ? "Safe nonce must be a whole number"
+      : undefined;
+  const safeTx =
+    safeInfo && toResolvedAddress && dataHex && valueWei !== undefined
+      ? buildSafeTx({
+          to: toResolvedAddress,
+          value: valueWei,
+          data: dataHex,
+          operation: safeMode.operation,
+          nonce:
+            safeMode.nonce.trim() && !safeNonceError
+              ? BigInt(safeMode.nonce.trim())
+              : safeInfo.nonce,
+        })
+      : undefined;
+  // A signed proposal only counts while it still matches the form.
+  const currentSafeProposal =
+    safeProposal &&
+    safeTx &&
+    safeInfo &&
+    safeProposal.contractTransactionHash ===
+      safeTxHash(chainId, safeInfo.address, safeTx)
+      ? safeProposal
+      : null;
+  const isSafeOwner = Boolean(
+    address &&
+      safeInfo?.owners.some((o) => o.toLowerCase() === address.toLowerCase())
+  );
+
+  const canSend = safeMode.enabled
+    ? isConnected &&
+      !formError &&
+      !safeNonceError &&
+      Boolean(safeTx) &&
+      isSafeOwner &&
+      !isSigningSafeTx &&
+      !isSwitching
+    : isConnected &&
+      !formError &&
+      !feeError &&
+      !authorizationsSendError &&
+      !isSending &&
+      !isSwitching;
+  const simulationSupported = simulationBackend.supportsChain(chainId);
+  const simulationNotice = simulationSupported
+    ? undefined
+    : simulationBackend.id === "rpc"
+    ? "Set an RPC URL under Advanced Options to simulate."
+    : simulationBackend.id === "tenderly-quick"
+    ? "The Tenderly node RPC proxy only serves Base. Pick the Tenderly or Local RPC backend under Advanced Options."
+    : `Tenderly doesn't support ${getChainLabel(
+        chainId
+      )}. Pick the Local RPC backend under Advanced Options.`;
+
+  const stateOverridesError = validateStateOverrides(stateOverrides);
+  const stateObjects = stateOverridesError
+    ? undefined
+    : toTenderlyStateObjects(stateOverrides);
+
+  const blockPinError = validateBlockPin(blockPin);
+
   const canSimulate =
-    tenderlySupported &&
+    simulationSupported &&
     !formError &&
     !simulateFromError &&
+    !stateOverridesError &&
+    !authorizationsError &&
+    !blockPinError &&
     simulateFromReady &&
     !isSimulating &&
     !isSwitching;
@@ -500,6 +903,10 @@ function App() {
           safeString(obj.method) ||
           (calldata && calldata !== "0x" ? "Contract Call" : "Transfer");
 
+        const stateOverrides = fromTenderlyStateObjects(
+          sim.state_objects ?? obj.state_objects
+        );
+
         return {
           simulationId,
           type: "simulation",
@@ -512,6 +919,9 @@ function App() {
           timestamp,
           status,
           chainId: chainIdSafe,
+          stateOverrides: stateOverrides.length ? stateOverrides : undefined,
+          blockNumber: safeNumber(sim.block_number),
+          transactionIndex: safeNumber(sim.transaction_index),
         };
       };
 
@@ -527,58 +937,605 @@ function App() {
     return [...sims, ...execs].sort((a, b) => b.timestamp - a.timestamp);
   }, [savedSimulationsQuery.data, executionHistory]);
 
+  const resolvePinnedBlock = async () => {
+    if (blockPin.mode === "latest" && !blockPin.transactionIndex?.trim()) {
+      return {};
+    }
+    if (!publicClient) throw new Error("No RPC to resolve the pinned block");
+    return await resolveBlockPin(publicClient, blockPin);
+  };
+
+  const applyGasAutoFill = (
+    req: TenderlySimulateApiRequest,
+    result: TenderlySimulateResult
+  ) => {
+    if (!gasAutoFill.enabled || result.status === false) return undefined;
+    const used = hexToBigIntSafe(result.gasUsed);
+    const buffer = parseBufferPercent(gasAutoFill.bufferPercent);
+    if (used === undefined || buffer === undefined) return undefined;
+    const limit = bufferedGasLimit(used, buffer, Number(req.network_id));
+    setGasLimit(limit.toString());
+    return limit;
+  };
+
+  const rememberSimulatedSend = (
+    req: TenderlySimulateApiRequest,
+    result: TenderlySimulateResult,
+    gasLimit?: bigint
+  ) => {
+    if (result.status === false) return;
+    const block =
+      hexToBigIntSafe(result.blockNumber) ??
+      safeNumber(result.simulation?.block_number) ??
+      req.block_number;
+    // Delegations the authorization list installs are real; anything else in
+    // `state_objects` is state the sent transaction won't see.
+    const installed =
+      withDelegations(
+        undefined,
+        toDelegations(authorizations, Number(req.network_id), req.from as Address)
+      ) ?? {};
+    const overriddenState = Object.entries(req.state_objects ?? {}).some(
+      ([account, entry]) =>
+        JSON.stringify(entry) !==
+        JSON.stringify(installed[account.toLowerCase()])
+    );
+    setLastSimulatedSend({
+      fingerprint: fingerprintSend({
+        chainId: Number(req.network_id),
+        from: req.from,
+        to: req.to,
+        data: req.input,
+        value: BigInt(req.value || 0),
+        gas: gasLimit ?? (req.gas !== undefined ? BigInt(req.gas) : undefined),
+        authorizations,
+      }),
+      blockNumber: block !== undefined ? BigInt(block) : undefined,
+      overriddenState,
+    });
+  };
+
+  const runSimulation = async (
+    buildRequest: () =>
+      | TenderlySimulateApiRequest
+      | Promise<TenderlySimulateApiRequest>
+  ) => {
+    resetSimulationState();
+    setIsSimulating(true);
+    setActiveView("gas-overview"); // Switch to gas view on simulate
+    try {
+      const req = await buildRequest();
+      setSimulationRequest(req);
+
+      const result = await simulationBackend.simulate(req);
+      setSimulation(result);
+      rememberSimulatedSend(req, result, applyGasAutoFill(req, result));
+      if (simulationBackend.persists) {
+        queryClient.invalidateQueries({ queryKey: ["tenderly-simulations"] });
+        toast.success("Simulation saved to Tenderly");
+      } else {
+        toast.success(`Simulated via ${simulationBackend.label}`);
+      }
+    } catch (e) {
+      setSimulationError(e instanceof Error ? e.message : "Simulation failed");
+    } finally {
+      setIsSimulating(false);
+    }
+  };
+
   const handleSimulate = async () => {
     if (
-      !toResolvedAddress ||
-      !dataHex ||
+      !txData ||
+      !(txTo || deploy.enabled) ||
       valueWei === undefined ||
       simulateFromError
     )
       return;
-    resetSimulationState();
-    setIsSimulating(true);
-    setActiveView("gas-overview"); // Switch to gas view on simulate
-    try {
+    await runSimulation(async () => {
+      const pinned = await resolvePinnedBlock();
+      if (safeMode.enabled) {
+        if (!safeInfo || !safeTx) {
+          throw new Error(
+            safeInfoQuery.error?.message ?? "Enter a Safe address first"
+          );
+        }
+        // Execute as one owner with the threshold lowered to 1, so the
+        // simulation doesn't depend on the other owners' signatures.
+        const executor = isSafeOwner ? address! : safeInfo.owners[0];
+        return {
+          save: true,
+          save_if_fails: true,
+          simulation_type: "full",
+          network_id: String(chainId),
+          from: executor,
+          to: safeInfo.address,
+          input: encodeExecTransaction(
+            safeTx,
+            approvedHashSignature(executor)
+          ),
+          value: "0",
+          block_number: pinned.blockNumber,
+          transaction_index: pinned.transactionIndex,
+          state_objects: withSafeThresholdOverride(
+            stateObjects,
+            safeInfo.address
+          ),
+        };
+      }
+
       const fromAddress = simulateFromIsEmpty ? address : simulateFromAddress;
       if (!fromAddress) throw new Error("Missing simulation from address");
 
-      const req: TenderlySimulateApiRequest = {
+      return {
         save: true,
         save_if_fails: true,
         simulation_type: "full",
         network_id: String(chainId),
         from: fromAddress,
-        to: toResolvedAddress,
-        input: dataHex,
-        // When omitted, Tenderly will use the intrinsic/estimated gas.
-        gas: gasWei !== undefined ? Number(gasWei) : undefined,
+        to: txTo,
+        input: txData,
+        // When omitted, Tenderly will use the intrinsic/estimated gas. With
+        // auto-fill the limit comes from this run, so don't cap it.
+        gas:
+          gasWei !== undefined && !gasAutoFill.enabled
+            ? Number(gasWei)
+            : undefined,
         value: valueWei.toString(),
+        block_number: pinned.blockNumber,
+        transaction_index: pinned.transactionIndex,
+        access_list:
+          fees.type !== "legacy" ? formAccessList ?? undefined : undefined,
+        // Run the sender's call against the delegated code, as the type-4
+        // transaction would after processing its authorization list.
+        state_objects: withDelegations(
+          stateObjects,
+          toDelegations(authorizations, chainId, fromAddress)
+        ),
       };
+    });
+  };
 
-      setSimulationRequest(req);
+  const handleSimulateDraft = async (
+    draft: TransactionDraft,
+    options: { blockNumber?: number }
+  ) => {
+    populateFormFromDraft(draft);
+    await runSimulation(() => {
+      const from = safeString(draft.from) ?? address;
+      if (!from) throw new Error("Missing simulation from address");
 
-      const result = await tenderlySimulateAndSave(req);
-      setSimulation(result);
-      queryClient.invalidateQueries({ queryKey: ["tenderly-simulations"] });
-      toast.success("Simulation saved to Tenderly");
+      return {
+        save: true,
+        save_if_fails: true,
+        simulation_type: "full",
+        network_id: String(draft.chainId ?? chainId),
+        from,
+        to: draft.to,
+        input: safeString(draft.calldata) ?? "0x",
+        gas: safeNumber(draft.gasLimit),
+        value: parseEther(safeString(draft.valueEth) ?? "0").toString(),
+        block_number: options.blockNumber,
+      };
+    });
+  };
+
+  const handleSimulateSigned = async (signed: SignedTransaction) => {
+    const { tx, from } = signed;
+    await runSimulation(async () => {
+      const pinned = await resolvePinnedBlock();
+      const delegations = tx.authorizationList
+        ? await delegationsFromList(tx.authorizationList, tx.chainId ?? chainId)
+        : [];
+      return {
+        save: true,
+        save_if_fails: true,
+        simulation_type: "full",
+        network_id: String(tx.chainId ?? chainId),
+        from,
+        to: tx.to ?? undefined,
+        input: tx.data ?? "0x",
+        gas: tx.gas !== undefined ? Number(tx.gas) : undefined,
+        value: (tx.value ?? 0n).toString(),
+        block_number: pinned.blockNumber,
+        transaction_index: pinned.transactionIndex,
+        access_list: fromRpcAccessList(tx.accessList),
+        state_objects: withDelegations(undefined, delegations),
+      };
+    });
+  };
+
+  const handleSimulateBundle = async () => {
+    if (!bundleQueue.length) return;
+    resetSimulationState();
+    setIsSimulating(true);
+    setActiveView("bundle-overview");
+    try {
+      const pinned = await resolvePinnedBlock();
+      const requests = bundleQueue.map(
+        (step, i): TenderlySimulateApiRequest => {
+          const from =
+            safeString(step.from) ??
+            (simulateFromIsEmpty ? address : simulateFromAddress);
+          if (!from) throw new Error(`Step ${i + 1} has no sender`);
+
+          return {
+            save: true,
+            save_if_fails: true,
+            simulation_type: "full",
+            network_id: String(chainId),
+            from,
+            to: step.to,
+            input: safeString(step.calldata) ?? "0x",
+            gas: safeNumber(step.gasLimit),
+            value: parseEther(safeString(step.valueEth) ?? "0").toString(),
+            block_number: pinned.blockNumber,
+            transaction_index: pinned.transactionIndex,
+            // Later steps inherit the overridden state from step 1.
+            state_objects: i === 0 ? stateObjects : undefined,
+          };
+        }
+      );
+
+      const results = await simulationBackend.simulateBundle(requests);
+      setBundle({ requests, results });
+      setSimulationRequest(requests[0]);
+      setSimulation(results[0]);
+      if (simulationBackend.persists) {
+        queryClient.invalidateQueries({ queryKey: ["tenderly-simulations"] });
+      }
+      toast.success(
+        `Simulated ${results.length} steps via ${simulationBackend.label}`
+      );
     } catch (e) {
-      setSimulationError(e instanceof Error ? e.message : "Simulation failed");
+      setSimulationError(
+        e instanceof Error ? e.message : "Bundle simulation failed"
+      );
     } finally {
       setIsSimulating(false);
     }
   };
 
-  const handleSend = () => {
-    if (!toResolvedAddress || !dataHex || valueWei === undefined) return;
+  const selectBundleStep = (index: number) => {
+    if (!bundle?.results[index]) return;
+    setBundleStep(index);
+    setSimulationRequest(bundle.requests[index]);
+    setSimulation(bundle.results[index]);
+  };
+
+  // A CREATE2 deployment queues as its deployer call; CREATE has no `to`.
+  const handleAddFormToBundle = () => {
+    if (!txTo || !txData) return;
+    setBundleQueue((prev) => [
+      ...prev,
+      createBundleStep({
+        chainId,
+        from: simulateFromAddress,
+        to: txTo,
+        calldata: txData,
+        valueEth,
+        gasLimit,
+      }),
+    ]);
+    toast.success(`Added step ${bundleQueue.length + 1} to the bundle`);
+  };
+
+  const handleQueueDrafts = (drafts: TransactionDraft[]) => {
+    const calls = drafts.filter(
+      (d): d is TransactionDraft & { to: string } => Boolean(d.to)
+    );
+    if (calls.length < drafts.length) {
+      toast.warning(
+        `Skipped ${drafts.length - calls.length} contract creation${
+          drafts.length - calls.length === 1 ? "" : "s"
+        }; bundles only hold calls`
+      );
+    }
+    if (!calls.length) return;
+    setBundleQueue((prev) => [...prev, ...calls.map(createBundleStep)]);
+    setActiveView("inputs-bundle");
+    toast.success(`Queued ${calls.length} steps`);
+  };
+
+  const handleSendBatch = async () => {
+    if (!bundleQueue.length || !address) return;
+    // Forcing atomicity on a wallet that can't do it fails the whole batch.
+    if (!batchCapabilities) {
+      toast.error("The wallet hasn't reported its batching support yet");
+      return;
+    }
+    try {
+      const calls = toBatchCalls(bundleQueue);
+      const atomic =
+        batchCapabilities.atomic === "supported" ||
+        batchCapabilities.atomic === "ready";
+      const { id } = await sendCallsAsync({
+        calls,
+        chainId,
+        forceAtomic: atomic,
+        capabilities: paymasterUrl.trim()
+          ? { paymasterService: { url: paymasterUrl.trim() } }
+          : undefined,
+      });
+
+      setExecutionHistory((prev) => [
+        {
+          type: "execution",
+          method: "Batch",
+          from: address,
+          to: calls[0].to,
+          status: "pending",
+          chainId,
+          batchId: id,
+          atomic,
+          calls: bundleQueue.map((step) => ({
+            to: step.to,
+            value: step.valueEth || "0",
+            calldata: step.calldata,
+          })),
+          timestamp: Date.now(),
+        },
+        ...prev.filter((h) => h.type === "execution").slice(0, 49),
+      ]);
+      setActiveView("inputs-history");
+      toast.success(`Batch of ${calls.length} calls sent`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Batch send failed");
+    }
+  };
+
+  const handleSignSafeProposal = async () => {
+    if (!safeInfo || !safeTx || !address) return;
+    try {
+      const signature = await signTypedDataAsync(
+        safeTxTypedData(chainId, safeInfo.address, safeTx)
+      );
+      setSafeProposal(
+        toSafeProposal(chainId, safeInfo.address, safeTx, address, signature)
+      );
+      toast.success(
+        `Signed 1 of ${safeInfo.threshold} for Safe nonce ${safeTx.nonce}`
+      );
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Signing failed");
+    }
+  };
+
+  const handleExportSafeProposal = () => {
+    if (!currentSafeProposal) return;
+    const blob = new Blob([JSON.stringify(currentSafeProposal, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `safe-tx-${currentSafeProposal.nonce}-${currentSafeProposal.contractTransactionHash.slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSubmitSafeProposal = async () => {
+    const serviceUrl =
+      safeMode.serviceUrl.trim() || getSafeTransactionServiceUrl(chainId);
+    if (!currentSafeProposal || !serviceUrl) return;
+    setIsSubmittingSafeProposal(true);
+    try {
+      await safeServiceSubmitter(serviceUrl)(currentSafeProposal);
+      toast.success("Proposal submitted to the Safe Transaction Service");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Submission failed");
+    } finally {
+      setIsSubmittingSafeProposal(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!txData || !(txTo || deploy.enabled) || valueWei === undefined) return;
+    if (safeMode.enabled) return handleSignSafeProposal();
+    const seriousRisk =
+      lastSimulatedSend &&
+      riskFindings.some(
+        (f) => f.severity === "critical" || f.severity === "high"
+      );
+    // Serious findings still get a confirmation with the gate off.
+    if (sendGate.mode === "off" && !seriousRisk) return sendNow();
+    const currentBlock = await publicClient
+      ?.getBlockNumber()
+      .catch(() => undefined);
+    setSendConfirm({
+      problems: checkSendGate(
+        sendGate,
+        lastSimulatedSend,
+        {
+          chainId,
+          from: address,
+          to: txTo,
+          data: txData,
+          value: valueWei,
+          gas: gasWei,
+          authorizations,
+        },
+        currentBlock
+      ),
+    });
+  };
+
+  const sendNow = () => {
+    if (!txData || !(txTo || deploy.enabled) || valueWei === undefined) return;
     resetSendState();
+    sentDeploymentRef.current = deploy.enabled ? deployment ?? null : null;
     sendTransaction({
-      to: toResolvedAddress,
-      data: dataHex,
+      to: txTo,
+      data: txData,
+      value: valueWei,
+      gas: gasWei,
+      ...toFeeParams(fees),
+      ...(sendAccessList
+        ? { accessList: toRpcAccessList(sendAccessList) }
+        : {}),
+      ...(authorizations.length
+        ? {
+            type: "eip7702" as const,
+            authorizationList: toAuthorizationList(authorizations),
+          }
+        : {}),
+    });
+  };
+
+  const offlineSender = simulateFromIsEmpty ? address : simulateFromAddress;
+  const offlineBuildError =
+    formError ??
+    feeError ??
+    authorizationsSendError ??
+    (!offlineSender ? "Connect a wallet or set Simulate From" : undefined);
+
+  const handleBuildOfflineTx = async () => {
+    if (!txData || !(txTo || deploy.enabled) || valueWei === undefined) {
+      throw new Error(formError ?? "Fill in the form first");
+    }
+    if (!offlineSender) throw new Error("Missing sender");
+    if (!publicClient) throw new Error("No RPC for this network");
+    return await buildOfflineTransaction(publicClient, {
+      chainId,
+      from: offlineSender as Address,
+      to: txTo,
+      data: txData,
       value: valueWei,
       gas: gasWei,
+      fees,
+      accessList: toRpcAccessList(sendAccessList),
+      authorizationList: authorizations.length
+        ? toAuthorizationList(authorizations)
+        : undefined,
     });
   };
 
+  const handleBroadcastRawTx = async (raw: Hex, signed: SignedTransaction) => {
+    const txChainId = signed.tx.chainId ?? chainId;
+    try {
+      const client = getPublicClient(wagmiConfig, { chainId: txChainId });
+      if (!client) throw new Error(`No RPC for ${getChainLabel(txChainId)}`);
+      const hash = await client.sendRawTransaction({
+        serializedTransaction: raw as TransactionSerialized,
+      });
+      const data = signed.tx.data ?? "0x";
+      setExecutionHistory((prev) => [
+        {
+          type: "execution",
+          method: !signed.tx.to
+            ? "Deploy"
+            : data === "0x"
+            ? "Transfer"
+            : "Contract Call",
+          from: signed.from,
+          to: signed.tx.to ?? "",
+          contractAddress: signed.tx.to
+            ? undefined
+            : getContractAddress({
+                from: signed.from,
+                nonce: BigInt(signed.tx.nonce ?? 0),
+              }),
+          value: formatEther(signed.tx.value ?? 0n),
+          calldata: data,
+          gasLimit: signed.tx.gas?.toString(),
+          status: "pending",
+          hash,
+          chainId: txChainId,
+          nonce: signed.tx.nonce,
+          timestamp: Date.now(),
+        },
+        ...prev.filter((h) => h.type === "execution").slice(0, 49),
+      ]);
+      toast.success(`Broadcast ${hash.slice(0, 10)}…`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Broadcast failed");
+      throw e;
+    }
+  };
+
+  const handleReplaceExecution = async (
+    item: HistoryItem,
+    kind: ReplacementKind
+  ) => {
+    if (!item.hash) return;
+    const verb = kind === "cancel" ? "Cancel" : "Speed-up";
+    try {
+      const client = getPublicClient(wagmiConfig, {
+        chainId: item.chainId,
+      });
+      if (!client) throw new Error("No RPC for this network");
+      const { from, ...replacement } = await buildReplacement(
+        client,
+        item.hash as Hex,
+        kind
+      );
+      if (address && from.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`Connect ${from} to replace this transaction.`);
+      }
+      if (item.chainId !== chainId) {
+        await switchChainAsync({ chainId: item.chainId });
+      }
+      const hash = await sendReplacementAsync({
+        ...replacement,
+        chainId: item.chainId,
+      });
+
+      setExecutionHistory((prev) => [
+        {
+          type: "execution",
+          method: kind === "cancel" ? "Cancel" : item.method,
+          from,
+          to: replacement.to ?? item.to,
+          value: kind === "cancel" ? "0" : item.value,
+          calldata: replacement.data,
+          gasLimit: item.gasLimit,
+          status: "pending",
+          hash,
+          chainId: item.chainId,
+          nonce: replacement.nonce,
+          // CREATE at the same nonce deploys to the same address.
+          contractAddress:
+            kind === "cancel" ? undefined : item.contractAddress,
+          replaces: item.hash,
+          timestamp: Date.now(),
+        },
+        ...prev.map((h) =>
+          h.hash === item.hash ? { ...h, replacedBy: hash } : h
+        ),
+      ]);
+      toast.success(`${verb} sent: ${hash.slice(0, 10)}…`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : `${verb} failed`);
+    }
+  };
+
+  const handleCompareAccessList = async () => {
+    if (!simulationRequest || !simulationAccessList.length) return;
+    setIsComparingAccessList(true);
+    setAccessListCompareError(undefined);
+    try {
+      setAccessListComparison(
+        await compareAccessListGas(
+          simulationBackend,
+          simulationRequest,
+          simulationAccessList
+        )
+      );
+    } catch (e) {
+      setAccessListCompareError(
+        e instanceof Error ? e.message : "Comparison failed"
+      );
+    } finally {
+      setIsComparingAccessList(false);
+    }
+  };
+
+  const handleAccessListAttachedChange = (attached: boolean) => {
+    setAttachedAccessList(attached ? simulationAccessList : null);
+    if (attached && !accessListComparison && !isComparingAccessList) {
+      void handleCompareAccessList();
+    }
+  };
+
   const handleClearForm = () => {
     resetSendState();
     setLastTx(null);
@@ -588,14 +1545,71 @@ function App() {
     setGasLimit("");
     setCalldata("");
     setSimulateFrom("");
+    setStateOverrides([]);
+    setAuthorizations([]);
+    setBlockPin(DEFAULT_BLOCK_PIN);
+    setFormAccessList(null);
+    setFees(DEFAULT_FEE_SETTINGS);
   };
 
   const populateFormFromHistoryItem = (item: HistoryItem) => {
+    // A CREATE has no destination; its calldata is the initcode.
+    const isCreate = item.method === "Deploy" && !item.to;
+    setDeploy(
+      isCreate
+        ? {
+            ...DEFAULT_DEPLOY_SETTINGS,
+            enabled: true,
+            source: item.calldata ?? "",
+          }
+        : { ...deploy, enabled: false }
+    );
     setTo(item.to);
     setValueEth(item.value || "");
     setCalldata(item.calldata || "0x");
     setGasLimit(item.gasLimit || "");
     setSimulateFrom(item.from || "");
+    if (item.type === "simulation") {
+      setStateOverrides(item.stateOverrides ?? []);
+    }
+  };
+
+  const populateFormFromDraft = (draft: TransactionDraft) => {
+    // A creation loads into deploy mode, with its calldata as the initcode.
+    setDeploy(
+      draft.to
+        ? { ...deploy, enabled: false }
+        : {
+            ...DEFAULT_DEPLOY_SETTINGS,
+            enabled: true,
+            source: draft.calldata ?? "",
+          }
+    );
+    setTo(draft.to ?? "");
+    setValueEth(draft.valueEth ?? "");
+    setCalldata(draft.calldata || "0x");
+    setGasLimit(draft.gasLimit ?? "");
+    setSimulateFrom(draft.from ?? "");
+    if (draft.stateObjects) {
+      setStateOverrides(fromTenderlyStateObjects(draft.stateObjects));
+    }
+    if (draft.blockNumber !== undefined) {
+      setBlockPin({
+        mode: "number",
+        value: String(draft.blockNumber),
+        transactionIndex: draft.transactionIndex?.toString(),
+      });
+    }
+    setFormAccessList(draft.accessList ?? null);
+    if (draft.chainId !== undefined && draft.chainId !== chainId) {
+      void onSwitchChain(draft.chainId);
+    }
+  };
+
+  const handleLoadDraft = (draft: TransactionDraft) => {
+    populateFormFromDraft(draft);
+    setActiveView("new-transaction");
+    toast.success("Loaded into form");
   };
 
   const populateFormFromSimResult = (result: TenderlySimulateResult) => {
@@ -620,86 +1634,48 @@ function App() {
   };
 
   const handleLoadHistoryItem = (item: HistoryItem) => {
+    if (item.calls) {
+      // A batch goes back into the bundle queue rather than the form.
+      setBundleQueue(
+        item.calls.map((call) =>
+          createBundleStep({
+            chainId: item.chainId,
+            to: call.to,
+            calldata: call.calldata,
+            valueEth: call.value,
+          })
+        )
+      );
+      if (item.chainId !== chainId) void onSwitchChain(item.chainId);
+      setActiveView("inputs-bundle");
+      toast.success(`Queued ${item.calls.length} calls`);
+      return;
+    }
     populateFormFromHistoryItem(item);
+    // History mixes chains; the form always targets the wallet's network.
+    if (item.chainId !== chainId) void onSwitchChain(item.chainId);
     setActiveView("new-transaction");
     toast.success("Loaded into form");
   };
 
-  const handleViewSavedSimulation = async (item: HistoryItem) => {
-    if (!item.simulationId) return;
-    populateFormFromHistoryItem(item);
+  const showSavedSimulation = async (
+    simulationId: string,
+    fallback?: Partial<TransactionDraft>
+  ) => {
     resetSimulationState();
     setIsSimulating(true);
     setActiveView("gas-overview");
     try {
-      const result = await tenderlyGetSavedSimulationById(item.simulationId);
-
-      // Tenderly's saved-simulation GET endpoint may return only `simulation` metadata
-      // (no trace/log/state). In that case, re-run a full simulation (without saving)
-      // so the in-app dashboard has something to render.
-      const hasAnyDetails =
-        Array.isArray((result as any)?.trace) ||
-        Array.isArray((result as any)?.logs) ||
-        Array.isArray((result as any)?.stateChanges) ||
-        Array.isArray((result as any)?.assetChanges) ||
-        Array.isArray((result as any)?.balanceChanges) ||
-        Array.isArray((result as any)?.exposureChanges);
-
-      if (hasAnyDetails) {
-        setSimulation(result);
-        populateFormFromSimResult(result);
-        toast.success("Loaded saved simulation");
-        return;
-      }
-
-      const sim = (result as any)?.simulation as any;
-      const from = safeString(sim?.from) ?? safeString(item.from);
-      const toAddr = safeString(sim?.to) ?? safeString(item.to);
-      const input = safeString(sim?.input) ?? safeString(item.calldata) ?? "0x";
-
-      const gas =
-        safeNumber(sim?.gas) ??
-        safeNumber(item.gasLimit) ??
-        Number(gasWei ?? 30_000_000n);
-
-      const networkId =
-        safeString(sim?.network_id) ??
-        (typeof item.chainId === "number" ? String(item.chainId) : undefined) ??
-        String(chainId);
-
-      let valueWei: string | undefined =
-        typeof sim?.value === "string" && sim.value.trim().length
-          ? sim.value.trim()
-          : undefined;
-      if (!valueWei) {
-        const eth = safeString(item.value);
-        if (eth) {
-          try {
-            valueWei = parseEther(eth).toString();
-          } catch {
-            valueWei = undefined;
-          }
-        }
-      }
-
-      if (!from || !toAddr) throw new Error("Missing from/to for simulation");
-
-      const req: TenderlySimulateApiRequest = {
-        save: false,
-        simulation_type: "full",
-        network_id: networkId,
-        from,
-        to: toAddr,
-        input,
-        gas,
-        value: valueWei ?? "0",
-      };
-
-      setSimulationRequest(req);
-      const next = await tenderlySimulateAndSave(req);
-      setSimulation(next);
-      populateFormFromSimResult(next);
-      toast.success("Loaded simulation details");
+      const { result, request } = await loadTenderlySimulation(
+        simulationId,
+        fallback
+      );
+      if (request) setSimulationRequest(request);
+      setSimulation(result);
+      populateFormFromSimResult(result);
+      toast.success(
+        request ? "Loaded simulation details" : "Loaded saved simulation"
+      );
     } catch (e) {
       setSimulationError(
         e instanceof Error ? e.message : "Failed to load saved simulation"
@@ -709,6 +1685,23 @@ function App() {
     }
   };
 
+  const handleViewSavedSimulation = async (item: HistoryItem) => {
+    if (!item.simulationId) return;
+    populateFormFromHistoryItem(item);
+    await showSavedSimulation(item.simulationId, {
+      chainId: item.chainId,
+      from: item.from,
+      to: item.to,
+      calldata: item.calldata,
+      valueEth: item.value,
+      gasLimit: item.gasLimit || gasLimit,
+    });
+  };
+
+  const handleLoadSimulationById = async (simulationId: string) => {
+    await showSavedSimulation(simulationId, { chainId });
+  };
+
   const handleResimulateSavedSimulation = async (item: HistoryItem) => {
     if (!item.simulationId) return;
     resetSimulationState();
@@ -753,12 +1746,17 @@ function App() {
         save: true,
         save_if_fails: true,
         simulation_type: "full",
-        network_id: networkId,
+        network_id: requireTenderlyNetworkId(networkId),
         from,
         to: toAddr,
         input,
         gas,
         value: valueWei ?? "0",
+        state_objects:
+          toTenderlyStateObjects(item.stateOverrides ?? []) ??
+          ((prev as any)?.simulation?.state_objects as
+            | TenderlySimulateApiRequest["state_objects"]
+            | undefined),
       };
 
       setSimulationRequest(req);
@@ -798,8 +1796,21 @@ function App() {
     setValueEth,
     calldata,
     setCalldata,
+    abiFunctions: customAbiFunctions,
     gasLimit,
     setGasLimit,
+    gasAutoFill,
+    setGasAutoFill,
+    sendGate,
+    setSendGate,
+    simulatedGasUsed: bundle ? undefined : hexToBigIntSafe(simulation?.gasUsed),
+    fees,
+    setFees,
+    feeError,
+    gasEstimate: gasWei ?? hexToBigIntSafe(simulation?.gasUsed),
+    valueWei,
+    sendAccount: address,
+    attachedAccessListSize: sendAccessList?.length,
     ethPrice,
     walletEthBalance,
     toEnsName: toEnsBadgeName ?? undefined,
@@ -808,6 +1819,20 @@ function App() {
     simulateFrom,
     setSimulateFrom,
     simulateFromError,
+    simulationBackend: simulationBackendId,
+    setSimulationBackend: setSimulationBackendId,
+    simulationRpcUrl,
+    setSimulationRpcUrl,
+    simulationNotice,
+    stateOverrides,
+    setStateOverrides,
+    stateOverridesError,
+    simulationAccount: simulateFromAddress ?? address,
+    authorizations,
+    setAuthorizations,
+    authorizationsError: authorizationsSendError,
+    blockPin,
+    setBlockPin,
     dataBytes,
     formError,
     sendError,
@@ -820,14 +1845,53 @@ function App() {
       resetSimulationState();
     },
     canSend,
-    isSending,
+    isSending: safeMode.enabled ? isSigningSafeTx : isSending,
+    isDeploying: deploy.enabled,
+    sendLabel: safeMode.enabled
+      ? "Sign proposal"
+      : deploy.enabled
+      ? "Deploy"
+      : undefined,
     onSend: handleSend,
   };
 
   // Dashboard Data Prep
   const simulationResult = simulation ?? undefined;
-  const simulationLogs = simulationResult?.logs ?? [];
-  const simulationTrace = simulationResult?.trace ?? [];
+  const deployCodeSize =
+    deployment && simulationResult && simulationRequest?.input === deployment.data
+      ? deployedCodeSize(simulationResult, deployment.address)
+      : undefined;
+  // Results link to the chain they were simulated on, which may not be the
+  // wallet's current one (saved simulations, history, pasted JSON).
+  const simulationChainId =
+    safeNumber(simulationRequest?.network_id) ??
+    safeNumber((simulationResult as any)?.simulation?.network_id) ??
+    chainId;
+  const simulationBlockPinned = simulationRequest?.block_number !== undefined;
+  const simulationBlock = formatBlockPin(
+    simulationRequest?.block_number ??
+      simulationResult?.simulation?.block_number ??
+      safeNumber(hexToBigIntSafe(simulationResult?.blockNumber)?.toString()),
+    simulationRequest?.transaction_index
+  );
+  const simulationLogs = useMemo(
+    () =>
+      decodeLogsWithRegistry(
+        simulationResult?.logs ?? [],
+        registry,
+        simulationChainId
+      ),
+    [simulationResult, registry, simulationChainId]
+  );
+  const simulationTrace = useMemo(
+    () =>
+      decodeTraceWithRegistry(
+        simulationResult?.trace ?? [],
+        registry,
+        simulationChainId
+      ),
+    [simulationResult, registry, simulationChainId]
+  );
   const simulationStateChanges = simulationResult?.stateChanges ?? [];
   const simulationAssetChanges = simulationResult?.assetChanges ?? [];
   const simulationExposureChanges = simulationResult?.exposureChanges ?? [];
@@ -850,11 +1914,30 @@ function App() {
       if (addr && name) byAddress.set(addr, name);
     }
 
+    // Registry labels are user-chosen, so they win over Tenderly's names.
     return (address?: string) => {
       if (!address) return undefined;
-      return byAddress.get(address.toLowerCase());
+      return (
+        resolveRegistryLabel(simulationChainId, address) ??
+        byAddress.get(address.toLowerCase())
+      );
     };
-  }, [simulationResult]);
+  }, [simulationResult, resolveRegistryLabel, simulationChainId]);
+
+  // Without Tenderly's contract list (Local RPC) every proxy would look unverified.
+  const isVerifiedContract = useMemo(
+    () =>
+      Array.isArray(simulationResult?.contracts)
+        ? (address: string) => Boolean(resolveContractName(address))
+        : undefined,
+    [simulationResult, resolveContractName]
+  );
+  const riskFindings = useSimulationRisk(simulationResult, {
+    chainId: simulationChainId,
+    sender: simulationRequest?.from ?? simulationResult?.simulation?.from,
+    isVerified: isVerifiedContract,
+    stateObjects: simulationRequest?.state_objects,
+  });
 
   const actorAddress = useMemo(() => {
     if (typeof address === "string" && isAddress(address)) {
@@ -910,6 +1993,35 @@ function App() {
     }
 
     switch (activeView) {
+      case "bundle-overview":
+        if (!bundle) {
+          return (
+            <div className="flex h-[50vh] flex-col items-center justify-center gap-4 text-muted-foreground opacity-60">
+              <p className="text-xs font-semibold uppercase tracking-widest">
+                No bundle simulated
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setActiveView("inputs-bundle")}
+              >
+                Go to Bundle
+              </Button>
+            </div>
+          );
+        }
+        return (
+          <BundleDeltasView
+            requests={bundle.requests}
+            results={bundle.results}
+            chainId={simulationChainId}
+            resolveContractName={resolveContractName}
+            onSelectStep={(i) => {
+              selectBundleStep(i);
+              setActiveView("gas-overview");
+            }}
+          />
+        );
       case "gas-overview":
         return (
           <GasView
@@ -917,9 +2029,22 @@ function App() {
             simulationGasUsedBi={simulationGasUsedBi}
             simulationStatus={simulationResult?.status}
             simulationErrorMessage={simulationResult?.errorMessage}
-            chainId={chainId}
+            chainId={simulationChainId}
             resolveContractName={resolveContractName}
             generatedAccessList={simulationAccessList}
+            accessListAttached={Boolean(attachedAccessList)}
+            onAccessListAttachedChange={
+              bundle ? undefined : handleAccessListAttachedChange
+            }
+            accessListComparison={accessListComparison ?? undefined}
+            isComparingAccessList={isComparingAccessList}
+            accessListCompareError={accessListCompareError}
+            onCompareAccessList={() => void handleCompareAccessList()}
+            accessListDisabledReason={
+              fees.type === "legacy"
+                ? "Legacy transactions can't carry an access list. Pick another type under Advanced Options."
+                : undefined
+            }
           />
         );
       case "state-assets":
@@ -929,7 +2054,7 @@ function App() {
             simulationExposureChanges={simulationExposureChanges}
             simulationBalanceChanges={simulationBalanceChanges}
             actorAddress={actorAddress}
-            chainId={chainId}
+            chainId={simulationChainId}
             resolveContractName={resolveContractName}
           />
         );
@@ -937,7 +2062,7 @@ function App() {
         return (
           <StateView
             simulationStateChanges={simulationStateChanges}
-            chainId={chainId}
+            chainId={simulationChainId}
             resolveContractName={resolveContractName}
           />
         );
@@ -945,7 +2070,7 @@ function App() {
         return (
           <EventsView
             simulationLogs={simulationLogs}
-            chainId={chainId}
+            chainId={simulationChainId}
             resolveContractName={resolveContractName}
           />
         );
@@ -954,13 +2079,189 @@ function App() {
     }
   };
 
+  const renderInputsSource = () => {
+    switch (activeView) {
+      case "inputs-tx-hash":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Replay Transaction</h2>
+              <p className="text-sm text-muted-foreground">
+                Fetch a mined transaction and re-simulate it.
+              </p>
+            </div>
+            <TxHashView
+              defaultChainId={chainId}
+              isSimulating={isSimulating}
+              canSimulateOnChain={simulationBackend.supportsChain}
+              onLoadDraft={handleLoadDraft}
+              onSimulateDraft={handleSimulateDraft}
+            />
+          </>
+        );
+      case "inputs-offline":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Offline Signing</h2>
+              <p className="text-sm text-muted-foreground">
+                Export the form for an air-gapped signer, then broadcast the
+                signed transaction.
+              </p>
+            </div>
+            <OfflineView
+              chainId={chainId}
+              sender={offlineSender}
+              buildError={offlineBuildError}
+              onBuild={handleBuildOfflineTx}
+              onOpenRawTx={() => setActiveView("inputs-raw-tx")}
+            />
+          </>
+        );
+      case "inputs-raw-tx":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Signed Raw Tx</h2>
+              <p className="text-sm text-muted-foreground">
+                Verify, decode and simulate a signed transaction before
+                broadcasting it.
+              </p>
+            </div>
+            <RawTxView
+              chainId={chainId}
+              abiFunctions={customAbiFunctions}
+              isSimulating={isSimulating}
+              canSimulateOnChain={simulationBackend.supportsChain}
+              onSimulate={handleSimulateSigned}
+              onBroadcast={handleBroadcastRawTx}
+            />
+          </>
+        );
+      case "inputs-custom":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Compose Calldata</h2>
+              <p className="text-sm text-muted-foreground">
+                Encode a function call from its signature or ABI.
+              </p>
+            </div>
+            <CustomView
+              abiText={customAbi}
+              onAbiTextChange={setCustomAbi}
+              onCalldataChange={setCalldata}
+            />
+          </>
+        );
+      case "inputs-json":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Paste JSON</h2>
+              <p className="text-sm text-muted-foreground">
+                Load a transaction from a Tenderly, JSON-RPC or Safe payload.
+              </p>
+            </div>
+            <JsonView
+              onLoadDraft={handleLoadDraft}
+              onQueueDrafts={handleQueueDrafts}
+            />
+          </>
+        );
+      case "inputs-tenderly-id":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Load Simulation</h2>
+              <p className="text-sm text-muted-foreground">
+                Open any saved Tenderly simulation by ID or dashboard URL.
+              </p>
+            </div>
+            <TenderlyIdView
+              isLoading={isSimulating}
+              onLoadSimulation={handleLoadSimulationById}
+            />
+          </>
+        );
+      case "inputs-bundle":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Bundle</h2>
+              <p className="text-sm text-muted-foreground">
+                Queue transactions and simulate them in order on shared state.
+              </p>
+            </div>
+            <BundleView
+              steps={bundleQueue}
+              onStepsChange={setBundleQueue}
+              chainId={chainId}
+              canAddCurrent={Boolean(
+                txTo && txData && !formError && !simulateFromError
+              )}
+              onAddCurrent={handleAddFormToBundle}
+              onLoadStep={handleLoadDraft}
+              canSimulate={simulationSupported && !isSimulating && !isSwitching}
+              isSimulating={isSimulating}
+              onSimulate={handleSimulateBundle}
+              batchCapabilities={batchCapabilities}
+              canSendBatch={isConnected && !isSwitching}
+              isSendingBatch={isSendingBatch}
+              onSendBatch={handleSendBatch}
+              paymasterUrl={paymasterUrl}
+              onPaymasterUrlChange={setPaymasterUrl}
+            />
+          </>
+        );
+      case "inputs-contracts":
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Contract Registry</h2>
+              <p className="text-sm text-muted-foreground">
+                Labels and ABIs for your contracts, used to decode calldata,
+                traces and events.
+              </p>
+            </div>
+            <ContractsView defaultChainId={chainId} />
+          </>
+        );
+      default:
+        return (
+          <>
+            <div>
+              <h2 className="text-lg font-semibold mb-1">Recent Activity</h2>
+              <p className="text-sm text-muted-foreground">
+                History of your simulations and executions.
+              </p>
+            </div>
+            <HistoryDataTable
+              data={historyData}
+              onLoadHistoryItem={handleLoadHistoryItem}
+              onViewSimulation={handleViewSavedSimulation}
+              onResimulate={handleResimulateSavedSimulation}
+              onClearExecutions={() => setExecutionHistory([])}
+              onSpeedUp={(item) => void handleReplaceExecution(item, "speed-up")}
+              onCancel={(item) => void handleReplaceExecution(item, "cancel")}
+              ethPrice={ethPrice}
+            />
+          </>
+        );
+    }
+  };
+
   const isInputsView = (view: string) =>
     view === "new-transaction" ||
     view === "inputs-history" ||
     view === "inputs-custom" ||
     view === "inputs-json" ||
     view === "inputs-tenderly-id" ||
-    view === "inputs-tx-hash";
+    view === "inputs-tx-hash" ||
+    view === "inputs-offline" ||
+    view === "inputs-raw-tx" ||
+    view === "inputs-contracts" ||
+    view === "inputs-bundle";
 
   return (
     <SidebarProvider
@@ -997,31 +2298,70 @@ function App() {
                       Compose and simulate transactions before executing.
                     </p>
                   </div>
-                  <TransactionPanel {...transactionPanelProps} />
-                </div>
-                <div className="space-y-6">
-                  <div>
-                    <h2 className="text-lg font-semibold mb-1">
-                      Recent Activity
-                    </h2>
-                    <p className="text-sm text-muted-foreground">
-                      History of your simulations and executions.
-                    </p>
-                  </div>
-                  <HistoryDataTable
-                    data={historyData}
-                    onLoadHistoryItem={handleLoadHistoryItem}
-                    onViewSimulation={handleViewSavedSimulation}
-                    onResimulate={handleResimulateSavedSimulation}
-                    onClearExecutions={() => setExecutionHistory([])}
-                    ethPrice={ethPrice}
+                  <SafeModePanel
+                    settings={safeMode}
+                    onChange={setSafeMode}
+                    chainId={chainId}
+                    account={address}
+                    info={safeInfo}
+                    infoError={
+                      safeNonceError ?? safeInfoQuery.error?.message
+                    }
+                    isLoadingInfo={safeMode.enabled && safeInfoQuery.isFetching}
+                    proposal={currentSafeProposal}
+                    onExport={handleExportSafeProposal}
+                    onSubmit={handleSubmitSafeProposal}
+                    isSubmitting={isSubmittingSafeProposal}
                   />
+                  <DeployModePanel
+                    settings={deploy}
+                    onChange={setDeploy}
+                    chainId={chainId}
+                    prepared={preparedDeployment}
+                    codeSize={deployCodeSize}
+                  />
+                  <TransactionPanel {...transactionPanelProps} />
                 </div>
+                <div className="space-y-6">{renderInputsSource()}</div>
               </div>
             ) : (
               <>
                 {simulation && (
                   <div className="flex items-center justify-end gap-2 mb-4">
+                    <Badge variant="outline">
+                      {getChainLabel(simulationChainId)}
+                    </Badge>
+                    <Badge
+                      variant={simulationBlockPinned ? "secondary" : "outline"}
+                      className="gap-1"
+                      title={
+                        simulationBlockPinned
+                          ? "Pinned block"
+                          : "Block the simulation ran on"
+                      }
+                    >
+                      {simulationBlockPinned && <Pin className="size-3" />}
+                      {simulationBlock}
+                    </Badge>
+                    {bundle && (
+                      <Select
+                        value={String(bundleStep)}
+                        onValueChange={(v) => selectBundleStep(Number(v))}
+                      >
+                        <SelectTrigger className="h-8 w-auto gap-2 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {bundle.results.map((result, i) => (
+                            <SelectItem key={i} value={String(i)}>
+                              Step {i + 1} of {bundle.results.length}
+                              {result.status === false ? " · reverted" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="mr-auto" />
                     <Button
                       variant="outline"
                       size="sm"
@@ -1071,12 +2411,29 @@ function App() {
                     </Button>
                   </div>
                 )}
+                <RiskFindings findings={riskFindings} className="mb-4" />
                 {renderDashboardContent()}
               </>
             )}
           </div>
         </div>
       </SidebarInset>
+      <SendConfirmDialog
+        open={Boolean(sendConfirm)}
+        onOpenChange={(open) => !open && setSendConfirm(null)}
+        problems={sendConfirm?.problems ?? []}
+        blocked={sendGate.mode === "block"}
+        deltas={
+          lastSimulatedSend && simulation
+            ? computeBundleAssetDeltas([simulation])
+            : []
+        }
+        sender={address}
+        chainId={chainId}
+        resolveContractName={resolveContractName}
+        findings={lastSimulatedSend ? riskFindings : []}
+        onConfirm={sendNow}
+      />
     </SidebarProvider>
   );
 }
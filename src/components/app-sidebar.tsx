@@ -12,6 +12,11 @@ import {
   FileCode2,
   Keyboard,
   Hash,
+  BookOpen,
+  ListOrdered,
+  Layers,
+  PenLine,
+  FileCheck2,
 } from "lucide-react";
 
 import {
@@ -58,6 +63,26 @@ const navItems = {
       value: "inputs-tx-hash",
       icon: Hash,
     },
+    {
+      title: "Offline",
+      value: "inputs-offline",
+      icon: PenLine,
+    },
+    {
+      title: "Raw Tx",
+      value: "inputs-raw-tx",
+      icon: FileCheck2,
+    },
+    {
+      title: "Bundle",
+      value: "inputs-bundle",
+      icon: ListOrdered,
+    },
+    {
+      title: "Contracts",
+      value: "inputs-contracts",
+      icon: BookOpen,
+    },
   ],
   gas: [
     {
@@ -82,6 +107,11 @@ const navItems = {
       value: "state-logs",
       icon: Box,
     },
+    {
+      title: "Bundle Totals",
+      value: "bundle-overview",
+      icon: Layers,
+    },
   ],
   secondary: [
     {
@@ -0,0 +1,242 @@
+import * as React from "react";
+import { Fuel, Layers, Users } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DashboardMetric } from "@/components/ui/viz/DashboardMetric";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+import type { TenderlySimulateApiRequest } from "@/lib/tenderlyApi";
+import { computeBundleAssetDeltas, formatBundleDelta } from "@/lib/bundle";
+import { formatIntString, hexToBigIntSafe } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+interface BundleDeltasViewProps {
+  requests: TenderlySimulateApiRequest[];
+  results: TenderlySimulateResult[];
+  chainId?: number;
+  resolveContractName?: (address?: string) => string | undefined;
+  onSelectStep: (index: number) => void;
+}
+
+const usdFormatter = new Intl.NumberFormat(undefined, {
+  maximumFractionDigits: 2,
+});
+
+const headClass = "h-9 px-3 text-[10px] uppercase tracking-wider";
+
+export function BundleDeltasView({
+  requests,
+  results,
+  chainId,
+  resolveContractName,
+  onSelectStep,
+}: BundleDeltasViewProps) {
+  const deltas = React.useMemo(
+    () => computeBundleAssetDeltas(results),
+    [results]
+  );
+
+  const totalGas = results.reduce(
+    (sum, r) => sum + (hexToBigIntSafe(r.gasUsed) ?? 0n),
+    0n
+  );
+  const reverted = results.filter((r) => r.status === false).length;
+  const holders = new Set(deltas.map((d) => d.holder.toLowerCase())).size;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <DashboardMetric
+          title="Steps"
+          value={results.length}
+          subValue={
+            reverted ? `${reverted} reverted` : "All steps succeeded"
+          }
+          badgeIcon={<Layers className="size-3" />}
+          badgeText="Bundle"
+        />
+        <DashboardMetric
+          title="Total Gas Used"
+          value={formatIntString(totalGas.toString())}
+          subValue="Summed across steps"
+          badgeIcon={<Fuel className="size-3" />}
+          badgeText="Gas"
+        />
+        <DashboardMetric
+          title="Holders Affected"
+          value={holders}
+          subValue="Addresses with a net asset change"
+          badgeIcon={<Users className="size-3" />}
+          badgeText="Scope"
+        />
+      </div>
+
+      <Card className="overflow-hidden">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">Steps</CardTitle>
+          <CardDescription className="text-xs">
+            Open a step to inspect it in the Gas, Assets, State and Logs views.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-0">
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead className={headClass}>#</TableHead>
+                <TableHead className={headClass}>To</TableHead>
+                <TableHead className={headClass}>Status</TableHead>
+                <TableHead className={cn(headClass, "text-right")}>
+                  Gas used
+                </TableHead>
+                <TableHead className={headClass} />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map((result, i) => {
+                const gas = hexToBigIntSafe(result.gasUsed);
+                return (
+                  <TableRow key={i}>
+                    <TableCell className="px-3 py-2 font-mono">
+                      {i + 1}
+                    </TableCell>
+                    <TableCell className="px-3 py-2">
+                      {requests[i].to ? (
+                        <ContractAddress
+                          address={requests[i].to}
+                          label={resolveContractName?.(requests[i].to)}
+                          chainId={chainId}
+                          className="text-xs"
+                        />
+                      ) : (
+                        "Contract creation"
+                      )}
+                    </TableCell>
+                    <TableCell className="px-3 py-2">
+                      {result.status === false ? (
+                        <Badge
+                          variant="destructive"
+                          className="h-5 px-1.5 text-[10px]"
+                          title={result.errorMessage}
+                        >
+                          Reverted
+                        </Badge>
+                      ) : (
+                        <Badge
+                          variant="success"
+                          className="h-5 px-1.5 text-[10px]"
+                        >
+                          Success
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="px-3 py-2 text-right font-mono tabular-nums">
+                      {gas !== undefined ? formatIntString(gas.toString()) : "—"}
+                    </TableCell>
+                    <TableCell className="px-3 py-2 text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => onSelectStep(i)}
+                      >
+                        Open
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="overflow-hidden">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-sm">Net Asset Deltas</CardTitle>
+          <CardDescription className="text-xs">
+            Every step's transfers summed per holder and asset. Amounts that
+            only pass through an address cancel out.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-0">
+          {deltas.length === 0 ? (
+            <div className="py-8 text-center text-xs text-muted-foreground">
+              No net asset changes.
+            </div>
+          ) : (
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className={headClass}>Holder</TableHead>
+                  <TableHead className={headClass}>Asset</TableHead>
+                  <TableHead className={cn(headClass, "text-right")}>
+                    Net change
+                  </TableHead>
+                  <TableHead className={cn(headClass, "text-right")}>
+                    USD
+                  </TableHead>
+                  <TableHead className={cn(headClass, "text-right")}>
+                    Steps
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deltas.map((d) => (
+                  <TableRow key={`${d.holder}:${d.token ?? "native"}`}>
+                    <TableCell className="px-3 py-2">
+                      <ContractAddress
+                        address={d.holder}
+                        label={resolveContractName?.(d.holder)}
+                        chainId={chainId}
+                        className="text-xs"
+                        showCopy={true}
+                        showExplorer={true}
+                      />
+                    </TableCell>
+                    <TableCell className="px-3 py-2 font-medium">
+                      {d.symbol ?? (d.token ? d.token.slice(0, 10) : "Native")}
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "px-3 py-2 text-right font-mono tabular-nums",
+                        d.raw < 0n ? "text-destructive" : "text-success"
+                      )}
+                    >
+                      {formatBundleDelta(d)}
+                    </TableCell>
+                    <TableCell className="px-3 py-2 text-right font-mono tabular-nums">
+                      {d.usd !== undefined
+                        ? `${d.usd < 0 ? "−" : ""}$${usdFormatter.format(
+                            Math.abs(d.usd)
+                          )}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="px-3 py-2 text-right font-mono text-muted-foreground">
+                      {d.steps.map((s) => s + 1).join(", ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
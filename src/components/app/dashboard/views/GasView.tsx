@@ -1,5 +1,5 @@
 import * as React from "react";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Loader2 } from "lucide-react";
 import { Area, AreaChart, CartesianGrid, XAxis } from "recharts";
 import { isAddress } from "viem";
 
@@ -10,6 +10,8 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { BarList, type BarListItem } from "@/components/ui/viz/BarList";
 import { DashboardMetric } from "@/components/ui/viz/DashboardMetric";
 import {
@@ -26,6 +28,7 @@ import {
 } from "@/lib/format";
 import { cn } from "@/lib/utils";
 import type { TenderlyTraceEntry } from "@/lib/tenderly";
+import type { AccessListGasComparison } from "@/lib/accessList";
 import { ContractAddress } from "../../shared/ContractAddress";
 import { CopyButton } from "../../shared/CopyButton";
 import { CallTraceTree, type CallTraceTreeValueMode } from "./CallTraceTree";
@@ -38,6 +41,15 @@ export interface GasDashboardProps {
   chainId?: number;
   resolveContractName?: (address?: string) => string | undefined;
   generatedAccessList?: { address: string; storage_keys: string[] }[];
+  /** Whether the generated list is attached to the next send. */
+  accessListAttached?: boolean;
+  onAccessListAttachedChange?: (attached: boolean) => void;
+  accessListComparison?: AccessListGasComparison;
+  isComparingAccessList?: boolean;
+  accessListCompareError?: string;
+  onCompareAccessList?: () => void;
+  /** Why the list can't be attached (e.g. a legacy tx type). */
+  accessListDisabledReason?: string;
 }
 
 type GasNode = {
@@ -150,6 +162,13 @@ export function GasView({
   chainId,
   resolveContractName,
   generatedAccessList,
+  accessListAttached,
+  onAccessListAttachedChange,
+  accessListComparison,
+  isComparingAccessList,
+  accessListCompareError,
+  onCompareAccessList,
+  accessListDisabledReason,
 }: GasDashboardProps) {
   const valueMode: CallTraceTreeValueMode = "inclusive";
 
@@ -522,6 +541,65 @@ export function GasView({
                       showPercentage={false}
                       barClassName="bg-primary/40"
                     />
+                    {onAccessListAttachedChange && (
+                      <div className="space-y-2 border-t border-border/60 pt-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <label
+                            htmlFor="attach-access-list"
+                            className="text-xs font-medium"
+                          >
+                            Attach access list
+                          </label>
+                          <Switch
+                            id="attach-access-list"
+                            checked={Boolean(accessListAttached)}
+                            disabled={Boolean(accessListDisabledReason)}
+                            onCheckedChange={onAccessListAttachedChange}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                          <span
+                            className={cn(
+                              !accessListDisabledReason &&
+                                accessListCompareError &&
+                                "text-destructive"
+                            )}
+                          >
+                            {accessListDisabledReason
+                              ? accessListDisabledReason
+                              : accessListCompareError
+                              ? accessListCompareError
+                              : accessListComparison
+                              ? accessListComparison.saved > 0n
+                                ? `Saves ${formatIntString(
+                                    accessListComparison.saved.toString()
+                                  )} gas (${formatIntString(
+                                    accessListComparison.withoutList.toString()
+                                  )} → ${formatIntString(
+                                    accessListComparison.withList.toString()
+                                  )}).`
+                                : `Costs ${formatIntString(
+                                    (-accessListComparison.saved).toString()
+                                  )} more gas; better left off.`
+                              : "Compare gas with and without the list before attaching it."}
+                          </span>
+                          {onCompareAccessList && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 px-2 text-xs gap-1.5 shrink-0"
+                              disabled={isComparingAccessList}
+                              onClick={onCompareAccessList}
+                            >
+                              {isComparingAccessList && (
+                                <Loader2 className="size-3 animate-spin" />
+                              )}
+                              {accessListComparison ? "Re-compare" : "Compare gas"}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
                   </>
                 ) : (
                   <div className="text-sm text-muted-foreground">—</div>
@@ -0,0 +1,267 @@
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  DownloadSimpleIcon,
+  PlayIcon,
+  PaperPlaneTiltIcon,
+  PlusIcon,
+  TrashIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { getChainLabel } from "@/lib/chains";
+import { moveBundleStep, type BundleStep } from "@/lib/bundle";
+import type { BatchCapabilities } from "@/lib/batchCalls";
+
+interface BundleViewProps {
+  steps: BundleStep[];
+  onStepsChange: (steps: BundleStep[]) => void;
+  chainId: number;
+  /** The form currently holds a valid transaction that can be queued. */
+  canAddCurrent: boolean;
+  onAddCurrent: () => void;
+  onLoadStep: (step: BundleStep) => void;
+  canSimulate: boolean;
+  isSimulating: boolean;
+  onSimulate: () => void;
+  /** Wallet's EIP-5792 support on this network; undefined when it has none. */
+  batchCapabilities?: BatchCapabilities;
+  canSendBatch: boolean;
+  isSendingBatch: boolean;
+  onSendBatch: () => void;
+  paymasterUrl: string;
+  onPaymasterUrlChange: (url: string) => void;
+}
+
+const ATOMIC_LABELS: Record<BatchCapabilities["atomic"], string> = {
+  supported: "Atomic",
+  ready: "Atomic after upgrade",
+  unsupported: "Not atomic",
+};
+
+function describeCalldata(calldata?: string) {
+  if (!calldata || calldata === "0x") return "Transfer";
+  return `${calldata.slice(0, 10)} · ${(calldata.length - 2) / 2} bytes`;
+}
+
+export function BundleView({
+  steps,
+  onStepsChange,
+  chainId,
+  canAddCurrent,
+  onAddCurrent,
+  onLoadStep,
+  canSimulate,
+  isSimulating,
+  onSimulate,
+  batchCapabilities,
+  canSendBatch,
+  isSendingBatch,
+  onSendBatch,
+  paymasterUrl,
+  onPaymasterUrlChange,
+}: BundleViewProps) {
+  const offChain = steps.filter(
+    (s) => s.chainId !== undefined && s.chainId !== chainId
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          disabled={!canAddCurrent}
+          onClick={onAddCurrent}
+        >
+          <PlusIcon weight="bold" size={14} />
+          Add current form
+        </Button>
+        <Button
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          disabled={!canSimulate || !steps.length || offChain.length > 0}
+          onClick={onSimulate}
+        >
+          <PlayIcon weight="bold" size={14} />
+          {isSimulating ? "Simulating…" : `Simulate ${steps.length} steps`}
+        </Button>
+        {steps.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-3 text-xs text-muted-foreground"
+            onClick={() => onStepsChange([])}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {offChain.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive shadow-sm">
+          <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+          <span>
+            A bundle runs on one network. Remove the steps queued for other
+            networks or switch to {getChainLabel(offChain[0].chainId!)}.
+          </span>
+        </div>
+      )}
+
+      {steps.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-primary/20 bg-primary/5 py-10 text-center text-sm text-muted-foreground">
+          Fill in the form and add it here, or queue several entries from JSON.
+        </div>
+      ) : (
+        <ol className="space-y-2">
+          {steps.map((step, i) => (
+            <li
+              key={step.id}
+              className="flex items-start justify-between gap-3 rounded-xl border border-border/60 bg-card/60 p-3 shadow-sm"
+            >
+              <div className="flex min-w-0 items-start gap-3">
+                <Badge
+                  variant="outline"
+                  className="h-5 shrink-0 px-1.5 text-[10px] font-mono text-muted-foreground"
+                >
+                  {i + 1}
+                </Badge>
+                <div className="min-w-0 space-y-1">
+                  <ContractAddress
+                    address={step.to}
+                    chainId={step.chainId ?? chainId}
+                    className="text-xs"
+                  />
+                  <div className="flex flex-wrap items-center gap-x-2 text-[10px] text-muted-foreground font-mono">
+                    <span>{describeCalldata(step.calldata)}</span>
+                    {step.valueEth && step.valueEth !== "0" && (
+                      <span>{step.valueEth} ETH</span>
+                    )}
+                    {step.from && <span>from {step.from.slice(0, 8)}…</span>}
+                  </div>
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Move up"
+                  disabled={i === 0}
+                  onClick={() => onStepsChange(moveBundleStep(steps, i, -1))}
+                >
+                  <ArrowUpIcon weight="bold" size={14} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Move down"
+                  disabled={i === steps.length - 1}
+                  onClick={() => onStepsChange(moveBundleStep(steps, i, 1))}
+                >
+                  <ArrowDownIcon weight="bold" size={14} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  title="Load into form"
+                  onClick={() => onLoadStep(step)}
+                >
+                  <DownloadSimpleIcon weight="bold" size={14} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                  title="Remove"
+                  onClick={() =>
+                    onStepsChange(steps.filter((s) => s.id !== step.id))
+                  }
+                >
+                  <TrashIcon weight="bold" size={14} />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {steps.length > 0 && (
+        <div className="space-y-3 rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium">Send as one batch</span>
+              {batchCapabilities && (
+                <Badge
+                  variant={
+                    batchCapabilities.atomic === "unsupported"
+                      ? "warning"
+                      : "success"
+                  }
+                  className="text-[10px]"
+                >
+                  {ATOMIC_LABELS[batchCapabilities.atomic]}
+                </Badge>
+              )}
+              {batchCapabilities?.paymasterService && (
+                <Badge variant="secondary" className="text-[10px]">
+                  Paymaster
+                </Badge>
+              )}
+            </div>
+            <Button
+              size="sm"
+              className="h-8 px-3 text-xs gap-1.5"
+              disabled={
+                !batchCapabilities ||
+                !canSendBatch ||
+                isSendingBatch ||
+                offChain.length > 0
+              }
+              onClick={onSendBatch}
+            >
+              <PaperPlaneTiltIcon weight="bold" size={14} />
+              {isSendingBatch ? "Sending…" : `Send ${steps.length} calls`}
+            </Button>
+          </div>
+          {batchCapabilities?.paymasterService && (
+            <div className="space-y-1">
+              <Label
+                htmlFor="paymaster-url"
+                className="text-xs text-muted-foreground"
+              >
+                Paymaster service URL (optional)
+              </Label>
+              <Input
+                id="paymaster-url"
+                className="font-mono text-xs"
+                placeholder="https://…"
+                value={paymasterUrl}
+                onChange={(e) => onPaymasterUrlChange(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="text-xs text-muted-foreground">
+            {batchCapabilities
+              ? "Sends every step through wallet_sendCalls from the connected smart wallet. Per-step senders and gas limits are ignored."
+              : "The connected wallet doesn't support wallet_sendCalls (EIP-5792) on this network. Connect a smart wallet such as Base Account to send the queue as one batch."}
+          </div>
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground">
+        Steps run in order on shared state, so an approval in step 1 is visible
+        to a swap in step 2. Steps without a sender use Simulate From or your
+        wallet.
+      </div>
+    </div>
+  );
+}
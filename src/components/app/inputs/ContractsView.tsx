@@ -0,0 +1,434 @@
+import { useMemo, useRef, useState } from "react";
+import { getAddress, isAddress } from "viem";
+import { toast } from "sonner";
+import {
+  DownloadSimpleIcon,
+  FloppyDiskIcon,
+  PencilSimpleIcon,
+  TrashIcon,
+  UploadSimpleIcon,
+} from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupInput,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { useContractRegistry } from "@/components/contract-registry-provider";
+import { SUPPORTED_CHAINS, getChainLabel } from "@/lib/chains";
+import {
+  parseContractArtifact,
+  parseRegistryExport,
+  registryKey,
+  removeRegistryEntry,
+  upsertRegistryEntry,
+  type ContractRegistry,
+  type ContractRegistryEntry,
+} from "@/lib/contractRegistry";
+
+interface ContractsViewProps {
+  defaultChainId: number;
+}
+
+function countAbiItems(entry: ContractRegistryEntry, type: string) {
+  return (entry.abi ?? []).filter((item) => item.type === type).length;
+}
+
+export function ContractsView({ defaultChainId }: ContractsViewProps) {
+  const { registry, setRegistry } = useContractRegistry();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [chainId, setChainId] = useState(defaultChainId);
+  const [address, setAddress] = useState("");
+  const [label, setLabel] = useState("");
+  const [abiText, setAbiText] = useState("");
+  const [abiSource, setAbiSource] = useState<string | undefined>();
+
+  const addressError =
+    address.trim() && !isAddress(address.trim(), { strict: false })
+      ? "Invalid address"
+      : undefined;
+  const artifact = useMemo(
+    () => (abiText.trim() ? parseContractArtifact(abiText) : undefined),
+    [abiText]
+  );
+  const canSave =
+    isAddress(address.trim(), { strict: false }) &&
+    (!artifact || artifact.ok) &&
+    Boolean(label.trim() || artifact?.ok);
+
+  const grouped = useMemo(() => {
+    const byChain = new Map<number, ContractRegistryEntry[]>();
+    for (const entry of registry) {
+      const list = byChain.get(entry.chainId) ?? [];
+      list.push(entry);
+      byChain.set(entry.chainId, list);
+    }
+    return [...byChain.entries()].sort(([a], [b]) =>
+      a === defaultChainId ? -1 : b === defaultChainId ? 1 : a - b
+    );
+  }, [registry, defaultChainId]);
+
+  const resetForm = () => {
+    setAddress("");
+    setLabel("");
+    setAbiText("");
+    setAbiSource(undefined);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    setRegistry(
+      upsertRegistryEntry(registry, {
+        chainId,
+        address: address.trim(),
+        label: label.trim(),
+        abi: artifact?.ok ? artifact.abi : undefined,
+        source: artifact?.ok ? abiSource ?? artifact.format : undefined,
+      })
+    );
+    toast.success(`Saved ${label.trim() || getAddress(address.trim())}`);
+    resetForm();
+  };
+
+  const handleEdit = (entry: ContractRegistryEntry) => {
+    setChainId(entry.chainId);
+    setAddress(entry.address);
+    setLabel(entry.label ?? "");
+    setAbiText(entry.abi ? JSON.stringify(entry.abi, null, 2) : "");
+    setAbiSource(entry.source);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    let next: ContractRegistry = registry;
+    let saved = 0;
+    const skipped: string[] = [];
+
+    for (const file of Array.from(files)) {
+      const text = await file.text();
+
+      // A previously exported registry.
+      try {
+        const entries = parseRegistryExport(text);
+        if (entries.length) {
+          for (const entry of entries) next = upsertRegistryEntry(next, entry);
+          saved += entries.length;
+          continue;
+        }
+      } catch {
+        // Not a registry export; try it as an artifact.
+      }
+
+      const parsed = parseContractArtifact(text, file.name);
+      if (!parsed.ok) {
+        skipped.push(`${file.name}: ${parsed.error}`);
+        continue;
+      }
+      const source = `${parsed.format}: ${file.name}`;
+      const target =
+        parsed.address ??
+        (files.length === 1 && isAddress(address.trim(), { strict: false })
+          ? address.trim()
+          : undefined);
+      if (!target) {
+        if (files.length === 1) {
+          // Let the user fill in the address.
+          setAbiText(text);
+          setAbiSource(source);
+          if (!label.trim() && parsed.name) setLabel(parsed.name);
+        } else {
+          skipped.push(`${file.name}: no deployment address`);
+        }
+        continue;
+      }
+      next = upsertRegistryEntry(next, {
+        chainId,
+        address: target,
+        label: parsed.name,
+        abi: parsed.abi,
+        source,
+      });
+      saved += 1;
+    }
+
+    if (saved) {
+      setRegistry(next);
+      toast.success(`Imported ${saved} contract${saved === 1 ? "" : "s"}`);
+    }
+    if (skipped.length) {
+      toast.error(`Skipped ${skipped.length} file(s)`, {
+        description: skipped.slice(0, 3).join("\n"),
+      });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(registry, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "contract-registry.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm">
+        <div className="grid gap-3 sm:grid-cols-[10rem,1fr]">
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">Network</Label>
+            <Select
+              value={String(chainId)}
+              onValueChange={(val) => setChainId(Number(val))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CHAINS.map((chain) => (
+                  <SelectItem key={chain.id} value={String(chain.id)}>
+                    {chain.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label
+              htmlFor="registry-address"
+              className="text-sm text-muted-foreground"
+            >
+              Address
+            </Label>
+            <InputGroup>
+              <InputGroupInput
+                id="registry-address"
+                className="font-mono text-sm text-foreground border-none"
+                placeholder="0x…"
+                value={address}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setAddress(e.target.value)
+                }
+              />
+            </InputGroup>
+            {addressError && (
+              <div className="text-xs text-destructive">{addressError}</div>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label
+            htmlFor="registry-label"
+            className="text-sm text-muted-foreground"
+          >
+            Label
+          </Label>
+          <InputGroup>
+            <InputGroupInput
+              id="registry-label"
+              className="text-sm text-foreground border-none"
+              placeholder="e.g. Treasury Vault"
+              value={label}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setLabel(e.target.value)
+              }
+            />
+          </InputGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label
+            htmlFor="registry-abi"
+            className="text-sm text-muted-foreground"
+          >
+            ABI (optional)
+          </Label>
+          <InputGroup className="flex-col items-stretch">
+            <InputGroupTextarea
+              id="registry-abi"
+              className="min-h-[100px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+              placeholder="ABI JSON, or a Foundry / Hardhat artifact"
+              value={abiText}
+              onChange={(e) => {
+                setAbiText(e.target.value);
+                setAbiSource(undefined);
+              }}
+            />
+          </InputGroup>
+          {artifact && !artifact.ok && (
+            <div className="text-xs text-destructive">{artifact.error}</div>
+          )}
+          {artifact?.ok && (
+            <div className="text-xs text-muted-foreground">
+              {artifact.format === "abi" ? "ABI" : `${artifact.format} artifact`}{" "}
+              · {artifact.abi.length} items
+              {artifact.name ? ` · ${artifact.name}` : ""}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            className="h-8 px-3 text-xs gap-1.5"
+            disabled={!canSave}
+            onClick={handleSave}
+          >
+            <FloppyDiskIcon weight="bold" size={14} />
+            Save
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-3 text-xs gap-1.5"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <UploadSimpleIcon weight="bold" size={14} />
+            Import files
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            multiple
+            className="hidden"
+            onChange={(e) => void handleFiles(e.target.files)}
+          />
+          {(address || label || abiText) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 px-3 text-xs text-muted-foreground"
+              onClick={resetForm}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Import accepts ABI JSON, Foundry <code>out/*.json</code>, Hardhat
+          artifacts and hardhat-deploy deployments (which carry their address),
+          or a previously exported registry.
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">
+            Saved contracts
+            <span className="ml-2 text-muted-foreground">{registry.length}</span>
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2 text-xs gap-1.5"
+            disabled={!registry.length}
+            onClick={handleExport}
+          >
+            <DownloadSimpleIcon weight="bold" size={14} />
+            Export
+          </Button>
+        </div>
+
+        {grouped.length === 0 && (
+          <div className="rounded-lg border border-dashed border-primary/20 bg-primary/5 py-10 text-center text-sm text-muted-foreground">
+            No contracts saved yet.
+          </div>
+        )}
+
+        {grouped.map(([groupChainId, entries]) => (
+          <div key={groupChainId} className="space-y-2">
+            <div className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">
+              {getChainLabel(groupChainId)}
+            </div>
+            {entries.map((entry) => {
+              const functions = countAbiItems(entry, "function");
+              const events = countAbiItems(entry, "event");
+              return (
+                <div
+                  key={registryKey(entry.chainId, entry.address)}
+                  className="flex items-start justify-between gap-3 rounded-xl border border-border/60 bg-card/60 p-3 shadow-sm"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <ContractAddress
+                      address={entry.address}
+                      chainId={entry.chainId}
+                      className="text-xs"
+                    />
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {entry.abi ? (
+                        <Badge
+                          variant="outline"
+                          className="h-5 px-1.5 text-[10px] text-muted-foreground"
+                        >
+                          {functions} fns · {events} events
+                        </Badge>
+                      ) : (
+                        <Badge
+                          variant="outline"
+                          className="h-5 px-1.5 text-[10px] text-muted-foreground"
+                        >
+                          label only
+                        </Badge>
+                      )}
+                      {entry.source && (
+                        <span className="text-[10px] text-muted-foreground truncate">
+                          {entry.source}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      title="Edit"
+                      onClick={() => handleEdit(entry)}
+                    >
+                      <PencilSimpleIcon weight="bold" size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                      title="Remove"
+                      onClick={() =>
+                        setRegistry(
+                          removeRegistryEntry(
+                            registry,
+                            entry.chainId,
+                            entry.address
+                          )
+                        )
+                      }
+                    >
+                      <TrashIcon weight="bold" size={14} />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
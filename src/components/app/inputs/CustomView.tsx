@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import type { AbiFunction } from "viem";
+import { WarningCircleIcon } from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AbiParamInput,
+  paramLabel,
+} from "@/components/app/shared/AbiParamInput";
+import { CopyButton } from "@/components/app/shared/CopyButton";
+import {
+  defaultAbiFormValue,
+  encodeAbiFormCall,
+  formatFunctionSignature,
+  getFunctionSelector,
+  parseAbiFunctions,
+  type AbiFormValue,
+} from "@/lib/abiForm";
+
+interface CustomViewProps {
+  abiText: string;
+  onAbiTextChange: (text: string) => void;
+  /** Called with freshly encoded calldata after an edit leaves every argument valid. */
+  onCalldataChange: (calldata: string) => void;
+}
+
+export function CustomView({
+  abiText,
+  onAbiTextChange,
+  onCalldataChange,
+}: CustomViewProps) {
+  const [selectedSignature, setSelectedSignature] = useState<string>("");
+  const [values, setValues] = useState<AbiFormValue[]>([]);
+
+  const parsed = useMemo(
+    () => (abiText.trim() ? parseAbiFunctions(abiText) : undefined),
+    [abiText]
+  );
+  const functions = parsed?.ok ? parsed.functions : [];
+
+  const selectedFn: AbiFunction | undefined =
+    functions.find((fn) => formatFunctionSignature(fn) === selectedSignature) ??
+    functions[0];
+  const signature = selectedFn ? formatFunctionSignature(selectedFn) : "";
+
+  // Reset argument values whenever the selected function changes shape.
+  useEffect(() => {
+    setValues(selectedFn ? selectedFn.inputs.map(defaultAbiFormValue) : []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signature]);
+
+  const encoded = useMemo(
+    () => (selectedFn ? encodeAbiFormCall(selectedFn, values) : undefined),
+    [selectedFn, values]
+  );
+  const encodedData = encoded?.ok ? encoded.data : undefined;
+
+  // Calldata is pushed from the edit handlers rather than an effect, so opening
+  // the view with a saved ABI doesn't overwrite the form.
+  const pushCalldata = (fn: AbiFunction | undefined, args: AbiFormValue[]) => {
+    if (!fn) return;
+    const result = encodeAbiFormCall(fn, args);
+    if (result.ok) onCalldataChange(result.data);
+  };
+
+  const handleAbiTextChange = (text: string) => {
+    onAbiTextChange(text);
+    const next = text.trim() ? parseAbiFunctions(text) : undefined;
+    const nextFunctions = next?.ok ? next.functions : [];
+    const fn =
+      nextFunctions.find(
+        (f) => formatFunctionSignature(f) === selectedSignature
+      ) ?? nextFunctions[0];
+    if (!fn) return;
+    // Same shape keeps its arguments; otherwise they reset to defaults.
+    pushCalldata(
+      fn,
+      formatFunctionSignature(fn) === signature
+        ? values
+        : fn.inputs.map(defaultAbiFormValue)
+    );
+  };
+
+  const handleSelectFunction = (sig: string) => {
+    setSelectedSignature(sig);
+    const fn = functions.find((f) => formatFunctionSignature(f) === sig);
+    pushCalldata(fn, fn ? fn.inputs.map(defaultAbiFormValue) : []);
+  };
+
+  const handleArgChange = (index: number, next: AbiFormValue) => {
+    if (!selectedFn) return;
+    const copy = selectedFn.inputs.map(
+      (p, j) => values[j] ?? defaultAbiFormValue(p)
+    );
+    copy[index] = next;
+    setValues(copy);
+    pushCalldata(selectedFn, copy);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="custom-abi" className="text-sm text-muted-foreground">
+          Function or ABI
+        </Label>
+        <InputGroup className="flex-col items-stretch">
+          <InputGroupTextarea
+            id="custom-abi"
+            className="min-h-[80px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+            placeholder="transfer(address to, uint256 amount) — or paste ABI JSON"
+            value={abiText}
+            onChange={(e) => handleAbiTextChange(e.target.value)}
+          />
+        </InputGroup>
+        {parsed && !parsed.ok && (
+          <div className="text-xs text-destructive">{parsed.error}</div>
+        )}
+      </div>
+
+      {functions.length > 1 && (
+        <div className="space-y-2">
+          <Label className="text-sm text-muted-foreground">Function</Label>
+          <Select value={signature} onValueChange={handleSelectFunction}>
+            <SelectTrigger className="w-full font-mono text-xs">
+              <SelectValue placeholder="Select function" />
+            </SelectTrigger>
+            <SelectContent>
+              {functions.map((fn) => {
+                const sig = formatFunctionSignature(fn);
+                return (
+                  <SelectItem key={sig} value={sig} className="font-mono text-xs">
+                    {sig}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {selectedFn && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-mono text-sm font-semibold truncate">
+              {selectedFn.name}
+            </span>
+            <Badge
+              variant="outline"
+              className="h-5 px-1.5 text-[10px] font-mono text-muted-foreground"
+            >
+              {getFunctionSelector(selectedFn)}
+            </Badge>
+            {selectedFn.stateMutability === "payable" && (
+              <Badge variant="warning" className="h-5 px-1.5 text-[10px]">
+                payable
+              </Badge>
+            )}
+          </div>
+
+          {selectedFn.inputs.length === 0 && (
+            <div className="text-xs text-muted-foreground">No arguments.</div>
+          )}
+          {selectedFn.inputs.map((param, i) => (
+            <AbiParamInput
+              key={`${signature}-${i}`}
+              param={param}
+              label={paramLabel(param, `arg${i}`)}
+              value={values[i] ?? defaultAbiFormValue(param)}
+              onChange={(next) => handleArgChange(i, next)}
+              path={String(i)}
+              errors={encoded?.errors ?? {}}
+              depth={0}
+            />
+          ))}
+
+          {encoded && !encoded.ok && encoded.error && (
+            <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive shadow-sm">
+              <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+              <span className="truncate">{encoded.error}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm text-muted-foreground">
+              Encoded calldata
+            </Label>
+            <InputGroup className="items-start">
+              <div className="flex-1 min-w-0 break-all p-3 font-mono text-xs text-foreground">
+                {encodedData ?? (
+                  <span className="text-muted-foreground">
+                    Fix the highlighted arguments to encode.
+                  </span>
+                )}
+              </div>
+              {encodedData && (
+                <InputGroupAddon
+                  align="inline-end"
+                  className="border-none px-2"
+                >
+                  <CopyButton text={encodedData} size="sm" />
+                </InputGroupAddon>
+              )}
+            </InputGroup>
+            <div className="text-xs text-muted-foreground">
+              Valid arguments are written to the Calldata field as you type.
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useMemo, useState } from "react";
+import {
+  CheckCircleIcon,
+  DownloadSimpleIcon,
+  ListPlusIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { formatBlockPin } from "@/lib/blockPin";
+import { getChainLabel } from "@/lib/chains";
+import {
+  TRANSACTION_JSON_KIND_LABELS,
+  parseTransactionJson,
+  type ParsedTransactionJsonItem,
+} from "@/lib/transactionJson";
+import type { TransactionDraft } from "@/lib/transaction";
+
+interface JsonViewProps {
+  onLoadDraft: (draft: TransactionDraft) => void;
+  /** Appends drafts to the bundle queue, in array order. */
+  onQueueDrafts?: (drafts: TransactionDraft[]) => void;
+}
+
+function ParsedItemCard({
+  item,
+  onLoadDraft,
+}: {
+  item: ParsedTransactionJsonItem;
+  onLoadDraft: (draft: TransactionDraft) => void;
+}) {
+  const kindLabel = item.kind ? TRANSACTION_JSON_KIND_LABELS[item.kind] : null;
+
+  return (
+    <div
+      className={
+        item.ok
+          ? "rounded-xl border border-border/60 bg-card/60 p-4 space-y-3 text-sm shadow-sm"
+          : "rounded-xl border border-destructive/40 bg-destructive/5 p-4 space-y-3 text-sm shadow-sm"
+      }
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {item.ok ? (
+            <CheckCircleIcon
+              weight="bold"
+              size={14}
+              className="shrink-0 text-success"
+            />
+          ) : (
+            <WarningCircleIcon
+              weight="bold"
+              size={14}
+              className="shrink-0 text-destructive"
+            />
+          )}
+          {kindLabel && (
+            <Badge
+              variant="outline"
+              className="h-5 px-1.5 text-[10px] text-muted-foreground"
+            >
+              {kindLabel}
+            </Badge>
+          )}
+          {item.path && (
+            <span className="font-mono text-[10px] text-muted-foreground truncate">
+              [{item.path}]
+            </span>
+          )}
+        </div>
+        {item.ok && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2 text-xs gap-1.5"
+            onClick={() => onLoadDraft(item.draft)}
+          >
+            <DownloadSimpleIcon weight="bold" size={14} className="shrink-0" />
+            Load
+          </Button>
+        )}
+      </div>
+
+      {item.ok ? (
+        <>
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1.5 text-xs">
+            <dt className="text-muted-foreground">Network</dt>
+            <dd>
+              {item.draft.chainId !== undefined
+                ? getChainLabel(item.draft.chainId)
+                : "Current network"}
+            </dd>
+            <dt className="text-muted-foreground">To</dt>
+            <dd>
+              {item.draft.to ? (
+                <ContractAddress
+                  address={item.draft.to}
+                  chainId={item.draft.chainId}
+                  className="text-xs"
+                />
+              ) : (
+                "Contract creation"
+              )}
+            </dd>
+            {item.draft.from && (
+              <>
+                <dt className="text-muted-foreground">From</dt>
+                <dd>
+                  <ContractAddress
+                    address={item.draft.from}
+                    chainId={item.draft.chainId}
+                    className="text-xs"
+                  />
+                </dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Value</dt>
+            <dd className="font-mono">{item.draft.valueEth || "0"} ETH</dd>
+            <dt className="text-muted-foreground">Calldata</dt>
+            <dd className="font-mono">
+              {item.draft.calldata && item.draft.calldata.length >= 10
+                ? `${item.draft.calldata.slice(0, 10)}… (${
+                    (item.draft.calldata.length - 2) / 2
+                  } bytes)`
+                : "—"}
+            </dd>
+            {item.draft.blockNumber !== undefined && (
+              <>
+                <dt className="text-muted-foreground">Block</dt>
+                <dd>
+                  {formatBlockPin(
+                    item.draft.blockNumber,
+                    item.draft.transactionIndex
+                  )}
+                </dd>
+              </>
+            )}
+            {item.draft.accessList && (
+              <>
+                <dt className="text-muted-foreground">Access list</dt>
+                <dd>
+                  {item.draft.accessList.length} address
+                  {item.draft.accessList.length === 1 ? "" : "es"}
+                </dd>
+              </>
+            )}
+            {item.draft.stateObjects && (
+              <>
+                <dt className="text-muted-foreground">Overrides</dt>
+                <dd>
+                  {Object.keys(item.draft.stateObjects).length} account
+                  {Object.keys(item.draft.stateObjects).length === 1 ? "" : "s"}
+                </dd>
+              </>
+            )}
+          </dl>
+          {item.warnings.map((w) => (
+            <div key={w} className="text-xs text-warning">
+              {w}
+            </div>
+          ))}
+        </>
+      ) : (
+        <ul className="space-y-1 text-xs">
+          {item.issues.map((issue, i) => (
+            <li key={i} className="flex gap-2">
+              <code className="shrink-0 rounded bg-destructive/10 px-1 font-mono text-destructive">
+                {issue.path}
+              </code>
+              <span className="text-destructive/90">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function JsonView({ onLoadDraft, onQueueDrafts }: JsonViewProps) {
+  const [text, setText] = useState("");
+
+  const parsed = useMemo(
+    () => (text.trim() ? parseTransactionJson(text) : undefined),
+    [text]
+  );
+
+  const validDrafts = parsed?.ok
+    ? parsed.items.flatMap((item) => (item.ok ? [item.draft] : []))
+    : [];
+  const validCount = validDrafts.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="tx-json" className="text-sm text-muted-foreground">
+          Transaction JSON
+        </Label>
+        <InputGroup className="flex-col items-stretch relative">
+          <InputGroupTextarea
+            id="tx-json"
+            className="min-h-[220px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+            placeholder='{ "from": "0x…", "to": "0x…", "data": "0x…" }'
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          {parsed?.ok && (
+            <InputGroupAddon
+              align="inline-end"
+              className="absolute bottom-1 right-1 gap-1 border-none px-1 h-auto"
+            >
+              <span className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border-none shadow-none font-medium rounded">
+                {validCount}/{parsed.items.length} valid
+              </span>
+            </InputGroupAddon>
+          )}
+        </InputGroup>
+        <div className="text-xs text-muted-foreground">
+          Accepts a Tenderly request (as copied by{" "}
+          <code className="rounded bg-muted px-1">Copy Tx JSON</code>), an{" "}
+          <code className="rounded bg-muted px-1">eth_sendTransaction</code> /{" "}
+          <code className="rounded bg-muted px-1">eth_call</code> request or
+          params object, a Safe transaction, or an array of these.
+        </div>
+      </div>
+
+      {parsed && !parsed.ok && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive shadow-sm">
+          <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+          <span className="truncate">Invalid JSON: {parsed.error}</span>
+        </div>
+      )}
+
+      {onQueueDrafts && validCount > 1 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          onClick={() => onQueueDrafts(validDrafts)}
+        >
+          <ListPlusIcon weight="bold" size={14} className="shrink-0" />
+          Add {validCount} to bundle
+        </Button>
+      )}
+
+      {parsed?.ok && (
+        <div className="space-y-2">
+          {parsed.items.map((item, i) => (
+            <ParsedItemCard
+              key={`${item.path}-${i}`}
+              item={item}
+              onLoadDraft={onLoadDraft}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import {
+  ArrowRightIcon,
+  CircleNotchIcon,
+  DownloadSimpleIcon,
+  HammerIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { CopyButton } from "@/components/app/shared/CopyButton";
+import { TransactionFields } from "@/components/app/shared/TransactionFields";
+import { getChainLabel } from "@/lib/chains";
+import {
+  serializeUnsigned,
+  signingRequestPayload,
+  type OfflineTransaction,
+} from "@/lib/offlineTx";
+
+interface OfflineViewProps {
+  chainId: number;
+  /** Account the transaction is built for (Simulate From or the wallet). */
+  sender?: string;
+  /** Why the form can't be built yet, if it can't. */
+  buildError?: string;
+  onBuild: () => Promise<OfflineTransaction>;
+  onOpenRawTx: () => void;
+}
+
+export function OfflineView({
+  chainId,
+  sender,
+  buildError,
+  onBuild,
+  onOpenRawTx,
+}: OfflineViewProps) {
+  const [built, setBuilt] = useState<OfflineTransaction | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [buildFailure, setBuildFailure] = useState<string>();
+
+  const unsigned = useMemo(
+    () => (built ? serializeUnsigned(built) : undefined),
+    [built]
+  );
+  const request = useMemo(
+    () =>
+      built ? JSON.stringify(signingRequestPayload(built), null, 2) : undefined,
+    [built]
+  );
+  // The QR code carries the request without indentation, so more calldata fits.
+  const compactRequest = useMemo(
+    () => (built ? JSON.stringify(signingRequestPayload(built)) : undefined),
+    [built]
+  );
+  const qrQuery = useQuery({
+    queryKey: ["signing-request-qr", compactRequest],
+    enabled: Boolean(compactRequest),
+    retry: false,
+    staleTime: Infinity,
+    queryFn: () =>
+      QRCode.toDataURL(compactRequest!, {
+        errorCorrectionLevel: "L",
+        margin: 1,
+        width: 256,
+      }),
+  });
+
+  const handleBuild = async () => {
+    setIsBuilding(true);
+    setBuildFailure(undefined);
+    try {
+      setBuilt(await onBuild());
+    } catch (e) {
+      setBuilt(null);
+      setBuildFailure(e instanceof Error ? e.message : "Build failed");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!request || !built) return;
+    const blob = new Blob([request], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `sign-request-${built.tx.chainId}-${built.tx.nonce}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4 rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="space-y-0.5">
+            <div className="text-sm font-medium">1. Build from the form</div>
+            <div className="text-xs text-muted-foreground">
+              Fills in the nonce, gas and fees for{" "}
+              {sender ? (
+                <span className="font-mono">{sender.slice(0, 10)}…</span>
+              ) : (
+                "the sender"
+              )}{" "}
+              on {getChainLabel(chainId)}.
+            </div>
+          </div>
+          <Button
+            size="sm"
+            className="h-8 px-3 text-xs gap-1.5"
+            disabled={Boolean(buildError) || isBuilding}
+            onClick={handleBuild}
+          >
+            {isBuilding ? (
+              <CircleNotchIcon
+                weight="bold"
+                size={14}
+                className="animate-spin"
+              />
+            ) : (
+              <HammerIcon weight="bold" size={14} />
+            )}
+            Build transaction
+          </Button>
+        </div>
+        {(buildError || buildFailure) && (
+          <div className="flex items-center gap-1.5 text-xs text-destructive">
+            <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+            {buildFailure ?? buildError}
+          </div>
+        )}
+
+        {built && unsigned && request && (
+          <>
+            <TransactionFields tx={built.tx} from={built.from} />
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">
+                  Unsigned transaction (RLP)
+                </Label>
+                <CopyButton text={unsigned} size="sm" />
+              </div>
+              <div className="break-all rounded-lg bg-muted/50 p-2 font-mono text-[10px]">
+                {unsigned}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs text-muted-foreground">
+                  Signing request (eth_signTransaction)
+                </Label>
+                <div className="flex items-center gap-1">
+                  <CopyButton text={request} size="sm" />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Download JSON"
+                    onClick={handleDownload}
+                  >
+                    <DownloadSimpleIcon weight="bold" size={14} />
+                  </Button>
+                </div>
+              </div>
+              <pre className="max-h-48 overflow-auto rounded-lg bg-muted/50 p-2 font-mono text-[10px] custom-scrollbar">
+                {request}
+              </pre>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">
+                Signing request (QR code)
+              </Label>
+              {qrQuery.data ? (
+                <img
+                  src={qrQuery.data}
+                  alt="Signing request QR code"
+                  className="h-64 w-64 rounded-lg bg-white"
+                />
+              ) : qrQuery.error ? (
+                <div className="flex items-center gap-1.5 text-xs text-warning">
+                  <WarningCircleIcon
+                    weight="bold"
+                    size={14}
+                    className="shrink-0"
+                  />
+                  Too large for one QR code; copy or download the JSON instead.
+                </div>
+              ) : null}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm">
+        <div className="space-y-0.5">
+          <div className="text-sm font-medium">
+            2. Verify and broadcast the signed transaction
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Paste the signer's raw transaction in Raw Tx to check, simulate
+            and broadcast it.
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          onClick={onOpenRawTx}
+        >
+          <ArrowRightIcon weight="bold" size={14} />
+          Open Raw Tx
+        </Button>
+      </div>
+    </div>
+  );
+}
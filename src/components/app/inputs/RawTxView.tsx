@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { AbiFunction, Hex } from "viem";
+import {
+  BroadcastIcon,
+  CheckCircleIcon,
+  CircleNotchIcon,
+  InfoIcon,
+  PlayIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  InputGroup,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import { TransactionFields } from "@/components/app/shared/TransactionFields";
+import { CalldataDecoder } from "@/components/app/transaction/CalldataDecoder";
+import { getChainLabel } from "@/lib/chains";
+import {
+  decodeSignedTransaction,
+  verifySignedTransaction,
+  type SignedTransaction,
+  type SignedTransactionCheck,
+} from "@/lib/offlineTx";
+import { cn } from "@/lib/utils";
+
+interface RawTxViewProps {
+  /** Wallet network, for signatures without a chain id. */
+  chainId: number;
+  /** Functions from the Custom view ABI, used to decode calldata. */
+  abiFunctions?: readonly AbiFunction[];
+  isSimulating: boolean;
+  /** Whether the active simulation backend can run on a chain. */
+  canSimulateOnChain: (chainId: number) => boolean;
+  onSimulate: (signed: SignedTransaction) => void;
+  onBroadcast: (raw: Hex, signed: SignedTransaction) => Promise<void>;
+}
+
+const CHECK_STYLES: Record<SignedTransactionCheck["level"], string> = {
+  error: "text-destructive",
+  warning: "text-warning",
+  info: "text-muted-foreground",
+};
+
+export function RawTxView({
+  chainId,
+  abiFunctions,
+  isSimulating,
+  canSimulateOnChain,
+  onSimulate,
+  onBroadcast,
+}: RawTxViewProps) {
+  const [rawInput, setRawInput] = useState("");
+  const [isBroadcasting, setIsBroadcasting] = useState(false);
+
+  const raw = rawInput.trim();
+  const signedQuery = useQuery({
+    queryKey: ["signed-raw-tx", raw],
+    enabled: raw.length > 0,
+    retry: false,
+    staleTime: Infinity,
+    queryFn: () => decodeSignedTransaction(raw),
+  });
+  const signed = raw ? signedQuery.data : undefined;
+  const txChainId = signed?.tx.chainId ?? chainId;
+  const publicClient = usePublicClient({ chainId: txChainId });
+
+  const checksQuery = useQuery({
+    queryKey: ["signed-raw-tx-checks", signed?.hash, txChainId],
+    enabled: Boolean(signed && publicClient),
+    retry: false,
+    queryFn: async () => {
+      if (!signed || !publicClient) throw new Error("Nothing to verify");
+      return await verifySignedTransaction(publicClient, signed);
+    },
+  });
+  const checks = signed ? checksQuery.data : undefined;
+  const blocked = checks?.some((c) => c.level === "error") ?? false;
+
+  const handleBroadcast = async () => {
+    if (!signed) return;
+    setIsBroadcasting(true);
+    try {
+      await onBroadcast(raw as Hex, signed);
+      setRawInput("");
+    } catch {
+      // Reported by the caller; keep the input for another try.
+    } finally {
+      setIsBroadcasting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="signed-raw-tx" className="text-sm text-muted-foreground">
+          Signed raw transaction
+        </Label>
+        <InputGroup className="flex-col items-stretch">
+          <InputGroupTextarea
+            id="signed-raw-tx"
+            className="min-h-[120px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+            placeholder="0x02f8… or 0xf86c…"
+            value={rawInput}
+            onChange={(e) => setRawInput(e.target.value)}
+          />
+        </InputGroup>
+        <div className="text-xs text-muted-foreground">
+          Typed (EIP-1559, EIP-2930, EIP-7702) or legacy RLP. Nothing is sent
+          until you click Broadcast.
+        </div>
+      </div>
+
+      {raw && signedQuery.error && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive shadow-sm">
+          <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+          <span className="truncate">{signedQuery.error.message}</span>
+        </div>
+      )}
+
+      {signed && (
+        <div className="space-y-4 rounded-xl border border-border/60 bg-card/60 p-4 shadow-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant="success" className="text-[10px]">
+              Signature valid
+            </Badge>
+            <span
+              className="font-mono text-[10px] text-muted-foreground"
+              title={signed.hash}
+            >
+              {signed.hash.slice(0, 18)}…
+            </span>
+          </div>
+          <TransactionFields tx={signed.tx} from={signed.from} />
+
+          {signed.tx.data && signed.tx.data !== "0x" && (
+            <CalldataDecoder
+              calldata={signed.tx.data}
+              chainId={txChainId}
+              to={signed.tx.to ?? undefined}
+              abiFunctions={abiFunctions}
+            />
+          )}
+
+          <div className="space-y-1">
+            {checksQuery.isFetching && !checks ? (
+              <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                <CircleNotchIcon
+                  weight="bold"
+                  size={14}
+                  className="shrink-0 animate-spin"
+                />
+                Checking nonce and balance…
+              </div>
+            ) : checks?.length === 0 ? (
+              <div className="flex items-center gap-1.5 text-xs text-success">
+                <CheckCircleIcon weight="bold" size={14} className="shrink-0" />
+                Nonce and balance check out.
+              </div>
+            ) : (
+              checks?.map((check) => (
+                <div
+                  key={check.message}
+                  className={cn(
+                    "flex items-start gap-1.5 text-xs",
+                    CHECK_STYLES[check.level]
+                  )}
+                >
+                  {check.level === "info" ? (
+                    <InfoIcon weight="bold" size={14} className="mt-px shrink-0" />
+                  ) : (
+                    <WarningCircleIcon
+                      weight="bold"
+                      size={14}
+                      className="mt-px shrink-0"
+                    />
+                  )}
+                  {check.message}
+                </div>
+              ))
+            )}
+            {signed.tx.chainId !== undefined &&
+              signed.tx.chainId !== chainId && (
+                <div className="text-xs text-muted-foreground">
+                  Signed for {getChainLabel(signed.tx.chainId)}; it is checked,
+                  simulated and broadcast there.
+                </div>
+              )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="h-8 px-3 text-xs gap-1.5"
+              disabled={isSimulating || !canSimulateOnChain(txChainId)}
+              title={
+                canSimulateOnChain(txChainId)
+                  ? "Simulate from the recovered sender"
+                  : `The simulation backend doesn't support ${getChainLabel(
+                      txChainId
+                    )}`
+              }
+              onClick={() => onSimulate(signed)}
+            >
+              <PlayIcon weight="bold" size={14} />
+              {isSimulating ? "Simulating…" : "Simulate as signed"}
+            </Button>
+            <Button
+              size="sm"
+              className="h-8 px-3 text-xs gap-1.5"
+              disabled={isBroadcasting || blocked}
+              onClick={handleBroadcast}
+            >
+              {isBroadcasting ? (
+                <CircleNotchIcon
+                  weight="bold"
+                  size={14}
+                  className="animate-spin"
+                />
+              ) : (
+                <BroadcastIcon weight="bold" size={14} />
+              )}
+              Broadcast
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
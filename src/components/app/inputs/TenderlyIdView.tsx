@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { CircleNotchIcon, LayoutIcon } from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { shortenString } from "@/lib/format";
+import { parseTenderlySimulationIdInput } from "@/lib/tenderlySimulations";
+
+interface TenderlyIdViewProps {
+  isLoading: boolean;
+  onLoadSimulation: (simulationId: string) => void;
+}
+
+export function TenderlyIdView({
+  isLoading,
+  onLoadSimulation,
+}: TenderlyIdViewProps) {
+  const [input, setInput] = useState("");
+
+  const simulationId = parseTenderlySimulationIdInput(input);
+  const inputError =
+    input.trim() && !simulationId
+      ? "Enter a simulation ID or a Tenderly simulator URL."
+      : undefined;
+
+  const handleLoad = () => {
+    if (!simulationId || isLoading) return;
+    onLoadSimulation(simulationId);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label
+          htmlFor="tenderly-sim-id"
+          className="text-sm text-muted-foreground"
+        >
+          Simulation ID
+        </Label>
+        <InputGroup>
+          <InputGroupInput
+            id="tenderly-sim-id"
+            className="font-mono text-sm text-foreground border-none"
+            placeholder="ID or https://dashboard.tenderly.co/…/simulator/…"
+            value={input}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setInput(e.target.value)
+            }
+            onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+              if (e.key === "Enter") handleLoad();
+            }}
+          />
+          {simulationId && simulationId !== input.trim() && (
+            <InputGroupAddon
+              align="inline-end"
+              className="gap-1 border-none px-1"
+            >
+              <Badge
+                variant="secondary"
+                className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border-none shadow-none font-mono rounded"
+                title={simulationId}
+              >
+                {shortenString(simulationId, 8, 4)}
+              </Badge>
+            </InputGroupAddon>
+          )}
+        </InputGroup>
+        {inputError && (
+          <div className="text-xs text-destructive">{inputError}</div>
+        )}
+        <div className="text-xs text-muted-foreground">
+          Simulations without stored trace data are re-simulated (unsaved) from
+          their metadata.
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end">
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-9 px-3 text-xs font-bold gap-1.5 rounded-lg"
+          disabled={!simulationId || isLoading}
+          onClick={handleLoad}
+        >
+          {isLoading ? (
+            <CircleNotchIcon
+              weight="bold"
+              size={14}
+              className="shrink-0 animate-spin"
+            />
+          ) : (
+            <LayoutIcon weight="bold" size={14} className="shrink-0" />
+          )}
+          Load simulation
+        </Button>
+      </div>
+    </div>
+  );
+}
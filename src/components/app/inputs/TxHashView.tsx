@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import {
+  CircleNotchIcon,
+  DownloadSimpleIcon,
+  PlayIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { SUPPORTED_CHAINS, getExplorerTxUrl } from "@/lib/chains";
+import { formatEthValue, formatIntString, shortenHex } from "@/lib/format";
+import {
+  fetchMinedTransaction,
+  getReplayBlockNumber,
+  parseTxHashInput,
+  transactionToDraft,
+  type ReplayBlockTarget,
+  type TransactionDraft,
+} from "@/lib/transaction";
+
+interface TxHashViewProps {
+  /** Chain preselected in the picker (usually the wallet's chain). */
+  defaultChainId: number;
+  isSimulating: boolean;
+  /** Whether the active simulation backend can run on a chain. */
+  canSimulateOnChain: (chainId: number) => boolean;
+  onLoadDraft: (draft: TransactionDraft) => void;
+  onSimulateDraft: (
+    draft: TransactionDraft,
+    options: { blockNumber?: number }
+  ) => void;
+}
+
+export function TxHashView({
+  defaultChainId,
+  isSimulating,
+  canSimulateOnChain,
+  onLoadDraft,
+  onSimulateDraft,
+}: TxHashViewProps) {
+  const [hashInput, setHashInput] = useState("");
+  const [chainId, setChainId] = useState(defaultChainId);
+  const publicClient = usePublicClient({ chainId });
+
+  const hash = parseTxHashInput(hashInput);
+  const hashError =
+    hashInput.trim() && !hash ? "Enter a 32-byte transaction hash." : undefined;
+
+  const minedTxQuery = useQuery({
+    queryKey: ["mined-tx", chainId, hash ?? null],
+    enabled: Boolean(hash && publicClient),
+    staleTime: Infinity,
+    retry: false,
+    queryFn: async () => {
+      if (!hash || !publicClient) return null;
+      return await fetchMinedTransaction(publicClient, hash);
+    },
+  });
+
+  const mined = minedTxQuery.data ?? undefined;
+  const tx = mined?.transaction;
+  const receipt = mined?.receipt;
+
+  const draft: TransactionDraft | undefined = tx
+    ? transactionToDraft(tx, chainId)
+    : undefined;
+
+  const canSimulate =
+    Boolean(draft) && canSimulateOnChain(chainId) && !isSimulating;
+
+  const handleSimulate = (target: ReplayBlockTarget) => {
+    if (!tx || !draft) return;
+    onSimulateDraft(draft, { blockNumber: getReplayBlockNumber(tx, target) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label className="text-sm text-muted-foreground">Network</Label>
+        <Select
+          value={String(chainId)}
+          onValueChange={(val) => setChainId(Number(val))}
+        >
+          <SelectTrigger className="w-full font-medium">
+            <SelectValue placeholder="Select network" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Networks</SelectLabel>
+              {SUPPORTED_CHAINS.map((chain) => (
+                <SelectItem key={chain.id} value={String(chain.id)}>
+                  {chain.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tx-hash" className="text-sm text-muted-foreground">
+          Transaction Hash
+        </Label>
+        <InputGroup>
+          <InputGroupInput
+            id="tx-hash"
+            className="font-mono text-sm text-foreground border-none"
+            placeholder="0x… or explorer URL"
+            value={hashInput}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              setHashInput(e.target.value)
+            }
+          />
+          {minedTxQuery.isFetching && (
+            <InputGroupAddon
+              align="inline-end"
+              className="gap-1 border-none px-2"
+            >
+              <CircleNotchIcon
+                weight="bold"
+                size={14}
+                className="shrink-0 animate-spin text-muted-foreground"
+              />
+            </InputGroupAddon>
+          )}
+        </InputGroup>
+        {hashError && (
+          <div className="text-xs text-destructive">{hashError}</div>
+        )}
+      </div>
+
+      {minedTxQuery.isError && (
+        <div className="flex items-center gap-2 rounded-lg border border-destructive/50 bg-destructive/5 p-3 text-sm text-destructive shadow-sm">
+          <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+          <span className="truncate">
+            {minedTxQuery.error instanceof Error
+              ? minedTxQuery.error.message
+              : "Transaction lookup failed"}
+          </span>
+        </div>
+      )}
+
+      {tx && (
+        <div className="rounded-xl border border-border/60 bg-card/60 p-4 space-y-3 text-sm shadow-sm">
+          <div className="flex items-center justify-between gap-2">
+            <a
+              href={getExplorerTxUrl(chainId, tx.hash)}
+              target="_blank"
+              rel="noreferrer"
+              className="font-mono text-xs text-muted-foreground hover:text-foreground"
+            >
+              {shortenHex(tx.hash, 10, 8)}
+            </a>
+            {receipt === null ? (
+              <Badge variant="warning">Pending</Badge>
+            ) : receipt?.status === "success" ? (
+              <Badge variant="success">Success</Badge>
+            ) : (
+              <Badge variant="destructive">Reverted</Badge>
+            )}
+          </div>
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1.5 text-xs">
+            <dt className="text-muted-foreground">From</dt>
+            <dd>
+              <ContractAddress
+                address={tx.from}
+                chainId={chainId}
+                className="text-xs"
+              />
+            </dd>
+            <dt className="text-muted-foreground">To</dt>
+            <dd>
+              {tx.to ? (
+                <ContractAddress
+                  address={tx.to}
+                  chainId={chainId}
+                  className="text-xs"
+                />
+              ) : (
+                <span className="text-muted-foreground">Contract creation</span>
+              )}
+            </dd>
+            <dt className="text-muted-foreground">Value</dt>
+            <dd className="font-mono">{formatEthValue(tx.value)}</dd>
+            <dt className="text-muted-foreground">Block</dt>
+            <dd className="font-mono">
+              {tx.blockNumber !== null
+                ? formatIntString(tx.blockNumber.toString())
+                : "—"}
+            </dd>
+            <dt className="text-muted-foreground">Gas</dt>
+            <dd className="font-mono">
+              {receipt
+                ? `${formatIntString(receipt.gasUsed.toString())} / `
+                : ""}
+              {formatIntString(tx.gas.toString())}
+            </dd>
+            <dt className="text-muted-foreground">Selector</dt>
+            <dd className="font-mono">
+              {tx.input.length >= 10 ? tx.input.slice(0, 10) : "—"}
+            </dd>
+          </dl>
+          {!canSimulateOnChain(chainId) && (
+            <div className="text-xs text-muted-foreground">
+              Simulation is not available on this network.
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 px-3 text-xs font-bold gap-1.5 rounded-lg"
+          disabled={!draft}
+          onClick={() => draft && onLoadDraft(draft)}
+        >
+          <DownloadSimpleIcon weight="bold" size={14} className="shrink-0" />
+          Load into form
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-9 px-3 text-xs font-bold gap-1.5 rounded-lg"
+          disabled={!canSimulate || tx?.blockNumber === null}
+          onClick={() => handleSimulate("parent")}
+        >
+          <PlayIcon weight="bold" size={14} className="shrink-0" />
+          Simulate at parent block
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          className="h-9 px-3 text-xs font-bold gap-1.5 rounded-lg"
+          disabled={!canSimulate}
+          onClick={() => handleSimulate("latest")}
+        >
+          <PlayIcon weight="bold" size={14} className="shrink-0" />
+          Simulate at latest
+        </Button>
+      </div>
+    </div>
+  );
+}
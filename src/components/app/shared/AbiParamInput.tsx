@@ -0,0 +1,190 @@
+import type { AbiParameter } from "viem";
+import { MinusIcon, PlusIcon } from "@phosphor-icons/react";
+
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+import {
+  defaultAbiFormValue,
+  getArrayInfo,
+  getIntBounds,
+  getTupleComponents,
+  type AbiFormErrors,
+  type AbiFormValue,
+} from "@/lib/abiForm";
+import { cn } from "@/lib/utils";
+
+export function paramLabel(param: AbiParameter, fallback: string) {
+  return param.name?.trim() ? param.name : fallback;
+}
+
+/** Input for one ABI-typed argument; arrays and tuples nest. */
+export function AbiParamInput({
+  param,
+  label,
+  value,
+  onChange,
+  path,
+  errors,
+  depth,
+}: {
+  param: AbiParameter;
+  label: string;
+  value: AbiFormValue;
+  onChange: (value: AbiFormValue) => void;
+  path: string;
+  errors: AbiFormErrors;
+  depth: number;
+}) {
+  const error = errors[path];
+  const array = getArrayInfo(param);
+  const components = getTupleComponents(param);
+
+  const header = (
+    <div className="flex items-center gap-2">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Badge
+        variant="secondary"
+        className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border-none shadow-none font-mono rounded"
+      >
+        {param.internalType?.startsWith("struct ")
+          ? param.internalType.slice("struct ".length)
+          : param.type}
+      </Badge>
+    </div>
+  );
+
+  if (array) {
+    const items = Array.isArray(value) ? value : [];
+    const isDynamic = array.length === undefined;
+    return (
+      <div
+        className={cn(
+          "space-y-2 rounded-lg border border-border/60 p-3",
+          depth > 0 && "bg-muted/20"
+        )}
+      >
+        <div className="flex items-center justify-between gap-2">
+          {header}
+          {isDynamic && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1"
+              onClick={() =>
+                onChange([...items, defaultAbiFormValue(array.element)])
+              }
+            >
+              <PlusIcon weight="bold" size={12} />
+              Add
+            </Button>
+          )}
+        </div>
+        {items.length === 0 && (
+          <div className="text-xs text-muted-foreground">Empty array</div>
+        )}
+        {items.map((item, i) => (
+          <div key={i} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <AbiParamInput
+                param={array.element}
+                label={`[${i}]`}
+                value={item}
+                onChange={(next) =>
+                  onChange(items.map((v, j) => (j === i ? next : v)))
+                }
+                path={`${path}.${i}`}
+                errors={errors}
+                depth={depth + 1}
+              />
+            </div>
+            {isDynamic && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                title="Remove item"
+                onClick={() => onChange(items.filter((_, j) => j !== i))}
+              >
+                <MinusIcon weight="bold" size={12} />
+              </Button>
+            )}
+          </div>
+        ))}
+        {error && <div className="text-xs text-destructive">{error}</div>}
+      </div>
+    );
+  }
+
+  if (components) {
+    const items = Array.isArray(value) ? value : [];
+    return (
+      <div
+        className={cn(
+          "space-y-3 rounded-lg border border-border/60 p-3",
+          depth > 0 && "bg-muted/20"
+        )}
+      >
+        {header}
+        {components.map((c, i) => (
+          <AbiParamInput
+            key={i}
+            param={c}
+            label={paramLabel(c, `field${i}`)}
+            value={items[i] ?? defaultAbiFormValue(c)}
+            onChange={(next) => {
+              const copy = components.map(
+                (cc, j) => items[j] ?? defaultAbiFormValue(cc)
+              );
+              copy[i] = next;
+              onChange(copy);
+            }}
+            path={`${path}.${i}`}
+            errors={errors}
+            depth={depth + 1}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (param.type === "bool") {
+    return (
+      <div className="flex items-center justify-between gap-2">
+        {header}
+        <Switch checked={value === true} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  const bounds = getIntBounds(param.type);
+  const placeholder =
+    param.type === "address"
+      ? "0x…"
+      : param.type.startsWith("bytes")
+      ? "0x"
+      : bounds
+      ? bounds.min < 0n
+        ? "-123 or 0x…"
+        : "123 or 0x…"
+      : "";
+
+  return (
+    <div className="space-y-1.5">
+      {header}
+      <InputGroup className={cn(error && "border-destructive/60")}>
+        <InputGroupInput
+          className="font-mono text-sm text-foreground border-none"
+          placeholder={placeholder}
+          value={typeof value === "string" ? value : ""}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange(e.target.value)
+          }
+        />
+      </InputGroup>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { CopyButton } from "./CopyButton";
 import { cn } from "@/lib/utils";
 import { shortenHex } from "@/lib/format";
+import { useContractRegistry } from "@/components/contract-registry-provider";
 import {
   getExplorerAddressUrl,
   getExplorerIcon,
@@ -10,7 +11,7 @@ import {
 interface ContractAddressProps {
   address: string;
   chainId?: number;
-  /** Optional human-friendly label (e.g. contract name). */
+  /** Optional human-friendly label (e.g. contract name). Falls back to the contract registry. */
   label?: string;
   /** Optional className for the label. */
   labelClassName?: string;
@@ -40,10 +41,12 @@ export function ContractAddress({
   right,
   resolvedName,
 }: ContractAddressProps) {
+  const { resolveLabel } = useContractRegistry();
   const resolvedLabel =
     (typeof label === "string" && label.trim().length
       ? label.trim()
       : undefined) ??
+    resolveLabel(chainId, address) ??
     (typeof resolvedName === "string" && resolvedName.trim().length
       ? resolvedName.trim()
       : undefined);
@@ -0,0 +1,67 @@
+import { ShieldAlert } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { RiskFinding, RiskSeverity } from "@/lib/riskAnalyzer";
+import { cn } from "@/lib/utils";
+
+const SEVERITY_BADGE: Record<
+  RiskSeverity,
+  "destructive" | "warning" | "secondary"
+> = {
+  critical: "destructive",
+  high: "destructive",
+  medium: "warning",
+  low: "secondary",
+};
+
+/** Findings from `analyzeSimulationRisk`, styled by the worst severity. */
+export function RiskFindings({
+  findings,
+  className,
+}: {
+  findings: RiskFinding[];
+  className?: string;
+}) {
+  if (!findings.length) return null;
+  // Findings arrive sorted, most severe first.
+  const worst = findings[0].severity;
+  const danger = worst === "critical" || worst === "high";
+
+  return (
+    <div
+      className={cn(
+        "space-y-2 rounded-lg border p-3",
+        danger
+          ? "border-destructive/50 bg-destructive/5"
+          : "border-warning/50 bg-warning/5",
+        className
+      )}
+    >
+      <div
+        className={cn(
+          "flex items-center gap-2 text-sm font-medium",
+          danger ? "text-destructive" : "text-warning"
+        )}
+      >
+        <ShieldAlert className="size-4 shrink-0" />
+        {findings.length} risk finding{findings.length === 1 ? "" : "s"}
+      </div>
+      <div className="space-y-1.5">
+        {findings.map((f, i) => (
+          <div key={`${f.rule}:${i}`} className="flex items-start gap-2 text-xs">
+            <Badge
+              variant={SEVERITY_BADGE[f.severity]}
+              className="h-5 shrink-0 px-1.5 text-[10px] uppercase"
+            >
+              {f.severity}
+            </Badge>
+            <div className="min-w-0">
+              <span className="font-medium">{f.title}.</span>{" "}
+              <span className="break-all text-muted-foreground">{f.detail}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
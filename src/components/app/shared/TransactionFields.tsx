@@ -0,0 +1,95 @@
+import { formatEther, formatGwei, type TransactionSerializable } from "viem";
+
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { getChainLabel } from "@/lib/chains";
+import { TX_TYPE_LABELS, type TxType } from "@/lib/fees";
+
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
+
+const gwei = (wei?: bigint) =>
+  wei === undefined ? "—" : `${formatGwei(wei)} gwei`;
+
+/** Key fields of a built or signed transaction, one per row. */
+export function TransactionFields({
+  tx,
+  from,
+}: {
+  tx: TransactionSerializable;
+  from?: string;
+}) {
+  const type = (tx.type ?? "legacy") as TxType;
+  return (
+    <div className="space-y-1.5">
+      <Field
+        label="Type"
+        value={
+          tx.type === "eip7702"
+            ? "EIP-7702 (type 4)"
+            : TX_TYPE_LABELS[type] ?? tx.type
+        }
+      />
+      <Field
+        label="Network"
+        value={tx.chainId ? getChainLabel(tx.chainId) : "Any (no chain id)"}
+      />
+      {from && (
+        <Field
+          label="From"
+          value={
+            <ContractAddress
+              address={from}
+              chainId={tx.chainId ?? 1}
+              className="text-xs"
+              showCopy={false}
+            />
+          }
+        />
+      )}
+      <Field
+        label="To"
+        value={
+          tx.to ? (
+            <ContractAddress
+              address={tx.to}
+              chainId={tx.chainId ?? 1}
+              className="text-xs"
+              showCopy={false}
+            />
+          ) : (
+            "Contract creation"
+          )
+        }
+      />
+      <Field label="Value" value={`${formatEther(tx.value ?? 0n)} ETH`} />
+      <Field label="Nonce" value={tx.nonce ?? "—"} />
+      <Field label="Gas limit" value={tx.gas?.toLocaleString() ?? "—"} />
+      {"maxFeePerGas" in tx && tx.maxFeePerGas !== undefined ? (
+        <>
+          <Field label="Max fee" value={gwei(tx.maxFeePerGas)} />
+          <Field label="Priority fee" value={gwei(tx.maxPriorityFeePerGas)} />
+        </>
+      ) : (
+        <Field label="Gas price" value={gwei(tx.gasPrice)} />
+      )}
+      <Field
+        label="Calldata"
+        value={`${((tx.data?.length ?? 2) - 2) / 2} bytes`}
+      />
+      {tx.authorizationList && (
+        <Field
+          label="Authorizations"
+          value={tx.authorizationList
+            .map((a) => `${a.address.slice(0, 10)}…`)
+            .join(", ")}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { isAddress, type Address } from "viem";
+import {
+  PaperclipIcon,
+  PlusIcon,
+  TrashIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  InputGroup,
+  InputGroupInput,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import { CopyButton } from "@/components/app/shared/CopyButton";
+import {
+  authorizationDigest,
+  castSignAuthCommand,
+  EMPTY_AUTHORIZATION,
+  expectedAuthorizationNonce,
+  parseSignedAuthorization,
+  resolveAuthorization,
+  type AuthorizationDraft,
+} from "@/lib/eip7702";
+import { shortenHex } from "@/lib/format";
+
+interface AuthorizationListEditorProps {
+  authorizations: AuthorizationDraft[];
+  onChange: (authorizations: AuthorizationDraft[]) => void;
+  chainId: number;
+  /** Signer assumed for unsigned drafts (Simulate From or wallet). */
+  defaultAuthority?: string;
+  /** Account that sends the type-4 transaction. */
+  sender?: string;
+  error?: string;
+}
+
+function Field({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <InputGroup>
+        <InputGroupInput
+          id={id}
+          className="font-mono h-9 flex-1 text-xs text-foreground border-none"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange(e.target.value)
+          }
+        />
+      </InputGroup>
+    </div>
+  );
+}
+
+export function AuthorizationListEditor({
+  authorizations,
+  onChange,
+  chainId,
+  defaultAuthority,
+  sender,
+  error,
+}: AuthorizationListEditorProps) {
+  const publicClient = usePublicClient({ chainId });
+  const [pasted, setPasted] = useState<Record<number, string>>({});
+
+  const authorities = [
+    ...new Set(
+      [
+        defaultAuthority,
+        ...authorizations.map((a) => a.signed?.authority),
+      ].flatMap((a) =>
+        a && isAddress(a, { strict: false }) ? [a.toLowerCase()] : []
+      )
+    ),
+  ].sort();
+  // Pending nonces of every authority involved, for the nonce hints.
+  const noncesQuery = useQuery({
+    queryKey: ["authority-nonces", chainId, authorities],
+    enabled: Boolean(publicClient) && authorities.length > 0,
+    refetchInterval: 15_000,
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No RPC for this network");
+      const nonces = await Promise.all(
+        authorities.map((a) =>
+          publicClient.getTransactionCount({
+            address: a as Address,
+            blockTag: "pending",
+          })
+        )
+      );
+      return Object.fromEntries(authorities.map((a, i) => [a, nonces[i]]));
+    },
+  });
+  const nextNonce = (authority: string | undefined) => {
+    const nonce = authority
+      ? noncesQuery.data?.[authority.toLowerCase()]
+      : undefined;
+    return nonce === undefined || !authority
+      ? undefined
+      : expectedAuthorizationNonce(nonce, authority, sender);
+  };
+
+  // Editing a field invalidates the pasted signature.
+  const update = (index: number, patch: Partial<AuthorizationDraft>) =>
+    onChange(
+      authorizations.map((a, i) =>
+        i === index ? { ...a, ...patch, signed: undefined } : a
+      )
+    );
+
+  const attach = async (index: number) => {
+    try {
+      const signed = await parseSignedAuthorization(pasted[index] ?? "");
+      onChange(
+        authorizations.map((a, i) =>
+          i === index
+            ? {
+                contract: signed.address,
+                chainId: String(signed.chainId),
+                nonce: String(signed.nonce),
+                signed,
+              }
+            : a
+        )
+      );
+      setPasted((p) => ({ ...p, [index]: "" }));
+      toast.success(`Signed by ${shortenHex(signed.authority)}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Invalid authorization");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {authorizations.map((a, i) => {
+        const authority = a.signed?.authority ?? defaultAuthority;
+        const expected = nextNonce(authority);
+        const request = a.signed
+          ? undefined
+          : resolveAuthorization(a, { chainId, nonce: expected });
+        const warnings = a.signed
+          ? [
+              a.signed.chainId !== 0 && a.signed.chainId !== chainId
+                ? `Signed for chain ${a.signed.chainId}; it is skipped on this network.`
+                : undefined,
+              expected !== undefined && a.signed.nonce !== expected
+                ? `Nonce ${a.signed.nonce} doesn't match the authority's expected ${expected}; it will be skipped.`
+                : undefined,
+            ].filter((w): w is string => Boolean(w))
+          : [];
+
+        return (
+          <div
+            key={i}
+            className="space-y-3 rounded-lg border border-border/60 p-3"
+          >
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Field
+                  id={`authorization-contract-${i}`}
+                  label="Delegate to"
+                  value={a.contract}
+                  onChange={(contract) => update(i, { contract })}
+                  placeholder="0x… contract (zero address clears)"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+                title="Remove"
+                onClick={() =>
+                  onChange(authorizations.filter((_, j) => j !== i))
+                }
+              >
+                <TrashIcon weight="bold" size={14} />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Field
+                id={`authorization-chain-${i}`}
+                label="Chain id"
+                value={a.chainId}
+                onChange={(value) => update(i, { chainId: value })}
+                placeholder={`${chainId} (0 = any)`}
+              />
+              <Field
+                id={`authorization-nonce-${i}`}
+                label="Nonce"
+                value={a.nonce}
+                onChange={(nonce) => update(i, { nonce })}
+                placeholder={
+                  expected !== undefined ? `Next: ${expected}` : "Next"
+                }
+              />
+            </div>
+
+            {a.signed ? (
+              <div className="space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <Badge variant="success" className="text-[10px]">
+                    Signed
+                  </Badge>
+                  <span
+                    className="font-mono text-xs"
+                    title={a.signed.authority}
+                  >
+                    by {shortenHex(a.signed.authority)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 px-2 text-xs text-muted-foreground"
+                    onClick={() => update(i, {})}
+                  >
+                    Remove signature
+                  </Button>
+                </div>
+                {warnings.map((warning) => (
+                  <div
+                    key={warning}
+                    className="flex items-start gap-1.5 text-xs text-warning"
+                  >
+                    <WarningCircleIcon
+                      weight="bold"
+                      size={14}
+                      className="mt-px shrink-0"
+                    />
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {request && (
+                  <>
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs text-muted-foreground">
+                          Digest to sign
+                        </Label>
+                        <CopyButton
+                          text={authorizationDigest(request)}
+                          size="sm"
+                        />
+                      </div>
+                      <div className="break-all rounded-lg bg-muted/50 p-2 font-mono text-[10px]">
+                        {authorizationDigest(request)}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs text-muted-foreground">
+                          Sign with Foundry
+                        </Label>
+                        <CopyButton
+                          text={castSignAuthCommand(request)}
+                          size="sm"
+                        />
+                      </div>
+                      <div className="break-all rounded-lg bg-muted/50 p-2 font-mono text-[10px]">
+                        {castSignAuthCommand(request)}
+                      </div>
+                    </div>
+                  </>
+                )}
+                <InputGroup>
+                  <InputGroupTextarea
+                    className="min-h-[60px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+                    placeholder="Signed authorization: cast's 0x… output or JSON"
+                    value={pasted[i] ?? ""}
+                    onChange={(e) =>
+                      setPasted((p) => ({ ...p, [i]: e.target.value }))
+                    }
+                  />
+                </InputGroup>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-3 text-xs gap-1.5"
+                  disabled={!pasted[i]?.trim()}
+                  onClick={() => void attach(i)}
+                >
+                  <PaperclipIcon weight="bold" size={14} />
+                  Attach signature
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          onClick={() => onChange([...authorizations, EMPTY_AUTHORIZATION])}
+        >
+          <PlusIcon weight="bold" size={14} />
+          Add authorization
+        </Button>
+        {authorizations.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-3 text-xs text-muted-foreground"
+            onClick={() => onChange([])}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="text-xs text-muted-foreground">
+        Simulations run with each authority's code set to its delegation;
+        unsigned entries assume{" "}
+        {defaultAuthority ? (
+          <span className="font-mono">{shortenHex(defaultAuthority)}</span>
+        ) : (
+          "the simulation account"
+        )}{" "}
+        signs. Sending attaches the signed ones as an EIP-7702 (type 4)
+        transaction.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+
+import { Label } from "@/components/ui/label";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BLOCK_PIN_MODE_LABELS,
+  BLOCK_PIN_PLACEHOLDERS,
+  formatBlockPin,
+  resolveBlockPin,
+  validateBlockPin,
+  type BlockPin,
+  type BlockPinMode,
+} from "@/lib/blockPin";
+
+interface BlockPinEditorProps {
+  pin: BlockPin;
+  onChange: (pin: BlockPin) => void;
+  chainId: number;
+}
+
+export function BlockPinEditor({ pin, onChange, chainId }: BlockPinEditorProps) {
+  const publicClient = usePublicClient({ chainId });
+  const error = validateBlockPin(pin);
+
+  const previewQuery = useQuery({
+    queryKey: [
+      "block-pin",
+      chainId,
+      pin.mode,
+      pin.value.trim(),
+      pin.transactionIndex?.trim() ?? "",
+    ],
+    enabled: Boolean(
+      publicClient &&
+        !error &&
+        (pin.mode !== "latest" || pin.transactionIndex?.trim())
+    ),
+    staleTime: 15_000,
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No RPC for this network");
+      return await resolveBlockPin(publicClient, pin);
+    },
+  });
+
+  const preview = previewQuery.data;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="block-pin" className="text-sm text-muted-foreground">
+        Block
+      </Label>
+      <div className="grid grid-cols-[9rem,1fr] gap-2">
+        <Select
+          value={pin.mode}
+          onValueChange={(mode) =>
+            onChange({ ...pin, mode: mode as BlockPinMode, value: "" })
+          }
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BLOCK_PIN_MODE_LABELS) as BlockPinMode[]).map(
+              (mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {BLOCK_PIN_MODE_LABELS[mode]}
+                </SelectItem>
+              )
+            )}
+          </SelectContent>
+        </Select>
+        <InputGroup>
+          <InputGroupInput
+            id="block-pin"
+            className="font-mono h-10 flex-1 text-foreground border-none"
+            placeholder={BLOCK_PIN_PLACEHOLDERS[pin.mode] || "Chain head"}
+            disabled={pin.mode === "latest"}
+            value={pin.value}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...pin, value: e.target.value })
+            }
+          />
+        </InputGroup>
+      </div>
+      <InputGroup>
+        <InputGroupInput
+          id="block-pin-index"
+          className="font-mono h-10 flex-1 text-foreground border-none"
+          placeholder={
+            pin.mode === "tx" ? "The tx's own index" : "End of block"
+          }
+          value={pin.transactionIndex ?? ""}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange({ ...pin, transactionIndex: e.target.value })
+          }
+        />
+        <InputGroupAddon align="inline-end" className="gap-1 border-none px-1">
+          <span className="text-xs text-muted-foreground px-1">TX INDEX</span>
+        </InputGroupAddon>
+      </InputGroup>
+      {error && (pin.value.trim() || pin.transactionIndex?.trim()) ? (
+        <div className="text-xs text-destructive">{error}</div>
+      ) : previewQuery.isError ? (
+        <div className="text-xs text-destructive">
+          {previewQuery.error instanceof Error
+            ? previewQuery.error.message
+            : "Couldn't resolve block"}
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          {pin.mode === "latest" && !pin.transactionIndex?.trim()
+            ? "Simulations run on the latest block."
+            : previewQuery.isFetching
+            ? "Resolving block…"
+            : preview
+            ? `Simulates at ${formatBlockPin(
+                preview.blockNumber,
+                preview.transactionIndex
+              )}${
+                preview.timestamp
+                  ? ` (${new Date(preview.timestamp * 1000).toLocaleString()})`
+                  : ""
+              }.`
+            : "Pick where the simulation should run."}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useMemo, useState } from "react";
+import { formatEther, isHex, type AbiFunction, type Hex } from "viem";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CaretDownIcon,
+  CaretRightIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent } from "@/components/ui/collapsible";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { useContractRegistry } from "@/components/contract-registry-provider";
+import {
+  decodeCalldata,
+  stringifyDecodedValue,
+  type CalldataDecoding,
+  type DecodedCandidate,
+  type NestedCall,
+} from "@/lib/calldataDecoder";
+import { loadSelectorDatabase } from "@/lib/selectorDatabase";
+import { cn } from "@/lib/utils";
+
+interface CalldataDecoderProps {
+  calldata: string;
+  chainId: number;
+  /** Call target; its registry ABI (if any) is tried first. */
+  to?: string;
+  /** Functions from the user's ABI; preferred over database signatures. */
+  abiFunctions?: readonly AbiFunction[];
+}
+
+const SOURCE_LABELS: Record<DecodedCandidate["source"], string> = {
+  abi: "ABI",
+  database: "Selector DB",
+  wrapper: "Command",
+};
+
+function ArgumentValue({
+  type,
+  value,
+  chainId,
+}: {
+  type: string;
+  value: unknown;
+  chainId: number;
+}) {
+  if (type === "address" && typeof value === "string") {
+    return (
+      <ContractAddress address={value} chainId={chainId} className="text-xs" />
+    );
+  }
+  return (
+    <span className="font-mono text-xs break-all text-foreground/90">
+      {stringifyDecodedValue(value)}
+    </span>
+  );
+}
+
+function NestedCallRow({
+  call,
+  chainId,
+  depth,
+}: {
+  call: NestedCall;
+  chainId: number;
+  depth: number;
+}) {
+  const [open, setOpen] = useState(depth < 2);
+  const hasDecoding = call.decoding.candidates.length > 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <button
+        type="button"
+        className="flex w-full items-center gap-2 rounded-md px-1.5 py-1 text-left hover:bg-muted/40 transition-colors"
+        onClick={() => setOpen((o) => !o)}
+      >
+        {open ? (
+          <CaretDownIcon weight="bold" size={12} className="shrink-0" />
+        ) : (
+          <CaretRightIcon weight="bold" size={12} className="shrink-0" />
+        )}
+        <span className="font-mono text-xs text-muted-foreground shrink-0">
+          {call.label}
+        </span>
+        <span className="font-mono text-xs font-semibold truncate">
+          {call.decoding.candidates[0]?.signature.split("(")[0] ??
+            (call.data === "0x" ? "(no data)" : "unknown")}
+        </span>
+        {call.operation === 1 && (
+          <Badge variant="warning" className="h-5 px-1.5 text-[10px]">
+            delegatecall
+          </Badge>
+        )}
+      </button>
+      <CollapsibleContent className="pl-4 space-y-1.5 pb-1">
+        {(call.target || (call.value !== undefined && call.value > 0n)) && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+            {call.target && (
+              <span className="inline-flex items-center gap-1">
+                to
+                <ContractAddress
+                  address={call.target}
+                  chainId={chainId}
+                  className="text-xs"
+                />
+              </span>
+            )}
+            {call.value !== undefined && call.value > 0n && (
+              <span className="font-mono">{formatEther(call.value)} ETH</span>
+            )}
+          </div>
+        )}
+        {hasDecoding ? (
+          <DecodingView
+            decoding={call.decoding}
+            chainId={chainId}
+            depth={depth + 1}
+          />
+        ) : (
+          call.data !== "0x" && (
+            <div className="font-mono text-[10px] text-muted-foreground break-all">
+              {call.data.length > 138 ? `${call.data.slice(0, 138)}…` : call.data}
+            </div>
+          )
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function CandidateView({
+  candidate,
+  chainId,
+  depth,
+}: {
+  candidate: DecodedCandidate;
+  chainId: number;
+  depth: number;
+}) {
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2 min-w-0">
+        <span
+          className="font-mono text-xs font-semibold truncate"
+          title={candidate.signature}
+        >
+          {candidate.signature}
+        </span>
+        <Badge
+          variant="outline"
+          className="h-5 px-1.5 text-[10px] text-muted-foreground shrink-0"
+        >
+          {SOURCE_LABELS[candidate.source]}
+        </Badge>
+        {!candidate.exact && (
+          <Badge variant="warning" className="h-5 px-1.5 text-[10px] shrink-0">
+            loose
+          </Badge>
+        )}
+      </div>
+      {candidate.args.length > 0 && (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1">
+          {candidate.args.map((arg, i) => (
+            <div key={i} className="contents">
+              <dt className="font-mono text-[10px] text-muted-foreground pt-0.5">
+                {arg.name || `arg${i}`}
+                <span className="text-muted-foreground/60"> {arg.type}</span>
+              </dt>
+              <dd className="min-w-0">
+                <ArgumentValue
+                  type={arg.type}
+                  value={arg.value}
+                  chainId={chainId}
+                />
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {candidate.nested.length > 0 && (
+        <div className="space-y-0.5 border-l border-border/60 pl-1">
+          {candidate.nested.map((call, i) => (
+            <NestedCallRow key={i} call={call} chainId={chainId} depth={depth} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DecodingView({
+  decoding,
+  chainId,
+  depth,
+}: {
+  decoding: CalldataDecoding;
+  chainId: number;
+  depth: number;
+}) {
+  const collision = decoding.candidates.length > 1;
+  return (
+    <div className="space-y-2">
+      {collision && (
+        <div className="flex items-center gap-1.5 text-xs text-warning">
+          <WarningCircleIcon weight="bold" size={12} className="shrink-0" />
+          {decoding.candidates.length} signatures match {decoding.selector}
+        </div>
+      )}
+      {decoding.candidates.map((candidate) => (
+        <div
+          key={candidate.signature}
+          className={cn(
+            collision && "rounded-md border border-border/60 p-2"
+          )}
+        >
+          <CandidateView
+            candidate={candidate}
+            chainId={chainId}
+            depth={depth}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function CalldataDecoder({
+  calldata,
+  chainId,
+  to,
+  abiFunctions,
+}: CalldataDecoderProps) {
+  const { resolveAbiFunctions } = useContractRegistry();
+  const trimmed = calldata.trim();
+  const decodable = isHex(trimmed) && trimmed.length >= 10;
+
+  const database = useQuery({
+    queryKey: ["selector-database"],
+    queryFn: loadSelectorDatabase,
+    enabled: decodable,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+
+  const decoding = useMemo(
+    () =>
+      decodable
+        ? decodeCalldata(
+            trimmed as Hex,
+            {
+              database: database.data,
+              abiFunctions,
+              resolveAbiFunctions: (target) =>
+                resolveAbiFunctions(chainId, target),
+            },
+            0,
+            to?.trim() || undefined
+          )
+        : undefined,
+    [
+      decodable,
+      trimmed,
+      database.data,
+      abiFunctions,
+      resolveAbiFunctions,
+      chainId,
+      to,
+    ]
+  );
+
+  if (!decoding) return null;
+
+  return (
+    <div className="rounded-lg border border-border/60 bg-card/40 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-muted-foreground">
+          Decoded
+        </span>
+        <Badge
+          variant="outline"
+          className="h-5 px-1.5 text-[10px] font-mono text-muted-foreground"
+        >
+          {decoding.selector}
+        </Badge>
+      </div>
+      {decoding.candidates.length > 0 ? (
+        <DecodingView decoding={decoding} chainId={chainId} depth={0} />
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          {database.isLoading
+            ? "Loading selector database…"
+            : database.isError
+            ? "Selector database unavailable; add an ABI under Contracts to decode."
+            : "Unknown selector. Add an ABI under Contracts to decode."}
+        </div>
+      )}
+    </div>
+  );
+}
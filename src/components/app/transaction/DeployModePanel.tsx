@@ -0,0 +1,307 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { isAddress, type Address } from "viem";
+import { WarningCircleIcon } from "@phosphor-icons/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  InputGroup,
+  InputGroupInput,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AbiParamInput,
+  paramLabel,
+} from "@/components/app/shared/AbiParamInput";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { defaultAbiFormValue } from "@/lib/abiForm";
+import {
+  DEPLOY_METHOD_LABELS,
+  DETERMINISTIC_DEPLOYER,
+  MAX_CODE_SIZE,
+  type DeployMethod,
+  type DeploySettings,
+  type PreparedDeployment,
+} from "@/lib/deploy";
+
+interface DeployModePanelProps {
+  settings: DeploySettings;
+  onChange: (settings: DeploySettings) => void;
+  chainId: number;
+  prepared: PreparedDeployment;
+  /** Runtime code size from the last simulation of this deployment. */
+  codeSize?: number;
+}
+
+export function DeployModePanel({
+  settings,
+  onChange,
+  chainId,
+  prepared,
+  codeSize,
+}: DeployModePanelProps) {
+  const publicClient = usePublicClient({ chainId });
+  const { source, initcode, deployment, error } = prepared;
+  const inputs = source?.ok ? source.constructorAbi?.inputs ?? [] : [];
+  const signature = inputs.map((p) => p.type).join(",");
+
+  // Reset the arguments whenever the constructor changes shape; saved ones
+  // that still fit survive a reload.
+  const lastSignature = useRef(signature);
+  useEffect(() => {
+    if (
+      lastSignature.current === signature &&
+      settings.args.length === inputs.length
+    ) {
+      return;
+    }
+    lastSignature.current = signature;
+    onChange({ ...settings, args: inputs.map(defaultAbiFormValue) });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [signature]);
+
+  const deployer = settings.deployer.trim() || DETERMINISTIC_DEPLOYER;
+  // A missing factory or an occupied address makes the deployment revert.
+  const codeQuery = useQuery({
+    queryKey: [
+      "deploy-target-code",
+      chainId,
+      settings.method,
+      deployer.toLowerCase(),
+      deployment?.address,
+    ],
+    enabled: settings.enabled && Boolean(publicClient && deployment),
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient || !deployment) throw new Error("Nothing to check");
+      const [deployerCode, existingCode] = await Promise.all([
+        settings.method === "create2" &&
+        isAddress(deployer, { strict: false })
+          ? publicClient.getCode({ address: deployer as Address })
+          : undefined,
+        publicClient.getCode({ address: deployment.address }),
+      ]);
+      return {
+        missingDeployer:
+          settings.method === "create2" && !deployerCode,
+        occupied: Boolean(existingCode),
+      };
+    },
+  });
+
+  return (
+    <div className="space-y-3 rounded-lg border-2 border-border/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="deploy-mode" className="text-sm text-muted-foreground">
+          Deploy a contract
+        </Label>
+        <Switch
+          id="deploy-mode"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <div className="space-y-1">
+            <Label
+              htmlFor="deploy-source"
+              className="text-xs text-muted-foreground"
+            >
+              Creation bytecode or artifact
+            </Label>
+            <InputGroup className="flex-col items-stretch">
+              <InputGroupTextarea
+                id="deploy-source"
+                className="min-h-[80px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+                placeholder="0x6080… or a Foundry out/Contract.sol/Contract.json"
+                value={settings.source}
+                onChange={(e) =>
+                  onChange({ ...settings, source: e.target.value })
+                }
+              />
+            </InputGroup>
+            {source?.ok && (
+              <div className="text-xs text-muted-foreground">
+                {((source.bytecode.length - 2) / 2).toLocaleString()} bytes of
+                creation code
+                {source.constructorAbi
+                  ? `, constructor(${signature})`
+                  : ", no constructor arguments"}
+              </div>
+            )}
+          </div>
+
+          {inputs.length > 0 && (
+            <div className="space-y-3">
+              {inputs.map((param, i) => (
+                <AbiParamInput
+                  key={`${signature}-${i}`}
+                  param={param}
+                  label={paramLabel(param, `arg${i}`)}
+                  value={settings.args[i] ?? defaultAbiFormValue(param)}
+                  onChange={(next) =>
+                    onChange({
+                      ...settings,
+                      args: inputs.map((p, j) =>
+                        j === i
+                          ? next
+                          : settings.args[j] ?? defaultAbiFormValue(p)
+                      ),
+                    })
+                  }
+                  path={String(i)}
+                  errors={initcode?.errors ?? {}}
+                  depth={0}
+                />
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Method</Label>
+            <Select
+              value={settings.method}
+              onValueChange={(v) =>
+                onChange({ ...settings, method: v as DeployMethod })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["create", "create2"] as DeployMethod[]).map((m) => (
+                  <SelectItem key={m} value={m}>
+                    {DEPLOY_METHOD_LABELS[m]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.method === "create2" && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label
+                  htmlFor="deploy-deployer"
+                  className="text-xs text-muted-foreground"
+                >
+                  Deployer
+                </Label>
+                <InputGroup>
+                  <InputGroupInput
+                    id="deploy-deployer"
+                    className="font-mono h-10 flex-1 text-xs text-foreground border-none"
+                    placeholder={DETERMINISTIC_DEPLOYER}
+                    value={settings.deployer}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      onChange({ ...settings, deployer: e.target.value })
+                    }
+                  />
+                </InputGroup>
+              </div>
+              <div className="space-y-1">
+                <Label
+                  htmlFor="deploy-salt"
+                  className="text-xs text-muted-foreground"
+                >
+                  Salt
+                </Label>
+                <InputGroup>
+                  <InputGroupInput
+                    id="deploy-salt"
+                    className="font-mono h-10 flex-1 text-xs text-foreground border-none"
+                    placeholder="0 (hex or decimal)"
+                    value={settings.salt}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      onChange({ ...settings, salt: e.target.value })
+                    }
+                  />
+                </InputGroup>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-1.5 text-xs text-destructive">
+              <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+              {error}
+            </div>
+          )}
+
+          {deployment && (
+            <div className="space-y-2 rounded-lg border border-border/60 bg-muted/20 p-3">
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-muted-foreground">Deploys to</span>
+                <ContractAddress
+                  address={deployment.address}
+                  chainId={chainId}
+                  className="text-xs"
+                />
+                {codeSize !== undefined && (
+                  <Badge
+                    variant={codeSize > MAX_CODE_SIZE ? "destructive" : "success"}
+                    className="text-[10px]"
+                    title="EIP-170 limit on runtime code"
+                  >
+                    {codeSize.toLocaleString()} /{" "}
+                    {MAX_CODE_SIZE.toLocaleString()} bytes
+                  </Badge>
+                )}
+              </div>
+              {codeQuery.data?.missingDeployer && (
+                <div className="flex items-center gap-1.5 text-xs text-destructive">
+                  <WarningCircleIcon
+                    weight="bold"
+                    size={14}
+                    className="shrink-0"
+                  />
+                  No contract at the deployer address on this network.
+                </div>
+              )}
+              {codeQuery.data?.occupied && (
+                <div className="flex items-center gap-1.5 text-xs text-destructive">
+                  <WarningCircleIcon
+                    weight="bold"
+                    size={14}
+                    className="shrink-0"
+                  />
+                  Code already exists at this address; the deployment would
+                  fail.
+                </div>
+              )}
+              {codeSize !== undefined && codeSize > MAX_CODE_SIZE && (
+                <div className="flex items-center gap-1.5 text-xs text-destructive">
+                  <WarningCircleIcon
+                    weight="bold"
+                    size={14}
+                    className="shrink-0"
+                  />
+                  Runtime code is over the EIP-170 limit; mainnet-like
+                  networks reject it.
+                </div>
+              )}
+              <div className="text-xs text-muted-foreground">
+                {settings.method === "create"
+                  ? "Predicted from the sender's next nonce; another transaction sent first moves it."
+                  : "Same address on every network with this deployer, salt and code."}{" "}
+                Simulate to measure the runtime code size.
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
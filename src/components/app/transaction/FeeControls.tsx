@@ -0,0 +1,251 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { formatEther, formatGwei, type Address } from "viem";
+
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TX_TYPE_LABELS,
+  applyFeeSuggestion,
+  feePerGas,
+  suggestFees,
+  type FeeSettings,
+  type TxType,
+} from "@/lib/fees";
+
+interface FeeControlsProps {
+  fees: FeeSettings;
+  onChange: (fees: FeeSettings) => void;
+  chainId: number;
+  /** Sender, for the next-nonce hint. */
+  account?: string;
+  /** Gas limit, or the simulated gas used, for the cost estimate. */
+  gasEstimate?: bigint;
+  valueWei?: bigint;
+  ethPrice?: number;
+  error?: string;
+}
+
+function GweiField({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <InputGroup>
+        <InputGroupInput
+          id={id}
+          className="font-mono h-10 flex-1 text-foreground border-none"
+          placeholder={placeholder ?? "Wallet default"}
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange(e.target.value)
+          }
+        />
+        <InputGroupAddon align="inline-end" className="gap-1 border-none px-1">
+          <span className="text-xs text-muted-foreground px-1">GWEI</span>
+        </InputGroupAddon>
+      </InputGroup>
+    </div>
+  );
+}
+
+const formatGweiShort = (wei: bigint) =>
+  Number(formatGwei(wei)).toLocaleString(undefined, {
+    maximumSignificantDigits: 4,
+  });
+
+export function FeeControls({
+  fees,
+  onChange,
+  chainId,
+  account,
+  gasEstimate,
+  valueWei,
+  ethPrice,
+  error,
+}: FeeControlsProps) {
+  const publicClient = usePublicClient({ chainId });
+
+  const feesQuery = useQuery({
+    queryKey: ["fee-suggestions", chainId],
+    enabled: Boolean(publicClient),
+    refetchInterval: 12_000,
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No RPC for this network");
+      return await suggestFees(publicClient);
+    },
+  });
+
+  const nonceQuery = useQuery({
+    queryKey: ["pending-nonce", chainId, account?.toLowerCase()],
+    enabled: Boolean(publicClient && account),
+    refetchInterval: 12_000,
+    queryFn: async () => {
+      if (!publicClient || !account) throw new Error("No account");
+      return await publicClient.getTransactionCount({
+        address: account as Address,
+        blockTag: "pending",
+      });
+    },
+  });
+
+  const suggested = feesQuery.data;
+  const nextNonce = nonceQuery.data;
+  const perGas = feePerGas(fees, suggested);
+  const cost = (fee?: bigint) => {
+    if (gasEstimate === undefined || fee === undefined) return undefined;
+    const eth = Number(formatEther(gasEstimate * fee + (valueWei ?? 0n)));
+    const usd = ethPrice ? ` ($${(eth * ethPrice).toFixed(2)})` : "";
+    return `${eth.toLocaleString(undefined, {
+      maximumSignificantDigits: 5,
+    })} ETH${usd}`;
+  };
+  const expectedCost = cost(perGas.expected);
+  const maxCost = cost(perGas.max);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm text-muted-foreground">Fees & Nonce</Label>
+        <Select
+          value={fees.type}
+          onValueChange={(type) => onChange({ ...fees, type: type as TxType })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(TX_TYPE_LABELS) as TxType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {TX_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(suggested?.suggestions ?? []).map((s) => (
+          <Button
+            key={s.speed}
+            variant="outline"
+            size="sm"
+            className="h-auto flex-col gap-0 py-1.5 text-xs capitalize"
+            onClick={() => onChange(applyFeeSuggestion(fees, s))}
+          >
+            {s.speed}
+            <span className="font-mono text-[10px] text-muted-foreground normal-case">
+              {formatGweiShort(
+                fees.type === "eip1559" ? s.maxPriorityFeePerGas : s.gasPrice
+              )}{" "}
+              gwei
+            </span>
+          </Button>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        {feesQuery.isError
+          ? "Fee history unavailable on this network."
+          : suggested
+          ? `Base fee ${formatGweiShort(suggested.baseFeePerGas)} gwei. ${
+              fees.type === "eip1559" ? "Tips" : "Prices"
+            } from the last 20 blocks.`
+          : "Loading fee suggestions…"}
+      </div>
+
+      {fees.type === "eip1559" ? (
+        <div className="grid grid-cols-2 gap-2">
+          <GweiField
+            id="max-fee"
+            label="Max fee"
+            value={fees.maxFeeGwei}
+            onChange={(maxFeeGwei) => onChange({ ...fees, maxFeeGwei })}
+          />
+          <GweiField
+            id="priority-fee"
+            label="Priority fee"
+            value={fees.priorityFeeGwei}
+            onChange={(priorityFeeGwei) =>
+              onChange({ ...fees, priorityFeeGwei })
+            }
+          />
+        </div>
+      ) : (
+        <GweiField
+          id="gas-price"
+          label="Gas price"
+          value={fees.gasPriceGwei}
+          onChange={(gasPriceGwei) => onChange({ ...fees, gasPriceGwei })}
+        />
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="nonce" className="text-xs text-muted-foreground">
+          Nonce
+        </Label>
+        <InputGroup>
+          <InputGroupInput
+            id="nonce"
+            className="font-mono h-10 flex-1 text-foreground border-none"
+            placeholder={
+              nextNonce !== undefined ? `Next: ${nextNonce}` : "Wallet default"
+            }
+            value={fees.nonce}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...fees, nonce: e.target.value })
+            }
+          />
+          {nextNonce !== undefined && fees.nonce.trim() !== String(nextNonce) && (
+            <InputGroupAddon
+              align="inline-end"
+              className="gap-1 border-none px-1"
+            >
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                title="Next nonce, counting pending transactions"
+                onClick={() => onChange({ ...fees, nonce: String(nextNonce) })}
+              >
+                Use {nextNonce}
+              </Button>
+            </InputGroupAddon>
+          )}
+        </InputGroup>
+      </div>
+
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="text-xs text-muted-foreground">
+        {expectedCost
+          ? `Total cost ≈ ${expectedCost}, at most ${maxCost}.`
+          : "Set a gas limit or simulate to estimate the total cost."}
+      </div>
+    </div>
+  );
+}
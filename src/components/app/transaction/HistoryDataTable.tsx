@@ -18,6 +18,11 @@ import {
   CheckCircle2,
   XCircle,
   AlertCircle,
+  Loader2,
+  MinusCircle,
+  Repeat,
+  Zap,
+  Ban,
   Copy,
   Play,
   Calendar,
@@ -39,7 +44,10 @@ import {
   getExplorerName,
   getExplorerIcon,
 } from "@/lib/chains";
+import type { StateOverride } from "@/lib/stateOverrides";
+import { formatBlockPin } from "@/lib/blockPin";
 import { toast } from "sonner";
+import { formatEther, formatGwei } from "viem";
 import {
   HoverCard,
   HoverCardContent,
@@ -47,6 +55,16 @@ import {
 } from "@/components/ui/hover-card";
 import { ArrowElbowDownRightIcon } from "@phosphor-icons/react";
 
+/** One call of an EIP-5792 batch execution. */
+export interface HistoryCall {
+  to: string;
+  value?: string;
+  calldata?: string;
+  /** Transaction that carried the call, once the batch settles. */
+  hash?: string;
+  status?: "success" | "reverted";
+}
+
 export interface HistoryItem {
   /** Tenderly simulation ID (present for saved simulations). */
   simulationId?: string;
@@ -57,10 +75,37 @@ export interface HistoryItem {
   calldata?: string;
   gasLimit?: string;
   timestamp: number;
-  status: "success" | "reverted" | "unknown";
+  status:
+    | "success"
+    | "reverted"
+    | "unknown"
+    | "pending"
+    | "dropped"
+    | "replaced";
   type: "simulation" | "execution";
   hash?: string;
   chainId: number;
+  /** Block the simulation ran on (or the execution was mined in). */
+  blockNumber?: number;
+  transactionIndex?: number;
+  /** State overrides the simulation ran with. */
+  stateOverrides?: StateOverride[];
+  /** Execution receipt details (wei / gas units as decimal strings). */
+  nonce?: number;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  /** Hash of the transaction that took this one's nonce, when known. */
+  replacedBy?: string;
+  /** Hash of the pending transaction this one was sent to speed up or cancel. */
+  replaces?: string;
+  /** `wallet_sendCalls` batch id; batches are tracked through the wallet. */
+  batchId?: string;
+  /** The batch's calls, in order. */
+  calls?: HistoryCall[];
+  /** Sent with `atomicRequired`. */
+  atomic?: boolean;
+  /** Contract a deployment created (predicted until the receipt confirms). */
+  contractAddress?: string;
 }
 
 interface HistoryDataTableProps {
@@ -69,6 +114,9 @@ interface HistoryDataTableProps {
   onViewSimulation?: (item: HistoryItem) => void;
   onResimulate?: (item: HistoryItem) => void;
   onClearExecutions?: () => void;
+  /** Resend a pending execution with higher fees, or cancel it. */
+  onSpeedUp?: (item: HistoryItem) => void;
+  onCancel?: (item: HistoryItem) => void;
   ethPrice?: number;
 }
 
@@ -78,6 +126,8 @@ export function HistoryDataTable({
   onViewSimulation,
   onResimulate,
   onClearExecutions,
+  onSpeedUp,
+  onCancel,
   ethPrice,
 }: HistoryDataTableProps) {
   const formatStatus = React.useCallback((status: HistoryItem["status"]) => {
@@ -97,6 +147,25 @@ export function HistoryDataTable({
       );
     }
 
+    if (status === "pending") {
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-sky-100 px-2 py-0.5 text-[10px] font-semibold text-sky-700">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Pending
+        </span>
+      );
+    }
+
+    if (status === "dropped" || status === "replaced") {
+      const Icon = status === "dropped" ? MinusCircle : Repeat;
+      return (
+        <span className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-[10px] font-semibold text-muted-foreground">
+          <Icon className="h-3 w-3" />
+          {status === "dropped" ? "Dropped" : "Replaced"}
+        </span>
+      );
+    }
+
     return (
       <span className="inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-semibold text-amber-700">
         <AlertCircle className="h-3 w-3" />
@@ -105,6 +174,15 @@ export function HistoryDataTable({
     );
   }, []);
 
+  const formatFee = (item: HistoryItem) => {
+    if (!item.gasUsed || !item.effectiveGasPrice) return undefined;
+    const feeEth = Number(
+      formatEther(BigInt(item.gasUsed) * BigInt(item.effectiveGasPrice))
+    );
+    const usd = ethPrice ? ` ($${(feeEth * ethPrice).toFixed(2)})` : "";
+    return `${feeEth.toPrecision(3)} ETH${usd}`;
+  };
+
   const [sorting, setSorting] = React.useState<SortingState>([
     { id: "timestamp", desc: true }, // Default sort by timestamp desc
   ]);
@@ -152,18 +230,125 @@ export function HistoryDataTable({
                 <span className="text-sm font-bold font-mono lowercase">
                   {item.method} to
                 </span>
+                {item.stateOverrides?.length ? (
+                  <span
+                    className="rounded bg-muted/60 px-1.5 text-[10px] text-muted-foreground"
+                    title="Simulated with state overrides"
+                  >
+                    {item.stateOverrides.length} override
+                    {item.stateOverrides.length === 1 ? "" : "s"}
+                  </span>
+                ) : null}
+                {item.blockNumber !== undefined && (
+                  <span
+                    className="font-mono text-[10px] text-muted-foreground"
+                    title={formatBlockPin(
+                      item.blockNumber,
+                      item.transactionIndex
+                    )}
+                  >
+                    #{item.blockNumber}
+                  </span>
+                )}
+                {item.gasUsed && (
+                  <span
+                    className="font-mono text-[10px] text-muted-foreground"
+                    title={
+                      item.effectiveGasPrice
+                        ? `${Number(
+                            formatGwei(BigInt(item.effectiveGasPrice))
+                          ).toFixed(3)} gwei effective`
+                        : undefined
+                    }
+                  >
+                    {Number(item.gasUsed).toLocaleString()} gas
+                    {formatFee(item) ? ` · ${formatFee(item)}` : ""}
+                  </span>
+                )}
+                {item.replacedBy && (
+                  <span
+                    className="font-mono text-[10px] text-muted-foreground"
+                    title={item.replacedBy}
+                  >
+                    by {item.replacedBy.slice(0, 10)}…
+                  </span>
+                )}
+                {item.replaces && (
+                  <span
+                    className="font-mono text-[10px] text-muted-foreground"
+                    title={item.replaces}
+                  >
+                    replaces {item.replaces.slice(0, 10)}…
+                  </span>
+                )}
+                {item.calls && (
+                  <span
+                    className="rounded bg-muted/60 px-1.5 text-[10px] text-muted-foreground"
+                    title={item.batchId ? `Batch ${item.batchId}` : undefined}
+                  >
+                    {item.calls.length} calls
+                    {item.atomic ? " · atomic" : ""}
+                  </span>
+                )}
               </div>
-              <div className="flex items-center gap-1">
-                <ArrowElbowDownRightIcon
-                  size={16}
-                  className="text-muted-foreground"
-                />
-                <ContractAddress
-                  address={item.to}
-                  className="text-2xs text-muted-foreground font-mono"
-                  chainId={item.chainId}
-                />
-              </div>
+              {item.to && (
+                <div className="flex items-center gap-1">
+                  <ArrowElbowDownRightIcon
+                    size={16}
+                    className="text-muted-foreground"
+                  />
+                  <ContractAddress
+                    address={item.to}
+                    className="text-2xs text-muted-foreground font-mono"
+                    chainId={item.chainId}
+                  />
+                </div>
+              )}
+              {item.contractAddress && (
+                <div className="flex items-center gap-1.5">
+                  <span className="rounded bg-muted/60 px-1.5 text-[10px] text-muted-foreground">
+                    New contract
+                  </span>
+                  <ContractAddress
+                    address={item.contractAddress}
+                    className="text-2xs text-muted-foreground font-mono"
+                    chainId={item.chainId}
+                  />
+                </div>
+              )}
+              {item.calls?.map((call, i) => (
+                <div
+                  key={i}
+                  className="flex items-center gap-1.5 pl-5 text-[10px] text-muted-foreground font-mono"
+                >
+                  <span>{i + 1}.</span>
+                  <ContractAddress
+                    address={call.to}
+                    className="text-[10px] text-muted-foreground font-mono"
+                    chainId={item.chainId}
+                    showCopy={false}
+                  />
+                  <span>
+                    {!call.calldata || call.calldata === "0x"
+                      ? "transfer"
+                      : call.calldata.slice(0, 10)}
+                  </span>
+                  {call.value && call.value !== "0" && (
+                    <span>{call.value} ETH</span>
+                  )}
+                  {call.status && (
+                    <span
+                      className={
+                        call.status === "success"
+                          ? "text-emerald-700"
+                          : "text-red-700"
+                      }
+                    >
+                      {call.status}
+                    </span>
+                  )}
+                </div>
+              ))}
             </div>
           </div>
         );
@@ -177,6 +362,46 @@ export function HistoryDataTable({
         const item = row.original;
         return (
           <div className="flex items-end justify-end gap-1.5">
+            {item.type === "execution" &&
+              item.status === "pending" &&
+              item.hash &&
+              !item.batchId &&
+              !item.replacedBy &&
+              onSpeedUp && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-2 gap-1 text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSpeedUp(item);
+                  }}
+                  title="Resend with higher fees"
+                >
+                  <Zap className="h-4 w-4" />
+                  Speed up
+                </Button>
+              )}
+            {item.type === "execution" &&
+              item.status === "pending" &&
+              item.hash &&
+              !item.batchId &&
+              !item.replacedBy &&
+              onCancel && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-2 gap-1 text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel(item);
+                  }}
+                  title="Replace with a 0 ETH transfer to yourself"
+                >
+                  <Ban className="h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
             {item.type === "simulation" &&
               item.simulationId &&
               onResimulate && (
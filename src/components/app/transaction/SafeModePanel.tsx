@@ -0,0 +1,277 @@
+import {
+  CircleNotchIcon,
+  DownloadSimpleIcon,
+  UploadSimpleIcon,
+  WarningCircleIcon,
+} from "@phosphor-icons/react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { getSafeTransactionServiceUrl } from "@/lib/chains";
+import {
+  SAFE_OPERATION_LABELS,
+  type SafeInfo,
+  type SafeModeSettings,
+  type SafeOperation,
+  type SafeProposal,
+} from "@/lib/safe";
+
+interface SafeModePanelProps {
+  settings: SafeModeSettings;
+  onChange: (settings: SafeModeSettings) => void;
+  chainId: number;
+  /** Connected wallet, which signs as an owner. */
+  account?: string;
+  info?: SafeInfo;
+  infoError?: string;
+  isLoadingInfo: boolean;
+  /** Last signed proposal, if it still matches the form. */
+  proposal: SafeProposal | null;
+  onExport: () => void;
+  onSubmit: () => void;
+  isSubmitting: boolean;
+}
+
+export function SafeModePanel({
+  settings,
+  onChange,
+  chainId,
+  account,
+  info,
+  infoError,
+  isLoadingInfo,
+  proposal,
+  onExport,
+  onSubmit,
+  isSubmitting,
+}: SafeModePanelProps) {
+  const isOwner = Boolean(
+    account &&
+      info?.owners.some((o) => o.toLowerCase() === account.toLowerCase())
+  );
+  const defaultServiceUrl = getSafeTransactionServiceUrl(chainId);
+
+  return (
+    <div className="space-y-3 rounded-lg border-2 border-border/60 p-4">
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="safe-mode" className="text-sm text-muted-foreground">
+          Propose through a Safe
+        </Label>
+        <Switch
+          id="safe-mode"
+          checked={settings.enabled}
+          onCheckedChange={(enabled) => onChange({ ...settings, enabled })}
+        />
+      </div>
+
+      {settings.enabled && (
+        <>
+          <InputGroup>
+            <InputGroupInput
+              id="safe-address"
+              className="font-mono h-10 flex-1 text-foreground border-none"
+              placeholder="Safe address 0x…"
+              value={settings.safe}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                onChange({ ...settings, safe: e.target.value })
+              }
+            />
+            <InputGroupAddon
+              align="inline-end"
+              className="gap-1 border-none px-1"
+            >
+              {isLoadingInfo ? (
+                <CircleNotchIcon
+                  weight="bold"
+                  size={14}
+                  className="shrink-0 animate-spin text-muted-foreground"
+                />
+              ) : (
+                <span className="text-xs text-muted-foreground px-1">
+                  SAFE
+                </span>
+              )}
+            </InputGroupAddon>
+          </InputGroup>
+
+          {infoError && (
+            <div className="flex items-center gap-1.5 text-xs text-destructive">
+              <WarningCircleIcon weight="bold" size={14} className="shrink-0" />
+              {infoError}
+            </div>
+          )}
+
+          {info && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <Badge variant="outline" className="text-[10px]">
+                  v{info.version}
+                </Badge>
+                <Badge variant="secondary" className="text-[10px]">
+                  {info.threshold} of {info.owners.length} owners
+                </Badge>
+                <Badge variant="secondary" className="text-[10px]">
+                  Nonce {info.nonce.toString()}
+                </Badge>
+              </div>
+              <div className="space-y-1">
+                {info.owners.map((owner) => (
+                  <div key={owner} className="flex items-center gap-2">
+                    <ContractAddress
+                      address={owner}
+                      chainId={chainId}
+                      className="text-xs"
+                      showCopy={false}
+                    />
+                    {owner.toLowerCase() === account?.toLowerCase() && (
+                      <Badge variant="success" className="text-[10px]">
+                        You
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {!isOwner && (
+                <div className="flex items-center gap-1.5 text-xs text-warning">
+                  <WarningCircleIcon
+                    weight="bold"
+                    size={14}
+                    className="shrink-0"
+                  />
+                  Connect one of the owners to sign. Simulation runs as the
+                  first owner.
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Operation</Label>
+              <Select
+                value={String(settings.operation)}
+                onValueChange={(v) =>
+                  onChange({
+                    ...settings,
+                    operation: Number(v) as SafeOperation,
+                  })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {([0, 1] as SafeOperation[]).map((op) => (
+                    <SelectItem key={op} value={String(op)}>
+                      {SAFE_OPERATION_LABELS[op]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label
+                htmlFor="safe-nonce"
+                className="text-xs text-muted-foreground"
+              >
+                Safe nonce
+              </Label>
+              <InputGroup>
+                <InputGroupInput
+                  id="safe-nonce"
+                  className="font-mono h-10 flex-1 text-foreground border-none"
+                  placeholder={info ? `Current: ${info.nonce}` : "Current"}
+                  value={settings.nonce}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    onChange({ ...settings, nonce: e.target.value })
+                  }
+                />
+              </InputGroup>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label
+              htmlFor="safe-service-url"
+              className="text-xs text-muted-foreground"
+            >
+              Transaction Service
+            </Label>
+            <InputGroup>
+              <InputGroupInput
+                id="safe-service-url"
+                className="font-mono h-10 flex-1 text-xs text-foreground border-none"
+                placeholder={defaultServiceUrl ?? "https://…"}
+                value={settings.serviceUrl}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  onChange({ ...settings, serviceUrl: e.target.value })
+                }
+              />
+            </InputGroup>
+          </div>
+
+          {proposal ? (
+            <div className="space-y-2 rounded-lg border border-success/30 bg-success/5 p-3">
+              <div className="text-xs">
+                Signed proposal{" "}
+                <span
+                  className="font-mono"
+                  title={proposal.contractTransactionHash}
+                >
+                  {proposal.contractTransactionHash.slice(0, 18)}…
+                </span>{" "}
+                at nonce {proposal.nonce}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-3 text-xs gap-1.5"
+                  onClick={onExport}
+                >
+                  <DownloadSimpleIcon weight="bold" size={14} />
+                  Export JSON
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 px-3 text-xs gap-1.5"
+                  disabled={
+                    isSubmitting ||
+                    !(settings.serviceUrl.trim() || defaultServiceUrl)
+                  }
+                  onClick={onSubmit}
+                >
+                  <UploadSimpleIcon weight="bold" size={14} />
+                  {isSubmitting ? "Submitting…" : "Submit to service"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">
+              Simulate runs the form through the Safe's{" "}
+              <code className="rounded bg-muted px-1">execTransaction</code>{" "}
+              with its threshold overridden to 1. Submit signs the SafeTx with
+              your wallet instead of sending.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
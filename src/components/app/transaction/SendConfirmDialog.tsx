@@ -0,0 +1,157 @@
+import { WarningCircleIcon } from "@phosphor-icons/react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ContractAddress } from "@/components/app/shared/ContractAddress";
+import { RiskFindings } from "@/components/app/shared/RiskFindings";
+import type { RiskFinding } from "@/lib/riskAnalyzer";
+import { formatBundleDelta, type BundleAssetDelta } from "@/lib/bundle";
+import { cn } from "@/lib/utils";
+
+interface SendConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Why the send isn't covered by the last simulation. */
+  problems: string[];
+  /** Problems stop the send instead of only warning. */
+  blocked: boolean;
+  /** Net asset changes from the last simulation. */
+  deltas: BundleAssetDelta[];
+  /** Risk findings from the last simulation. */
+  findings: RiskFinding[];
+  sender?: string;
+  chainId: number;
+  resolveContractName?: (address?: string) => string | undefined;
+  onConfirm: () => void;
+}
+
+/** Max delta rows before the rest collapse into a count. */
+const MAX_DELTA_ROWS = 8;
+
+export function SendConfirmDialog({
+  open,
+  onOpenChange,
+  problems,
+  blocked,
+  deltas,
+  findings,
+  sender,
+  chainId,
+  resolveContractName,
+  onConfirm,
+}: SendConfirmDialogProps) {
+  const stopped = blocked && problems.length > 0;
+  // The sender's own changes first; they're what the user is signing for.
+  const ordered = [...deltas].sort(
+    (a, b) =>
+      Number(b.holder.toLowerCase() === sender?.toLowerCase()) -
+      Number(a.holder.toLowerCase() === sender?.toLowerCase())
+  );
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {stopped ? "Simulate before sending" : "Confirm transaction"}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {stopped
+              ? "The send policy requires a fresh simulation that matches the form."
+              : "Check what the last simulation changed before your wallet asks to sign."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {problems.length > 0 && (
+          <div
+            className={cn(
+              "space-y-1 rounded-lg border p-3 text-xs",
+              stopped
+                ? "border-destructive/50 bg-destructive/5 text-destructive"
+                : "border-warning/50 bg-warning/5 text-warning"
+            )}
+          >
+            {problems.map((p) => (
+              <div key={p} className="flex items-start gap-1.5">
+                <WarningCircleIcon
+                  weight="bold"
+                  size={14}
+                  className="mt-px shrink-0"
+                />
+                {p}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {!stopped && <RiskFindings findings={findings} />}
+
+        {!stopped && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">
+              Asset changes
+            </div>
+            {ordered.length === 0 ? (
+              <div className="text-xs text-muted-foreground">
+                No asset changes in the simulation.
+              </div>
+            ) : (
+              <div className="space-y-1.5">
+                {ordered.slice(0, MAX_DELTA_ROWS).map((d) => (
+                  <div
+                    key={`${d.holder}:${d.token ?? "native"}`}
+                    className="flex items-center justify-between gap-2 text-xs"
+                  >
+                    <ContractAddress
+                      address={d.holder}
+                      label={
+                        d.holder.toLowerCase() === sender?.toLowerCase()
+                          ? "You"
+                          : resolveContractName?.(d.holder)
+                      }
+                      chainId={chainId}
+                      className="text-xs"
+                      showCopy={false}
+                      showExplorer={false}
+                    />
+                    <span
+                      className={cn(
+                        "font-mono tabular-nums",
+                        d.raw < 0n ? "text-destructive" : "text-success"
+                      )}
+                    >
+                      {formatBundleDelta(d)}{" "}
+                      {d.symbol ?? (d.token ? d.token.slice(0, 10) : "ETH")}
+                    </span>
+                  </div>
+                ))}
+                {ordered.length > MAX_DELTA_ROWS && (
+                  <div className="text-xs text-muted-foreground">
+                    +{ordered.length - MAX_DELTA_ROWS} more
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>{stopped ? "Close" : "Cancel"}</AlertDialogCancel>
+          {!stopped && (
+            <AlertDialogAction onClick={onConfirm}>
+              {problems.length ? "Send anyway" : "Send"}
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { usePublicClient } from "wagmi";
+import { getAddress, isAddress, maxUint256, parseUnits, type Address } from "viem";
+import {
+  CircleNotchIcon,
+  CoinsIcon,
+  HandshakeIcon,
+  PlusIcon,
+  TrashIcon,
+} from "@phosphor-icons/react";
+import { toast } from "sonner";
+
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+  InputGroupTextarea,
+} from "@/components/ui/input-group";
+import {
+  findErc20AllowanceSlot,
+  findErc20BalanceSlot,
+  readErc20Metadata,
+  upsertStorageOverride,
+  type StateOverride,
+} from "@/lib/stateOverrides";
+import { shortenHex } from "@/lib/format";
+
+interface StateOverridesEditorProps {
+  overrides: StateOverride[];
+  onChange: (overrides: StateOverride[]) => void;
+  chainId: number;
+  /** Holder/owner used when the helper field is left blank (Simulate From or wallet). */
+  defaultAccount?: string;
+  error?: string;
+}
+
+function Field({
+  id,
+  label,
+  value,
+  onChange,
+  placeholder,
+  suffix,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  suffix?: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <InputGroup>
+        <InputGroupInput
+          id={id}
+          className="font-mono h-9 flex-1 text-xs text-foreground border-none"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            onChange(e.target.value)
+          }
+        />
+        {suffix && (
+          <InputGroupAddon align="inline-end" className="gap-1 border-none px-1">
+            <span className="text-[10px] text-muted-foreground px-1">
+              {suffix}
+            </span>
+          </InputGroupAddon>
+        )}
+      </InputGroup>
+    </div>
+  );
+}
+
+const asAddress = (raw: string) =>
+  isAddress(raw.trim(), { strict: false })
+    ? getAddress(raw.trim())
+    : undefined;
+
+export function StateOverridesEditor({
+  overrides,
+  onChange,
+  chainId,
+  defaultAccount,
+  error,
+}: StateOverridesEditorProps) {
+  const publicClient = usePublicClient({ chainId });
+
+  const [helper, setHelper] = useState<"balance" | "allowance">("balance");
+  const [token, setToken] = useState("");
+  const [holder, setHolder] = useState("");
+  const [spender, setSpender] = useState("");
+  const [amount, setAmount] = useState("");
+  const [isFinding, setIsFinding] = useState(false);
+
+  const tokenAddress = asAddress(token);
+  const holderAddress = asAddress(holder) ?? asAddress(defaultAccount ?? "");
+  const spenderAddress = asAddress(spender);
+  const canApplyHelper = Boolean(
+    publicClient &&
+      tokenAddress &&
+      holderAddress &&
+      (helper === "balance" ? amount.trim() : spenderAddress) &&
+      !isFinding
+  );
+
+  const update = (index: number, patch: Partial<StateOverride>) =>
+    onChange(overrides.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+
+  const applyHelper = async () => {
+    if (!publicClient || !tokenAddress || !holderAddress) return;
+    setIsFinding(true);
+    try {
+      const { decimals, symbol } = await readErc20Metadata(
+        publicClient,
+        tokenAddress
+      );
+      const unit = symbol ?? shortenHex(tokenAddress);
+      const raw = amount.trim()
+        ? parseUnits(amount.trim(), decimals)
+        : maxUint256;
+      const shown = amount.trim() ? `${amount.trim()} ${unit}` : `max ${unit}`;
+
+      if (helper === "balance") {
+        const slot = await findErc20BalanceSlot(
+          publicClient,
+          tokenAddress,
+          holderAddress
+        );
+        onChange(
+          upsertStorageOverride(overrides, tokenAddress, {
+            slot,
+            value: raw.toString(),
+            label: `balanceOf(${shortenHex(holderAddress)}) = ${shown}`,
+          })
+        );
+        toast.success(`Gave ${shortenHex(holderAddress)} ${shown}`);
+      } else {
+        if (!spenderAddress) return;
+        const slot = await findErc20AllowanceSlot(
+          publicClient,
+          tokenAddress,
+          holderAddress,
+          spenderAddress as Address
+        );
+        onChange(
+          upsertStorageOverride(overrides, tokenAddress, {
+            slot,
+            value: raw.toString(),
+            label: `allowance(${shortenHex(holderAddress)}, ${shortenHex(
+              spenderAddress
+            )}) = ${shown}`,
+          })
+        );
+        toast.success(`Set allowance to ${shown}`);
+      }
+      setAmount("");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Couldn't set override");
+    } finally {
+      setIsFinding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3 rounded-lg border border-border/60 p-3">
+        <div className="flex items-center gap-1">
+          <Button
+            variant={helper === "balance" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs gap-1.5"
+            onClick={() => setHelper("balance")}
+          >
+            <CoinsIcon weight="bold" size={14} />
+            Token balance
+          </Button>
+          <Button
+            variant={helper === "allowance" ? "secondary" : "ghost"}
+            size="sm"
+            className="h-7 px-2 text-xs gap-1.5"
+            onClick={() => setHelper("allowance")}
+          >
+            <HandshakeIcon weight="bold" size={14} />
+            Allowance
+          </Button>
+        </div>
+        <Field
+          id="override-token"
+          label="Token"
+          value={token}
+          onChange={setToken}
+          placeholder="0x… ERC20"
+        />
+        <Field
+          id="override-holder"
+          label={helper === "balance" ? "Holder" : "Owner"}
+          value={holder}
+          onChange={setHolder}
+          placeholder={defaultAccount || "0x…"}
+        />
+        {helper === "allowance" && (
+          <Field
+            id="override-spender"
+            label="Spender"
+            value={spender}
+            onChange={setSpender}
+            placeholder="0x…"
+          />
+        )}
+        <Field
+          id="override-amount"
+          label="Amount"
+          value={amount}
+          onChange={setAmount}
+          placeholder={helper === "allowance" ? "Max" : "1000"}
+          suffix="TOKENS"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          disabled={!canApplyHelper}
+          onClick={() => void applyHelper()}
+        >
+          {isFinding ? (
+            <CircleNotchIcon weight="bold" size={14} className="animate-spin" />
+          ) : (
+            <PlusIcon weight="bold" size={14} />
+          )}
+          {isFinding ? "Finding slot…" : "Add override"}
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          The storage slot is found by tracing a{" "}
+          <code className="rounded bg-muted px-1">
+            {helper === "balance" ? "balanceOf" : "allowance"}
+          </code>{" "}
+          call (when the node supports it) and probing the usual mapping
+          layouts.
+        </div>
+      </div>
+
+      {overrides.map((o, i) => (
+        <div
+          key={i}
+          className="space-y-3 rounded-lg border border-border/60 p-3"
+        >
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <Field
+                id={`override-address-${i}`}
+                label="Address"
+                value={o.address}
+                onChange={(address) => update(i, { address })}
+                placeholder="0x…"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+              title="Remove"
+              onClick={() => onChange(overrides.filter((_, j) => j !== i))}
+            >
+              <TrashIcon weight="bold" size={14} />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Field
+              id={`override-balance-${i}`}
+              label="Balance"
+              value={o.balanceEth ?? ""}
+              onChange={(balanceEth) => update(i, { balanceEth })}
+              placeholder="Unchanged"
+              suffix="ETH"
+            />
+            <Field
+              id={`override-nonce-${i}`}
+              label="Nonce"
+              value={o.nonce ?? ""}
+              onChange={(nonce) => update(i, { nonce })}
+              placeholder="Unchanged"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label
+              htmlFor={`override-code-${i}`}
+              className="text-xs text-muted-foreground"
+            >
+              Code
+            </Label>
+            <InputGroup>
+              <InputGroupTextarea
+                id={`override-code-${i}`}
+                className="min-h-[60px] font-mono text-xs resize-y text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+                placeholder="Unchanged (runtime bytecode)"
+                value={o.code ?? ""}
+                onChange={(e) => update(i, { code: e.target.value })}
+              />
+            </InputGroup>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Storage</Label>
+            {(o.storage ?? []).map((entry, j) => (
+              <div key={j} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <InputGroup className="flex-1">
+                    <InputGroupInput
+                      className="font-mono h-8 text-xs text-foreground border-none"
+                      placeholder="Slot"
+                      value={entry.slot}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        update(i, {
+                          storage: o.storage!.map((s, k) =>
+                            k === j
+                              ? { slot: e.target.value, value: s.value }
+                              : s
+                          ),
+                        })
+                      }
+                    />
+                  </InputGroup>
+                  <InputGroup className="flex-1">
+                    <InputGroupInput
+                      className="font-mono h-8 text-xs text-foreground border-none"
+                      placeholder="Value"
+                      value={entry.value}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        update(i, {
+                          storage: o.storage!.map((s, k) =>
+                            k === j
+                              ? { slot: s.slot, value: e.target.value }
+                              : s
+                          ),
+                        })
+                      }
+                    />
+                  </InputGroup>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    title="Remove slot"
+                    onClick={() =>
+                      update(i, {
+                        storage: o.storage!.filter((_, k) => k !== j),
+                      })
+                    }
+                  >
+                    <TrashIcon weight="bold" size={14} />
+                  </Button>
+                </div>
+                {entry.label && (
+                  <div className="text-[10px] text-muted-foreground">
+                    {entry.label}
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1.5 text-muted-foreground"
+              onClick={() =>
+                update(i, {
+                  storage: [...(o.storage ?? []), { slot: "", value: "" }],
+                })
+              }
+            >
+              <PlusIcon weight="bold" size={14} />
+              Add slot
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 px-3 text-xs gap-1.5"
+          onClick={() => onChange([...overrides, { address: "" }])}
+        >
+          <PlusIcon weight="bold" size={14} />
+          Add address
+        </Button>
+        {overrides.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-3 text-xs text-muted-foreground"
+            onClick={() => onChange([])}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+      <div className="text-xs text-muted-foreground">
+        Applied only to simulations. Values accept decimal or hex; editing a
+        slot by hand drops its helper note.
+      </div>
+    </div>
+  );
+}
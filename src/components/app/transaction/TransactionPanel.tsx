@@ -29,7 +29,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { AbiFunction } from "viem";
 import { SUPPORTED_CHAINS } from "@/lib/chains";
+import {
+  SIMULATION_BACKEND_LABELS,
+  type SimulationBackendId,
+} from "@/lib/simulationBackend";
+import type { StateOverride } from "@/lib/stateOverrides";
+import type { AuthorizationDraft } from "@/lib/eip7702";
+import type { BlockPin } from "@/lib/blockPin";
+import type { FeeSettings } from "@/lib/fees";
+import type { GasAutoFill } from "@/lib/gasLimit";
+import {
+  SEND_GATE_MODE_LABELS,
+  type SendGateMode,
+  type SendGatePolicy,
+} from "@/lib/sendGate";
+import { formatIntString } from "@/lib/format";
+import { Switch } from "@/components/ui/switch";
+import { AuthorizationListEditor } from "./AuthorizationListEditor";
+import { BlockPinEditor } from "./BlockPinEditor";
+import { CalldataDecoder } from "./CalldataDecoder";
+import { FeeControls } from "./FeeControls";
+import { StateOverridesEditor } from "./StateOverridesEditor";
 
 export interface TransactionPanelProps {
   chainId: number;
@@ -42,8 +64,26 @@ export interface TransactionPanelProps {
   setValueEth: (val: string) => void;
   calldata: string;
   setCalldata: (val: string) => void;
+  /** Functions from the Custom view ABI, used to decode calldata. */
+  abiFunctions?: readonly AbiFunction[];
   gasLimit: string;
   setGasLimit: (val: string) => void;
+  gasAutoFill: GasAutoFill;
+  setGasAutoFill: (val: GasAutoFill) => void;
+  sendGate: SendGatePolicy;
+  setSendGate: (val: SendGatePolicy) => void;
+  /** Gas used by the last single simulation, for the out-of-gas warning. */
+  simulatedGasUsed: bigint | undefined;
+  fees: FeeSettings;
+  setFees: (val: FeeSettings) => void;
+  feeError: string | undefined;
+  /** Gas limit, or the last simulation's gas used, for the cost estimate. */
+  gasEstimate: bigint | undefined;
+  valueWei: bigint | undefined;
+  /** Connected wallet, for the next-nonce hint. */
+  sendAccount: string | undefined;
+  /** Addresses in the access list sent along (attached or pasted), if any. */
+  attachedAccessListSize?: number;
   ethPrice: number | undefined;
   walletEthBalance: string | undefined;
   toEnsName: string | undefined;
@@ -52,6 +92,22 @@ export interface TransactionPanelProps {
   simulateFrom: string;
   setSimulateFrom: (val: string) => void;
   simulateFromError: string | undefined;
+  blockPin: BlockPin;
+  setBlockPin: (val: BlockPin) => void;
+  simulationBackend: SimulationBackendId;
+  setSimulationBackend: (val: SimulationBackendId) => void;
+  simulationRpcUrl: string;
+  setSimulationRpcUrl: (val: string) => void;
+  /** Why the selected backend can't simulate right now, if it can't. */
+  simulationNotice: string | undefined;
+  stateOverrides: StateOverride[];
+  setStateOverrides: (val: StateOverride[]) => void;
+  stateOverridesError: string | undefined;
+  /** Account the override helpers default to (Simulate From or wallet). */
+  simulationAccount: string | undefined;
+  authorizations: AuthorizationDraft[];
+  setAuthorizations: (val: AuthorizationDraft[]) => void;
+  authorizationsError: string | undefined;
   dataBytes: number;
   formError: string | undefined;
   sendError: Error | null;
@@ -62,6 +118,10 @@ export interface TransactionPanelProps {
   onClearResults: () => void;
   canSend: boolean;
   isSending: boolean;
+  /** Deploy mode builds `to` and calldata, so their fields are hidden. */
+  isDeploying?: boolean;
+  /** Replaces "Submit", e.g. when Submit signs a Safe proposal instead. */
+  sendLabel?: string;
   onSend: () => void;
 }
 
@@ -76,8 +136,21 @@ export function TransactionPanel({
   setValueEth,
   calldata,
   setCalldata,
+  abiFunctions,
   gasLimit,
   setGasLimit,
+  gasAutoFill,
+  setGasAutoFill,
+  sendGate,
+  setSendGate,
+  simulatedGasUsed,
+  fees,
+  setFees,
+  feeError,
+  gasEstimate,
+  valueWei,
+  sendAccount,
+  attachedAccessListSize,
   ethPrice,
   walletEthBalance,
   toEnsName,
@@ -86,6 +159,20 @@ export function TransactionPanel({
   simulateFrom,
   setSimulateFrom,
   simulateFromError,
+  blockPin,
+  setBlockPin,
+  simulationBackend,
+  setSimulationBackend,
+  simulationRpcUrl,
+  setSimulationRpcUrl,
+  simulationNotice,
+  stateOverrides,
+  setStateOverrides,
+  stateOverridesError,
+  simulationAccount,
+  authorizations,
+  setAuthorizations,
+  authorizationsError,
   dataBytes,
   sendError,
   canSimulate,
@@ -95,6 +182,8 @@ export function TransactionPanel({
   onClearResults,
   canSend,
   isSending,
+  isDeploying,
+  sendLabel,
   onSend,
 }: TransactionPanelProps) {
   const walletEthBalanceNum = walletEthBalance
@@ -108,6 +197,10 @@ export function TransactionPanel({
       : undefined;
   const hasTo = to.trim().length > 0;
   const isIntrinsicGas = gasLimit.trim() === "";
+  const gasLimitBelowSimulated =
+    simulatedGasUsed !== undefined &&
+    /^\d+$/.test(gasLimit.trim()) &&
+    BigInt(gasLimit.trim()) < simulatedGasUsed;
 
   return (
     <div className="space-y-6">
@@ -141,79 +234,81 @@ export function TransactionPanel({
       </div>
 
       {/* Destination */}
-      <div className="space-y-2">
-        <div className="flex items-center gap-2">
-          <Label className="text-sm text-muted-foreground">Destination</Label>
-          <InfoIcon
-            weight="bold"
-            size={14}
-            className="shrink-0 text-muted-foreground"
-          />
+      {!isDeploying && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">Destination</Label>
+            <InfoIcon
+              weight="bold"
+              size={14}
+              className="shrink-0 text-muted-foreground"
+            />
+          </div>
+          <InputGroup>
+            <InputGroupInput
+              className="font-mono text-sm text-foreground border-none"
+              placeholder="0x..."
+              value={to}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setTo(e.target.value)
+              }
+            />
+            {hasTo && (
+              <InputGroupAddon
+                align="inline-end"
+                className="gap-1 border-none px-1"
+              >
+                {isToEnsFetching ? (
+                  <Badge
+                    variant="secondary"
+                    className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border border-border/50 shadow-none font-medium gap-1"
+                  >
+                    <CircleNotchIcon
+                      weight="bold"
+                      size={12}
+                      className="shrink-0 animate-spin"
+                    />
+                    ENS…
+                  </Badge>
+                ) : toFieldError ? (
+                  <Badge
+                    variant="secondary"
+                    className="text-[10px] h-5 px-1.5 text-destructive bg-destructive/10 border border-destructive/20 shadow-none font-medium"
+                  >
+                    Invalid
+                  </Badge>
+                ) : toEnsName ? (
+                  <Badge
+                    variant="outline"
+                    className="text-[10px] h-5 px-1.5 border-success/30 text-success bg-success/10 shadow-none"
+                  >
+                    ENS
+                  </Badge>
+                ) : isToEnsFetching ? (
+                  <Badge
+                    variant="secondary"
+                    className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border border-border/50 shadow-none font-medium gap-1"
+                  >
+                    <CircleNotchIcon
+                      weight="bold"
+                      size={12}
+                      className="shrink-0 animate-spin"
+                    />
+                    ENS…
+                  </Badge>
+                ) : (
+                  <Badge
+                    variant="secondary"
+                    className="text-[10px] h-5 px-1.5 gap-1 text-muted-foreground bg-muted/50 border-none shadow-none font-medium rounded tabular-nums"
+                  >
+                    Address
+                  </Badge>
+                )}
+              </InputGroupAddon>
+            )}
+          </InputGroup>
         </div>
-        <InputGroup>
-          <InputGroupInput
-            className="font-mono text-sm text-foreground border-none"
-            placeholder="0x..."
-            value={to}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-              setTo(e.target.value)
-            }
-          />
-          {hasTo && (
-            <InputGroupAddon
-              align="inline-end"
-              className="gap-1 border-none px-1"
-            >
-              {isToEnsFetching ? (
-                <Badge
-                  variant="secondary"
-                  className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border border-border/50 shadow-none font-medium gap-1"
-                >
-                  <CircleNotchIcon
-                    weight="bold"
-                    size={12}
-                    className="shrink-0 animate-spin"
-                  />
-                  ENS…
-                </Badge>
-              ) : toFieldError ? (
-                <Badge
-                  variant="secondary"
-                  className="text-[10px] h-5 px-1.5 text-destructive bg-destructive/10 border border-destructive/20 shadow-none font-medium"
-                >
-                  Invalid
-                </Badge>
-              ) : toEnsName ? (
-                <Badge
-                  variant="outline"
-                  className="text-[10px] h-5 px-1.5 border-success/30 text-success bg-success/10 shadow-none"
-                >
-                  ENS
-                </Badge>
-              ) : isToEnsFetching ? (
-                <Badge
-                  variant="secondary"
-                  className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border border-border/50 shadow-none font-medium gap-1"
-                >
-                  <CircleNotchIcon
-                    weight="bold"
-                    size={12}
-                    className="shrink-0 animate-spin"
-                  />
-                  ENS…
-                </Badge>
-              ) : (
-                <Badge
-                  variant="secondary"
-                  className="text-[10px] h-5 px-1.5 gap-1 text-muted-foreground bg-muted/50 border-none shadow-none font-medium rounded tabular-nums"
-                >
-                  Address
-                </Badge>
-              )}
-            </InputGroupAddon>
-          )}
-        </InputGroup>
-      </div>
+      )}
       {/* Value */}
       <div className="space-y-2">
         <div className="flex items-center gap-2">
@@ -262,37 +357,45 @@ export function TransactionPanel({
       </div>
 
       {/* Calldata */}
-      <div className="space-y-2">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Label htmlFor="calldata" className="text-sm text-muted-foreground">
-              Calldata
-            </Label>
-            <InfoIcon
-              weight="bold"
-              size={14}
-              className="shrink-0 text-muted-foreground"
-            />
+      {!isDeploying && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="calldata" className="text-sm text-muted-foreground">
+                Calldata
+              </Label>
+              <InfoIcon
+                weight="bold"
+                size={14}
+                className="shrink-0 text-muted-foreground"
+              />
+            </div>
           </div>
-        </div>
-        <InputGroup className="flex-col items-stretch relative">
-          <InputGroupTextarea
-            id="calldata"
-            className="min-h-[140px] font-mono text-sm resize-none text-foreground border-none focus-visible:ring-0 custom-scrollbar"
-            placeholder="0x"
-            value={calldata}
-            onChange={(e) => setCalldata(e.target.value)}
+          <InputGroup className="flex-col items-stretch relative">
+            <InputGroupTextarea
+              id="calldata"
+              className="min-h-[140px] font-mono text-sm resize-none text-foreground border-none focus-visible:ring-0 custom-scrollbar"
+              placeholder="0x"
+              value={calldata}
+              onChange={(e) => setCalldata(e.target.value)}
+            />
+            <InputGroupAddon
+              align="inline-end"
+              className="absolute bottom-1 right-1 gap-1 border-none px-1 h-auto"
+            >
+              <span className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border-none shadow-none font-medium rounded">
+                {dataBytes} bytes
+              </span>
+            </InputGroupAddon>
+          </InputGroup>
+          <CalldataDecoder
+            calldata={calldata}
+            chainId={chainId}
+            to={to}
+            abiFunctions={abiFunctions}
           />
-          <InputGroupAddon
-            align="inline-end"
-            className="absolute bottom-1 right-1 gap-1 border-none px-1 h-auto"
-          >
-            <span className="text-[10px] h-5 px-1.5 text-muted-foreground bg-muted/50 border-none shadow-none font-medium rounded">
-              {dataBytes} bytes
-            </span>
-          </InputGroupAddon>
-        </InputGroup>
-      </div>
+        </div>
+      )}
 
       {/* Advanced Section */}
       <Accordion
@@ -348,6 +451,126 @@ export function TransactionPanel({
                 <div className="text-xs text-muted-foreground">
                   Leave blank to use intrinsic (auto) gas.
                 </div>
+                {gasLimitBelowSimulated && (
+                  <div className="flex items-center gap-1.5 text-xs text-warning">
+                    <WarningCircleIcon
+                      weight="bold"
+                      size={14}
+                      className="shrink-0"
+                    />
+                    Below the {formatIntString(simulatedGasUsed!.toString())}{" "}
+                    gas the simulation used; this will run out of gas.
+                  </div>
+                )}
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="gas-auto-fill"
+                    checked={gasAutoFill.enabled}
+                    onCheckedChange={(enabled) =>
+                      setGasAutoFill({ ...gasAutoFill, enabled })
+                    }
+                  />
+                  <Label
+                    htmlFor="gas-auto-fill"
+                    className="text-xs text-muted-foreground"
+                  >
+                    Fill from simulation, plus
+                  </Label>
+                  <InputGroup className="w-20">
+                    <InputGroupInput
+                      id="gas-buffer"
+                      className="font-mono h-8 text-xs text-foreground border-none"
+                      value={gasAutoFill.bufferPercent}
+                      disabled={!gasAutoFill.enabled}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setGasAutoFill({
+                          ...gasAutoFill,
+                          bufferPercent: e.target.value,
+                        })
+                      }
+                    />
+                    <InputGroupAddon
+                      align="inline-end"
+                      className="gap-1 border-none px-1"
+                    >
+                      <span className="text-xs text-muted-foreground px-1">
+                        %
+                      </span>
+                    </InputGroupAddon>
+                  </InputGroup>
+                </div>
+              </div>
+
+              <FeeControls
+                fees={fees}
+                onChange={setFees}
+                chainId={chainId}
+                account={sendAccount}
+                gasEstimate={gasEstimate}
+                valueWei={valueWei}
+                ethPrice={ethPrice}
+                error={feeError}
+              />
+              {attachedAccessListSize !== undefined && (
+                <div className="text-xs text-muted-foreground">
+                  Sending with an access list (
+                  {attachedAccessListSize} address
+                  {attachedAccessListSize === 1 ? "" : "es"}).
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-sm text-muted-foreground">
+                  Before Sending
+                </Label>
+                <div className="grid grid-cols-[1fr,7rem] gap-2">
+                  <Select
+                    value={sendGate.mode}
+                    onValueChange={(mode) =>
+                      setSendGate({ ...sendGate, mode: mode as SendGateMode })
+                    }
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(
+                        Object.keys(SEND_GATE_MODE_LABELS) as SendGateMode[]
+                      ).map((mode) => (
+                        <SelectItem key={mode} value={mode}>
+                          {SEND_GATE_MODE_LABELS[mode]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <InputGroup>
+                    <InputGroupInput
+                      id="send-gate-max-age"
+                      className="font-mono h-10 flex-1 text-foreground border-none"
+                      disabled={sendGate.mode === "off"}
+                      value={sendGate.maxAgeBlocks}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setSendGate({
+                          ...sendGate,
+                          maxAgeBlocks: e.target.value,
+                        })
+                      }
+                    />
+                    <InputGroupAddon
+                      align="inline-end"
+                      className="gap-1 border-none px-1"
+                    >
+                      <span className="text-xs text-muted-foreground px-1">
+                        BLOCKS
+                      </span>
+                    </InputGroupAddon>
+                  </InputGroup>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {sendGate.mode === "off"
+                    ? "Sends go straight to the wallet."
+                    : "Submit first shows the last simulation's asset changes, and flags a form that changed since or a simulation older than this many blocks."}
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -393,9 +616,140 @@ export function TransactionPanel({
                   only for simulation.
                 </div>
               </div>
+
+              <BlockPinEditor
+                pin={blockPin}
+                onChange={setBlockPin}
+                chainId={chainId}
+              />
+
+              <div className="space-y-2">
+                <Label className="text-sm text-muted-foreground">
+                  Simulation Backend
+                </Label>
+                <Select
+                  value={simulationBackend}
+                  onValueChange={(val) =>
+                    setSimulationBackend(val as SimulationBackendId)
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(
+                      Object.keys(
+                        SIMULATION_BACKEND_LABELS
+                      ) as SimulationBackendId[]
+                    ).map((id) => (
+                      <SelectItem key={id} value={id}>
+                        {SIMULATION_BACKEND_LABELS[id]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {simulationBackend === "rpc" && (
+                  <InputGroup>
+                    <InputGroupInput
+                      id="simulation-rpc-url"
+                      className="font-mono h-10 flex-1 text-foreground border-none"
+                      placeholder="http://127.0.0.1:8545"
+                      value={simulationRpcUrl}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setSimulationRpcUrl(e.target.value)
+                      }
+                    />
+                    <InputGroupAddon
+                      align="inline-end"
+                      className="gap-1 border-none px-1"
+                    >
+                      <span className="text-xs text-muted-foreground px-1">
+                        RPC
+                      </span>
+                    </InputGroupAddon>
+                  </InputGroup>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  {simulationBackend === "rpc" ? (
+                    <>
+                      Needs{" "}
+                      <code className="rounded bg-muted px-1">
+                        debug_traceCall
+                      </code>
+                      , e.g. <code className="rounded bg-muted px-1">anvil --fork-url …</code>.
+                      Results are not saved.
+                    </>
+                  ) : simulationBackend === "tenderly-quick" ? (
+                    <>
+                      Uses{" "}
+                      <code className="rounded bg-muted px-1">
+                        tenderly_simulateTransaction
+                      </code>{" "}
+                      on the Tenderly node RPC. Results are not saved.
+                    </>
+                  ) : (
+                    "Simulations are saved to your Tenderly project."
+                  )}
+                </div>
+              </div>
             </div>
           </AccordionContent>
         </AccordionItem>
+        <AccordionItem
+          value="state-overrides"
+          className="border-t border-border/60 border-b-0"
+        >
+          <AccordionTrigger className="px-4 py-3 text-sm font-medium text-muted-foreground hover:no-underline">
+            <span className="flex items-center gap-2">
+              State Overrides
+              {stateOverrides.length > 0 && (
+                <Badge
+                  variant={stateOverridesError ? "destructive" : "secondary"}
+                  className="text-[10px] h-5 px-1.5 font-medium rounded tabular-nums"
+                >
+                  {stateOverrides.length}
+                </Badge>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="px-4 pb-4">
+            <StateOverridesEditor
+              overrides={stateOverrides}
+              onChange={setStateOverrides}
+              chainId={chainId}
+              defaultAccount={simulationAccount}
+              error={stateOverridesError}
+            />
+          </AccordionContent>
+        </AccordionItem>
+        <AccordionItem
+          value="authorizations"
+          className="border-t border-border/60 border-b-0"
+        >
+          <AccordionTrigger className="px-4 py-3 text-sm font-medium text-muted-foreground hover:no-underline">
+            <span className="flex items-center gap-2">
+              Authorizations (EIP-7702)
+              {authorizations.length > 0 && (
+                <Badge
+                  variant={authorizationsError ? "destructive" : "secondary"}
+                  className="text-[10px] h-5 px-1.5 font-medium rounded tabular-nums"
+                >
+                  {authorizations.length}
+                </Badge>
+              )}
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="px-4 pb-4">
+            <AuthorizationListEditor
+              authorizations={authorizations}
+              onChange={setAuthorizations}
+              chainId={chainId}
+              defaultAuthority={simulationAccount}
+              sender={sendAccount}
+              error={authorizationsError}
+            />
+          </AccordionContent>
+        </AccordionItem>
       </Accordion>
 
       {sendError && (
@@ -408,6 +762,9 @@ export function TransactionPanel({
           <span className="truncate">Send failed: {sendError.message}</span>
         </div>
       )}
+      {simulationNotice && (
+        <div className="text-xs text-warning">{simulationNotice}</div>
+      )}
       <div className="flex items-center justify-between pt-2">
         <Button
           variant="outline"
@@ -459,7 +816,7 @@ export function TransactionPanel({
                 className="h-3.5 w-3.5 animate-spin shrink-0"
               />
             )}
-            <span className="truncate">Submit</span>
+            <span className="truncate">{sendLabel ?? "Submit"}</span>
             <Kbd className="hidden lg:inline-flex bg-background/20 text-primary-foreground/80 border-white/20">
               ⌘
             </Kbd>
@@ -0,0 +1,77 @@
+import { createContext, useCallback, useContext, useMemo } from "react";
+import type { AbiFunction } from "viem";
+
+import { useLocalStorageState } from "@/hooks/useLocalStorageState";
+import {
+  findRegistryEntry,
+  getAbiFunctions,
+  type ContractRegistry,
+} from "@/lib/contractRegistry";
+
+type ContractRegistryState = {
+  registry: ContractRegistry;
+  setRegistry: (
+    value: ContractRegistry | ((prev: ContractRegistry) => ContractRegistry)
+  ) => void;
+  resolveLabel: (chainId?: number, address?: string) => string | undefined;
+  resolveAbiFunctions: (
+    chainId?: number,
+    address?: string
+  ) => AbiFunction[] | undefined;
+};
+
+const initialState: ContractRegistryState = {
+  registry: [],
+  setRegistry: () => null,
+  resolveLabel: () => undefined,
+  resolveAbiFunctions: () => undefined,
+};
+
+const ContractRegistryContext =
+  createContext<ContractRegistryState>(initialState);
+
+export function ContractRegistryProvider({
+  children,
+  storageKey = "contract-registry",
+}: {
+  children: React.ReactNode;
+  storageKey?: string;
+}) {
+  const [registry, setRegistry] = useLocalStorageState<ContractRegistry>(
+    storageKey,
+    []
+  );
+
+  const resolveLabel = useCallback(
+    (chainId?: number, address?: string) => {
+      if (chainId === undefined) return undefined;
+      const label = findRegistryEntry(registry, chainId, address)?.label;
+      return label?.trim() ? label.trim() : undefined;
+    },
+    [registry]
+  );
+
+  const resolveAbiFunctions = useCallback(
+    (chainId?: number, address?: string) => {
+      if (chainId === undefined) return undefined;
+      const functions = getAbiFunctions(
+        findRegistryEntry(registry, chainId, address)?.abi
+      );
+      return functions.length ? functions : undefined;
+    },
+    [registry]
+  );
+
+  const value = useMemo(
+    () => ({ registry, setRegistry, resolveLabel, resolveAbiFunctions }),
+    [registry, setRegistry, resolveLabel, resolveAbiFunctions]
+  );
+
+  return (
+    <ContractRegistryContext.Provider value={value}>
+      {children}
+    </ContractRegistryContext.Provider>
+  );
+}
+
+export const useContractRegistry = () => useContext(ContractRegistryContext);
@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import { useAccount, useConfig } from "wagmi";
+import { getCallsStatus } from "wagmi/actions";
+
+import type { HistoryItem } from "@/components/app/transaction/HistoryDataTable";
+import { trackCallsBatch, type BatchUpdate } from "@/lib/batchCalls";
+
+/**
+ * Tracks pending `wallet_sendCalls` batches in `items` through the connected
+ * wallet. Only the wallet knows a batch id, so tracking waits for a connection
+ * and resumes when one comes back.
+ */
+export function useBatchTracking(
+  items: HistoryItem[],
+  onUpdate: (batchId: string, update: BatchUpdate) => void
+) {
+  const config = useConfig();
+  const { isConnected } = useAccount();
+  const tracking = useRef(new Set<string>());
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!isConnected) return;
+    for (const item of items) {
+      const id = item.batchId;
+      if (
+        item.type !== "execution" ||
+        item.status !== "pending" ||
+        !id ||
+        tracking.current.has(id)
+      )
+        continue;
+
+      tracking.current.add(id);
+      trackCallsBatch(item, () => getCallsStatus(config, { id }))
+        .then((update) => onUpdateRef.current(id, update))
+        .catch(() => {
+          // Wallet unavailable; the next history or connection change retries.
+        })
+        .finally(() => tracking.current.delete(id));
+    }
+  }, [items, config, isConnected]);
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from "react";
+import { useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+
+import type { HistoryItem } from "@/components/app/transaction/HistoryDataTable";
+import { trackExecution, type ExecutionUpdate } from "@/lib/executionTracking";
+
+/**
+ * Tracks every pending execution in `items` until it settles and reports each
+ * change through `onUpdate`. Since `items` is the persisted history, pending
+ * transactions resume tracking after a reload.
+ */
+export function useExecutionTracking(
+  items: HistoryItem[],
+  onUpdate: (hash: string, update: ExecutionUpdate) => void
+) {
+  const config = useConfig();
+  const tracking = useRef(new Set<string>());
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    for (const item of items) {
+      const hash = item.hash;
+      if (
+        item.type !== "execution" ||
+        item.status !== "pending" ||
+        !hash ||
+        tracking.current.has(hash)
+      )
+        continue;
+
+      const client = getPublicClient(config, { chainId: item.chainId });
+      if (!client) continue;
+
+      tracking.current.add(hash);
+      trackExecution(client, item, (update) =>
+        onUpdateRef.current(hash, update)
+      )
+        .then((update) => onUpdateRef.current(hash, update))
+        .catch(() => {
+          // Leave it pending; the next history change retries.
+        })
+        .finally(() => tracking.current.delete(hash));
+    }
+  }, [items, config]);
+}
@@ -21,16 +21,8 @@ export function useLocalStorageState<T>(
     }
   }, [key, storedValue]);
 
-  const setValue = (value: T | ((prev: T) => T)) => {
-    try {
-      const valueToStore =
-        value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-    } catch {
-      // Ignore errors
-    }
-  };
-
-  return [storedValue, setValue];
+  // React's setter: stable across renders, and functional updates see the
+  // latest value even from async callbacks holding an old reference.
+  return [storedValue, setStoredValue];
 }
 
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { isAddress, type Address } from "viem";
+
+import { readSafeInfo } from "@/lib/safe";
+
+/** Owners, threshold, nonce and version of `safe` on `chainId`, re-read every 15s. */
+export function useSafeInfo(chainId: number, safe: string, enabled: boolean) {
+  const publicClient = usePublicClient({ chainId });
+  const address = safe.trim();
+  const valid = isAddress(address, { strict: false });
+
+  return useQuery({
+    queryKey: ["safe-info", chainId, address.toLowerCase()],
+    enabled: enabled && valid && Boolean(publicClient),
+    refetchInterval: 15_000,
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No RPC for this network");
+      return await readSafeInfo(publicClient, address as Address);
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { erc20Abi, type Address } from "viem";
+
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+import type { TenderlyStateObjects } from "@/lib/tenderlyApi";
+import {
+  analyzeSimulationRisk,
+  riskCallTargets,
+  riskOutgoingAssets,
+} from "@/lib/riskAnalyzer";
+
+/** Code lookups per result; traces through routers can touch many addresses. */
+const MAX_CODE_LOOKUPS = 25;
+
+/**
+ * Risk findings for `result`. Code at call targets and the sender's balances
+ * are read from the chain first; until they arrive (or if they fail) the rules
+ * that need them are skipped. Targets given code by the simulation's
+ * `stateObjects` (overrides, EIP-7702 delegations) aren't looked up.
+ */
+export function useSimulationRisk(
+  result: TenderlySimulateResult | null | undefined,
+  options: {
+    chainId: number;
+    sender?: string;
+    isVerified?: (address: string) => boolean;
+    stateObjects?: TenderlyStateObjects;
+  }
+) {
+  const { chainId, sender, isVerified, stateObjects } = options;
+  const publicClient = usePublicClient({ chainId });
+
+  const targets = useMemo(() => {
+    if (!result) return [];
+    const overridden = new Set(
+      Object.entries(stateObjects ?? {})
+        .filter(([, o]) => o.code && o.code !== "0x")
+        .map(([address]) => address.toLowerCase())
+    );
+    return riskCallTargets(result)
+      .filter((address) => !overridden.has(address))
+      .slice(0, MAX_CODE_LOOKUPS);
+  }, [result, stateObjects]);
+  const assets = useMemo(
+    () => (result && sender ? riskOutgoingAssets(result, sender) : []),
+    [result, sender]
+  );
+
+  const chainQuery = useQuery({
+    queryKey: [
+      "simulation-risk",
+      chainId,
+      sender?.toLowerCase(),
+      targets.join(","),
+      assets.join(","),
+    ],
+    enabled: Boolean(result && publicClient),
+    staleTime: 60_000,
+    retry: false,
+    queryFn: async () => {
+      if (!publicClient) throw new Error("No RPC for this network");
+      const codes = await Promise.all(
+        targets.map((address) =>
+          publicClient
+            .getCode({ address: address as Address })
+            .catch(() => "unknown")
+        )
+      );
+      const codelessAddresses = new Set(
+        targets.filter((_, i) => !codes[i] || codes[i] === "0x")
+      );
+
+      const senderBalances: Record<string, bigint> = {};
+      await Promise.all(
+        assets.map(async (key) => {
+          try {
+            senderBalances[key] =
+              key === "native"
+                ? await publicClient.getBalance({ address: sender as Address })
+                : await publicClient.readContract({
+                    address: key as Address,
+                    abi: erc20Abi,
+                    functionName: "balanceOf",
+                    args: [sender as Address],
+                  });
+          } catch {
+            // Leave it out; the large-transfer rule skips unknown balances.
+          }
+        })
+      );
+      return { codelessAddresses, senderBalances };
+    },
+  });
+
+  return useMemo(
+    () =>
+      result
+        ? analyzeSimulationRisk(result, {
+            sender,
+            isVerified,
+            ...chainQuery.data,
+          })
+        : [],
+    [result, sender, isVerified, chainQuery.data]
+  );
+}
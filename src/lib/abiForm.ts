@@ -0,0 +1,273 @@
+import type { AbiFunction, AbiParameter, Hex } from "viem";
+import {
+  encodeAbiParameters,
+  encodeFunctionData,
+  isAddress,
+  parseAbiItem,
+  toFunctionSelector,
+} from "viem";
+import { formatAbiItem } from "viem/utils";
+
+import { hexToBigIntSafe } from "@/lib/format";
+
+/**
+ * Form model for ABI-typed arguments.
+ *
+ * Leaf values are kept as the raw strings the user typed (booleans as `boolean`),
+ * tuples and arrays as nested arrays. Validation/coercion into viem's encoder input
+ * happens in one pass so every field can report its own error.
+ */
+export type AbiFormValue = string | boolean | AbiFormValue[];
+
+/** Field errors keyed by a dotted path of argument/component/element indices. */
+export type AbiFormErrors = Record<string, string>;
+
+export type ParsedAbiFunctions =
+  | { ok: true; functions: AbiFunction[] }
+  | { ok: false; error: string };
+
+const ARRAY_SUFFIX_RE = /^(.*)\[(\d*)\]$/;
+const INT_RE = /^(u?)int(\d*)$/;
+const FIXED_BYTES_RE = /^bytes(\d+)$/;
+
+export function formatFunctionSignature(fn: AbiFunction) {
+  return formatAbiItem(fn);
+}
+
+export function getFunctionSelector(fn: AbiFunction) {
+  return toFunctionSelector(fn);
+}
+
+function isAbiFunction(item: unknown): item is AbiFunction {
+  return (
+    Boolean(item) &&
+    typeof item === "object" &&
+    (item as { type?: unknown }).type === "function" &&
+    typeof (item as { name?: unknown }).name === "string"
+  );
+}
+
+/**
+ * Accepts a human-readable signature (`transfer(address,uint256)` or
+ * `function transfer(address to, uint256 amount) returns (bool)`), an ABI JSON
+ * array, a single ABI fragment, or a compiler artifact with an `abi` field.
+ */
+export function parseAbiFunctions(text: string): ParsedAbiFunctions {
+  const trimmed = text.trim();
+  if (!trimmed) return { ok: false, error: "Enter a function signature or ABI" };
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (e) {
+      return {
+        ok: false,
+        error: e instanceof Error ? e.message : "Invalid ABI JSON",
+      };
+    }
+    const items = Array.isArray(json)
+      ? json
+      : json && typeof json === "object" && Array.isArray((json as any).abi)
+      ? ((json as any).abi as unknown[])
+      : [json];
+    const functions = items.filter(isAbiFunction);
+    if (!functions.length)
+      return { ok: false, error: "ABI contains no functions" };
+    return { ok: true, functions };
+  }
+
+  const source = trimmed.startsWith("function ")
+    ? trimmed
+    : `function ${trimmed}`;
+  try {
+    const item = parseAbiItem(source);
+    if (!isAbiFunction(item))
+      return { ok: false, error: "Signature is not a function" };
+    return { ok: true, functions: [item] };
+  } catch (e) {
+    return {
+      ok: false,
+      error:
+        e instanceof Error
+          ? e.message.split("\n")[0]
+          : "Invalid function signature",
+    };
+  }
+}
+
+/** Splits `T[]` / `T[k]` into the element param and optional fixed length. */
+export function getArrayInfo(
+  param: AbiParameter
+): { element: AbiParameter; length?: number } | undefined {
+  const match = param.type.match(ARRAY_SUFFIX_RE);
+  if (!match) return undefined;
+  const element = { ...param, type: match[1] } as AbiParameter;
+  return {
+    element,
+    length: match[2] ? Number(match[2]) : undefined,
+  };
+}
+
+export function getTupleComponents(param: AbiParameter) {
+  if (param.type !== "tuple") return undefined;
+  return (param as { components?: readonly AbiParameter[] }).components ?? [];
+}
+
+export function defaultAbiFormValue(param: AbiParameter): AbiFormValue {
+  const array = getArrayInfo(param);
+  if (array) {
+    return Array.from({ length: array.length ?? 0 }, () =>
+      defaultAbiFormValue(array.element)
+    );
+  }
+  const components = getTupleComponents(param);
+  if (components) return components.map(defaultAbiFormValue);
+  if (param.type === "bool") return false;
+  return "";
+}
+
+export function getIntBounds(type: string) {
+  const match = type.match(INT_RE);
+  if (!match) return undefined;
+  const bits = BigInt(match[2] || "256");
+  const signed = match[1] !== "u";
+  return signed
+    ? { min: -(1n << (bits - 1n)), max: (1n << (bits - 1n)) - 1n }
+    : { min: 0n, max: (1n << bits) - 1n };
+}
+
+function parseInteger(raw: string) {
+  const s = raw.trim().replace(/_/g, "");
+  const negative = s.startsWith("-");
+  const abs = hexToBigIntSafe(negative ? s.slice(1) : s);
+  if (abs === undefined) return undefined;
+  return negative ? -abs : abs;
+}
+
+function coerceValue(
+  param: AbiParameter,
+  value: AbiFormValue,
+  path: string,
+  errors: AbiFormErrors
+): unknown {
+  const array = getArrayInfo(param);
+  if (array) {
+    const items = Array.isArray(value) ? value : [];
+    if (array.length !== undefined && items.length !== array.length) {
+      errors[path] = `Expected ${array.length} items`;
+    }
+    return items.map((item, i) =>
+      coerceValue(array.element, item, `${path}.${i}`, errors)
+    );
+  }
+
+  const components = getTupleComponents(param);
+  if (components) {
+    const items = Array.isArray(value) ? value : [];
+    return components.map((c, i) =>
+      coerceValue(c, items[i] ?? defaultAbiFormValue(c), `${path}.${i}`, errors)
+    );
+  }
+
+  if (param.type === "bool") return value === true;
+
+  const raw = typeof value === "string" ? value.trim() : "";
+
+  if (param.type === "address") {
+    if (!isAddress(raw, { strict: false })) {
+      errors[path] = "Invalid address";
+      return raw;
+    }
+    // Mixed case claims an EIP-55 checksum; single-case input carries none.
+    const body = raw.slice(2);
+    const mixedCase = /[a-f]/.test(body) && /[A-F]/.test(body);
+    if (mixedCase && !isAddress(raw, { strict: true })) {
+      errors[path] = "Checksum mismatch; check the address for typos";
+    }
+    return mixedCase ? raw : raw.toLowerCase();
+  }
+
+  if (param.type === "string") return typeof value === "string" ? value : "";
+
+  const bounds = getIntBounds(param.type);
+  if (bounds) {
+    const n = parseInteger(raw);
+    if (n === undefined) {
+      errors[path] = "Expected an integer (decimal or 0x-hex)";
+      return 0n;
+    }
+    if (n < bounds.min || n > bounds.max) {
+      errors[path] = `Out of range for ${param.type}`;
+    }
+    return n;
+  }
+
+  if (param.type === "bytes" || FIXED_BYTES_RE.test(param.type)) {
+    const hex = raw === "" ? "0x" : raw;
+    if (!/^0x([0-9a-fA-F]{2})*$/.test(hex)) {
+      errors[path] = "Expected even-length 0x-prefixed hex";
+      return "0x";
+    }
+    const size = param.type.match(FIXED_BYTES_RE)?.[1];
+    if (size && (hex.length - 2) / 2 !== Number(size)) {
+      errors[path] = `Expected exactly ${size} bytes`;
+    }
+    return hex;
+  }
+
+  errors[path] = `Unsupported type ${param.type}`;
+  return undefined;
+}
+
+export type EncodedAbiCall =
+  | { ok: true; data: Hex; errors: AbiFormErrors }
+  | { ok: false; errors: AbiFormErrors; error?: string };
+
+export function encodeAbiFormCall(
+  fn: AbiFunction,
+  values: AbiFormValue[]
+): EncodedAbiCall {
+  const errors: AbiFormErrors = {};
+  const args = fn.inputs.map((param, i) =>
+    coerceValue(param, values[i] ?? defaultAbiFormValue(param), String(i), errors)
+  );
+  if (Object.keys(errors).length) return { ok: false, errors };
+
+  try {
+    const data = encodeFunctionData({
+      abi: [fn],
+      functionName: fn.name,
+      args,
+    } as Parameters<typeof encodeFunctionData>[0]);
+    return { ok: true, data, errors };
+  } catch (e) {
+    return {
+      ok: false,
+      errors,
+      error: e instanceof Error ? e.message.split("\n")[0] : "Encoding failed",
+    };
+  }
+}
+
+/** ABI-encodes bare arguments, e.g. constructor args appended to creation code. */
+export function encodeAbiFormArgs(
+  params: readonly AbiParameter[],
+  values: AbiFormValue[]
+): EncodedAbiCall {
+  const errors: AbiFormErrors = {};
+  const args = params.map((param, i) =>
+    coerceValue(param, values[i] ?? defaultAbiFormValue(param), String(i), errors)
+  );
+  if (Object.keys(errors).length) return { ok: false, errors };
+
+  try {
+    return { ok: true, data: encodeAbiParameters(params, args), errors };
+  } catch (e) {
+    return {
+      ok: false,
+      errors,
+      error: e instanceof Error ? e.message.split("\n")[0] : "Encoding failed",
+    };
+  }
+}
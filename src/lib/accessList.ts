@@ -0,0 +1,67 @@
+import type { AccessList, Address, Hex } from "viem";
+
+import { hexToBigIntSafe } from "@/lib/format";
+import type { SimulationBackend } from "@/lib/simulationBackend";
+import type {
+  TenderlyAccessList,
+  TenderlySimulateApiRequest,
+} from "@/lib/tenderlyApi";
+
+/** Tenderly's `generated_access_list` / `access_list` → viem / JSON-RPC shape. */
+export function toRpcAccessList(
+  list?: TenderlyAccessList
+): AccessList | undefined {
+  if (!list?.length) return undefined;
+  return list.map((entry) => ({
+    address: entry.address as Address,
+    storageKeys: (entry.storage_keys ?? []) as Hex[],
+  }));
+}
+
+/** viem / JSON-RPC access list → Tenderly's `access_list`. */
+export function fromRpcAccessList(
+  list?: AccessList
+): TenderlyAccessList | undefined {
+  if (!list?.length) return undefined;
+  return list.map((entry) => ({
+    address: entry.address,
+    storage_keys: [...entry.storageKeys],
+  }));
+}
+
+export type AccessListGasComparison = {
+  withoutList: bigint;
+  withList: bigint;
+  /** Positive when the list saves gas. */
+  saved: bigint;
+};
+
+/**
+ * Re-simulates `req` without and then with `accessList` (unsaved) and compares
+ * gas used. Gas used includes the list's own intrinsic cost, so a list only
+ * pays off when warm accesses save more than the list costs to declare.
+ */
+export async function compareAccessListGas(
+  backend: SimulationBackend,
+  req: TenderlySimulateApiRequest,
+  accessList: TenderlyAccessList
+): Promise<AccessListGasComparison> {
+  const base = { ...req, save: false, save_if_fails: false };
+  const gasUsed = async (r: TenderlySimulateApiRequest) => {
+    const result = await backend.simulate(r);
+    const gas = hexToBigIntSafe(result.gasUsed);
+    if (gas === undefined) throw new Error("Simulation returned no gas used");
+    if (result.status === false) {
+      throw new Error(
+        `Simulation reverted${
+          result.errorMessage ? `: ${result.errorMessage}` : ""
+        }`
+      );
+    }
+    return gas;
+  };
+
+  const withoutList = await gasUsed({ ...base, access_list: undefined });
+  const withList = await gasUsed({ ...base, access_list: accessList });
+  return { withoutList, withList, saved: withoutList - withList };
+}
@@ -0,0 +1,124 @@
+import { parseEther, type Address, type Hex } from "viem";
+
+import type {
+  HistoryCall,
+  HistoryItem,
+} from "@/components/app/transaction/HistoryDataTable";
+import type { BundleStep } from "@/lib/bundle";
+
+/**
+ * EIP-5792 batches: the bundle queue sent as one `wallet_sendCalls` request to
+ * a smart wallet, which executes the calls (atomically, when it can) and
+ * reports back through `wallet_getCallsStatus`.
+ */
+export type AtomicStatus = "supported" | "ready" | "unsupported";
+
+export type BatchCapabilities = {
+  /** "ready" means the wallet can upgrade the account to batch atomically. */
+  atomic: AtomicStatus;
+  paymasterService: boolean;
+};
+
+/**
+ * Reads one chain's `wallet_getCapabilities` entry. Wallets that predate the
+ * final spec report `atomicBatch: { supported }` instead of `atomic: { status }`.
+ */
+export function readBatchCapabilities(raw: unknown): BatchCapabilities {
+  const caps = (raw ?? {}) as {
+    atomic?: { status?: string };
+    atomicBatch?: { supported?: boolean };
+    paymasterService?: { supported?: boolean };
+  };
+  const status = caps.atomic?.status;
+  const atomic: AtomicStatus =
+    status === "supported" || status === "ready"
+      ? status
+      : caps.atomicBatch?.supported
+      ? "supported"
+      : "unsupported";
+  return {
+    atomic,
+    paymasterService: Boolean(caps.paymasterService?.supported),
+  };
+}
+
+export type BatchCall = { to: Address; data: Hex; value: bigint };
+
+/** Bundle steps → `sendCalls` calls. Per-step senders and gas limits don't apply. */
+export function toBatchCalls(steps: BundleStep[]): BatchCall[] {
+  return steps.map((step) => ({
+    to: step.to as Address,
+    data: (step.calldata?.trim() || "0x") as Hex,
+    value: parseEther(step.valueEth?.trim() || "0"),
+  }));
+}
+
+/** Fields of a batch's `HistoryItem` that tracking fills in. */
+export type BatchUpdate = Partial<
+  Pick<
+    HistoryItem,
+    "status" | "hash" | "blockNumber" | "gasUsed" | "calls"
+  >
+>;
+
+type CallsStatus = {
+  status: "pending" | "success" | "failure" | undefined;
+  receipts?: readonly {
+    transactionHash: Hex;
+    status: "success" | "reverted";
+    blockNumber: bigint;
+    gasUsed: bigint;
+  }[];
+};
+
+const POLL_INTERVAL_MS = 4_000;
+
+/**
+ * Final state of a settled batch. An atomic batch usually lands as a single
+ * transaction (one receipt for every call); otherwise receipts line up with
+ * calls.
+ */
+export function batchStatusUpdate(
+  calls: HistoryCall[],
+  result: CallsStatus
+): BatchUpdate {
+  const receipts = result.receipts ?? [];
+  const perCall = receipts.length === calls.length;
+  const gasUsed = receipts.reduce((sum, r) => sum + r.gasUsed, 0n);
+  const last = receipts[receipts.length - 1];
+  return {
+    status:
+      result.status === "success"
+        ? "success"
+        : result.status === "failure"
+        ? "reverted"
+        : "unknown",
+    hash: receipts[0]?.transactionHash,
+    blockNumber: last ? Number(last.blockNumber) : undefined,
+    gasUsed: receipts.length ? gasUsed.toString() : undefined,
+    calls: calls.map((call, i) => {
+      const receipt = perCall ? receipts[i] : receipts[0];
+      return receipt
+        ? { ...call, hash: receipt.transactionHash, status: receipt.status }
+        : call;
+    }),
+  };
+}
+
+/**
+ * Polls `getStatus` (`wallet_getCallsStatus`) until the batch leaves pending.
+ * Throws when the wallet can't be asked, e.g. it disconnected; the caller
+ * leaves the batch pending and retries later.
+ */
+export async function trackCallsBatch(
+  item: Pick<HistoryItem, "calls">,
+  getStatus: () => Promise<CallsStatus>
+): Promise<BatchUpdate> {
+  for (;;) {
+    const result = await getStatus();
+    if (result.status !== "pending" && result.status !== undefined) {
+      return batchStatusUpdate(item.calls ?? [], result);
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
@@ -0,0 +1,171 @@
+import type { PublicClient } from "viem";
+
+import { parseTxHashInput } from "@/lib/transaction";
+
+/**
+ * Where a simulation should run, as entered in the form. Resolved to a concrete
+ * `block_number` (and optional `transaction_index`) right before simulating, so
+ * "latest minus N" stays relative to the chain head.
+ */
+export type BlockPinMode = "latest" | "number" | "offset" | "timestamp" | "tx";
+
+export type BlockPin = {
+  mode: BlockPinMode;
+  /** Block number, offset, timestamp or tx hash, depending on `mode`. */
+  value: string;
+  /** Position in the block to simulate at; earlier transactions apply first. */
+  transactionIndex?: string;
+};
+
+export type ResolvedBlockPin = {
+  blockNumber?: number;
+  transactionIndex?: number;
+  /** Block timestamp (seconds), when it had to be fetched anyway. */
+  timestamp?: number;
+};
+
+export const DEFAULT_BLOCK_PIN: BlockPin = { mode: "latest", value: "" };
+
+export const BLOCK_PIN_MODE_LABELS: Record<BlockPinMode, string> = {
+  latest: "Latest",
+  number: "Block number",
+  offset: "Latest minus N",
+  timestamp: "Timestamp",
+  tx: "Block of tx",
+};
+
+export const BLOCK_PIN_PLACEHOLDERS: Record<BlockPinMode, string> = {
+  latest: "",
+  number: "12345678",
+  offset: "10",
+  timestamp: "2024-06-01T12:00:00Z or 1717243200",
+  tx: "0x… or explorer URL",
+};
+
+/** Unix seconds from seconds, milliseconds or any `Date.parse`-able string. */
+export function parseTimestampInput(raw: string): number | undefined {
+  const v = raw.trim();
+  if (!v) return undefined;
+  if (/^\d+$/.test(v)) {
+    const n = Number(v);
+    // Accept both seconds and milliseconds.
+    return n > 10_000_000_000 ? Math.floor(n / 1000) : n;
+  }
+  const ms = Date.parse(v);
+  return Number.isFinite(ms) ? Math.floor(ms / 1000) : undefined;
+}
+
+/** Synchronous checks only; resolving may still fail (unknown tx, future time). */
+export function validateBlockPin(pin: BlockPin) {
+  const value = pin.value.trim();
+  const index = pin.transactionIndex?.trim();
+  if (index && !/^\d+$/.test(index)) {
+    return "Transaction index must be a whole number.";
+  }
+  switch (pin.mode) {
+    case "latest":
+      return undefined;
+    case "number":
+    case "offset":
+      return /^\d+$/.test(value)
+        ? undefined
+        : pin.mode === "number"
+        ? "Enter a block number."
+        : "Enter how many blocks back.";
+    case "timestamp":
+      return parseTimestampInput(value) !== undefined
+        ? undefined
+        : "Enter a date or unix timestamp.";
+    case "tx":
+      return parseTxHashInput(value) ? undefined : "Enter a transaction hash.";
+  }
+}
+
+/** Last block with `timestamp <= target`, by binary search over block numbers. */
+export async function findBlockByTimestamp(
+  client: PublicClient,
+  target: number
+): Promise<{ number: bigint; timestamp: bigint }> {
+  const latest = await client.getBlock({ blockTag: "latest" });
+  if (BigInt(target) >= latest.timestamp) {
+    return { number: latest.number, timestamp: latest.timestamp };
+  }
+
+  let lo = 0n;
+  let hi = latest.number;
+  let found: { number: bigint; timestamp: bigint } | undefined;
+  while (lo <= hi) {
+    const mid = (lo + hi) / 2n;
+    const block = await client.getBlock({ blockNumber: mid });
+    if (block.timestamp <= BigInt(target)) {
+      found = { number: mid, timestamp: block.timestamp };
+      lo = mid + 1n;
+    } else {
+      hi = mid - 1n;
+    }
+  }
+  if (!found) throw new Error("That time is before the first block.");
+  return found;
+}
+
+export async function resolveBlockPin(
+  client: PublicClient,
+  pin: BlockPin
+): Promise<ResolvedBlockPin> {
+  const error = validateBlockPin(pin);
+  if (error) throw new Error(error);
+
+  const value = pin.value.trim();
+  const index = pin.transactionIndex?.trim();
+  const transactionIndex = index ? Number(index) : undefined;
+
+  switch (pin.mode) {
+    case "latest":
+      if (transactionIndex === undefined) return {};
+      // A mid-block index needs a concrete block.
+      return {
+        blockNumber: Number(await client.getBlockNumber()),
+        transactionIndex,
+      };
+    case "number":
+      return { blockNumber: Number(value), transactionIndex };
+    case "offset": {
+      const latest = await client.getBlockNumber();
+      const target = latest - BigInt(value);
+      if (target < 0n) throw new Error("Offset is past the first block.");
+      return { blockNumber: Number(target), transactionIndex };
+    }
+    case "timestamp": {
+      const block = await findBlockByTimestamp(
+        client,
+        parseTimestampInput(value)!
+      );
+      return {
+        blockNumber: Number(block.number),
+        transactionIndex,
+        timestamp: Number(block.timestamp),
+      };
+    }
+    case "tx": {
+      const tx = await client.getTransaction({
+        hash: parseTxHashInput(value)!,
+      });
+      if (tx.blockNumber === null) {
+        throw new Error("That transaction is still pending.");
+      }
+      // Default to the tx's own slot, i.e. the state right before it ran.
+      return {
+        blockNumber: Number(tx.blockNumber),
+        transactionIndex: transactionIndex ?? tx.transactionIndex ?? undefined,
+      };
+    }
+  }
+}
+
+export function formatBlockPin(blockNumber?: number, transactionIndex?: number) {
+  if (blockNumber === undefined) return "Latest";
+  const block = `Block ${blockNumber.toLocaleString()}`;
+  return transactionIndex !== undefined
+    ? `${block} · index ${transactionIndex}`
+    : block;
+}
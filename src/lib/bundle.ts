@@ -0,0 +1,127 @@
+import { formatUnits } from "viem";
+
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+import type { TransactionDraft } from "@/lib/transaction";
+import { hexToBigIntSafe } from "@/lib/format";
+
+/**
+ * Ordered transaction queue simulated as one bundle ("approve, then swap").
+ *
+ * Steps are plain drafts plus a stable id for list keys and reordering; the queue
+ * is persisted in localStorage like the form itself. Steps are calls, so
+ * contract creations (no `to`) can't be queued.
+ */
+export type BundleStep = TransactionDraft & { id: string; to: string };
+
+export function createBundleStep(
+  draft: TransactionDraft & { to: string }
+): BundleStep {
+  return { ...draft, id: crypto.randomUUID() };
+}
+
+export function moveBundleStep(
+  steps: BundleStep[],
+  index: number,
+  offset: -1 | 1
+): BundleStep[] {
+  const target = index + offset;
+  if (target < 0 || target >= steps.length) return steps;
+  const next = [...steps];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/** Net change of one asset for one holder across the whole bundle. */
+export type BundleAssetDelta = {
+  holder: string;
+  /** Token contract; undefined for the native currency. */
+  token?: string;
+  symbol?: string;
+  decimals?: number;
+  standard?: string;
+  logo?: string;
+  /** Signed raw amount (NFTs count items). */
+  raw: bigint;
+  /** Signed USD value, when Tenderly priced every contributing transfer. */
+  usd?: number;
+  /** Indexes of the steps that moved this asset for this holder. */
+  steps: number[];
+};
+
+const parseUsd = (v?: string) => {
+  if (!v) return undefined;
+  const n = Number.parseFloat(v.replace(/,/g, ""));
+  return Number.isFinite(n) ? Math.abs(n) : undefined;
+};
+
+/**
+ * Sums every step's asset transfers into per-holder, per-asset net deltas.
+ * Transfers that cancel out (e.g. a token routed through a router) drop out.
+ */
+export function computeBundleAssetDeltas(
+  results: TenderlySimulateResult[]
+): BundleAssetDelta[] {
+  const byKey = new Map<string, BundleAssetDelta & { priced: boolean }>();
+
+  results.forEach((result, step) => {
+    for (const change of result.assetChanges ?? []) {
+      const info = change.assetInfo ?? {};
+      const standard = typeof info.standard === "string" ? info.standard : undefined;
+      const isNft = standard === "ERC721";
+      const amount = isNft ? 1n : hexToBigIntSafe(change.rawAmount);
+      if (amount === undefined || amount === 0n) continue;
+
+      const token =
+        typeof info.contractAddress === "string"
+          ? info.contractAddress.toLowerCase()
+          : undefined;
+      const usd = parseUsd(change.dollarValue);
+
+      const apply = (holder: string | undefined, sign: 1n | -1n) => {
+        if (!holder) return;
+        const key = `${holder.toLowerCase()}:${token ?? "native"}`;
+        const row = byKey.get(key) ?? {
+          holder,
+          token,
+          symbol: info.symbol,
+          decimals: info.decimals,
+          standard,
+          logo: info.logo,
+          raw: 0n,
+          usd: 0,
+          priced: true,
+          steps: [],
+        };
+        row.raw += sign * amount;
+        if (usd === undefined) row.priced = false;
+        else row.usd = (row.usd ?? 0) + (sign === 1n ? usd : -usd);
+        if (!row.steps.includes(step)) row.steps.push(step);
+        byKey.set(key, row);
+      };
+
+      apply(change.from, -1n);
+      apply(change.to, 1n);
+    }
+  });
+
+  return [...byKey.values()]
+    .filter((row) => row.raw !== 0n)
+    .map(({ priced, ...row }) => ({
+      ...row,
+      usd: priced ? row.usd : undefined,
+    }))
+    .sort(
+      (a, b) =>
+        Math.abs(b.usd ?? 0) - Math.abs(a.usd ?? 0) ||
+        a.holder.localeCompare(b.holder)
+    );
+}
+
+export function formatBundleDelta(delta: BundleAssetDelta) {
+  const abs = delta.raw < 0n ? -delta.raw : delta.raw;
+  const amount =
+    delta.decimals !== undefined && delta.standard !== "ERC721"
+      ? formatUnits(abs, delta.decimals)
+      : abs.toString();
+  return `${delta.raw < 0n ? "−" : "+"}${amount}`;
+}
@@ -0,0 +1,479 @@
+import type { AbiFunction, AbiParameter, Hex } from "viem";
+import {
+  decodeAbiParameters,
+  decodeFunctionData,
+  encodeFunctionData,
+  parseAbiItem,
+  parseAbiParameters,
+  size,
+  slice,
+  toFunctionSelector,
+} from "viem";
+import { formatAbiItem } from "viem/utils";
+
+import type { SelectorDatabase } from "@/lib/selectorDatabase";
+
+/**
+ * Decodes calldata against user-supplied ABIs and the offline selector database,
+ * keeping every candidate that decodes (selectors collide), and recursing into
+ * well-known wrappers (multicall, Multicall3, Safe, smart accounts, Universal Router).
+ */
+
+export type DecodedArgument = {
+  name?: string;
+  type: string;
+  value: unknown;
+};
+
+export type NestedCall = {
+  /** Where this call came from in the parent, e.g. `calls[2]` or `commands[0]`. */
+  label: string;
+  /** Call target; `undefined` means "same contract as the parent". */
+  target?: string;
+  value?: bigint;
+  /** Safe operation: 0 = CALL, 1 = DELEGATECALL. */
+  operation?: number;
+  data: Hex;
+  decoding: CalldataDecoding;
+};
+
+export type DecodedCandidate = {
+  signature: string;
+  source: "abi" | "database" | "wrapper";
+  /** Re-encoding the decoded args reproduces the input byte-for-byte. */
+  exact: boolean;
+  args: DecodedArgument[];
+  nested: NestedCall[];
+};
+
+export type CalldataDecoding = {
+  selector?: Hex;
+  candidates: DecodedCandidate[];
+};
+
+export type CalldataDecoderSources = {
+  database?: SelectorDatabase;
+  abiFunctions?: readonly AbiFunction[];
+  /** Per-address ABIs (e.g. the contract registry); tried before everything else. */
+  resolveAbiFunctions?: (target: string) => readonly AbiFunction[] | undefined;
+};
+
+const MAX_DEPTH = 4;
+
+const parsedSignatureCache = new Map<string, AbiFunction | null>();
+
+function signatureToAbiFunction(signature: string): AbiFunction | null {
+  const cached = parsedSignatureCache.get(signature);
+  if (cached !== undefined) return cached;
+  let fn: AbiFunction | null = null;
+  try {
+    const item = parseAbiItem(`function ${signature}`);
+    fn = item.type === "function" ? (item as AbiFunction) : null;
+  } catch {
+    fn = null;
+  }
+  parsedSignatureCache.set(signature, fn);
+  return fn;
+}
+
+/** Tuples decode as objects when components are named and arrays otherwise. */
+function tupleField(value: unknown, index: number, name: string): unknown {
+  if (Array.isArray(value)) return value[index];
+  if (value && typeof value === "object")
+    return (value as Record<string, unknown>)[name];
+  return undefined;
+}
+
+function asHex(value: unknown): Hex | undefined {
+  return typeof value === "string" && /^0x[0-9a-fA-F]*$/.test(value)
+    ? (value as Hex)
+    : undefined;
+}
+
+function asBigInt(value: unknown): bigint | undefined {
+  return typeof value === "bigint" ? value : undefined;
+}
+
+function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/** Universal Router command inputs, keyed by command type (`command & 0x1f`). */
+const UNIVERSAL_ROUTER_COMMANDS: Record<number, { name: string; params: string }> =
+  {
+    0x00: {
+      name: "V3_SWAP_EXACT_IN",
+      params:
+        "address recipient, uint256 amountIn, uint256 amountOutMin, bytes path, bool payerIsUser",
+    },
+    0x01: {
+      name: "V3_SWAP_EXACT_OUT",
+      params:
+        "address recipient, uint256 amountOut, uint256 amountInMax, bytes path, bool payerIsUser",
+    },
+    0x02: {
+      name: "PERMIT2_TRANSFER_FROM",
+      params: "address token, address recipient, uint160 amount",
+    },
+    0x03: {
+      name: "PERMIT2_PERMIT_BATCH",
+      params:
+        "((address token, uint160 amount, uint48 expiration, uint48 nonce)[] details, address spender, uint256 sigDeadline) permitBatch, bytes signature",
+    },
+    0x04: {
+      name: "SWEEP",
+      params: "address token, address recipient, uint256 amountMin",
+    },
+    0x05: {
+      name: "TRANSFER",
+      params: "address token, address recipient, uint256 value",
+    },
+    0x06: {
+      name: "PAY_PORTION",
+      params: "address token, address recipient, uint256 bips",
+    },
+    0x08: {
+      name: "V2_SWAP_EXACT_IN",
+      params:
+        "address recipient, uint256 amountIn, uint256 amountOutMin, address[] path, bool payerIsUser",
+    },
+    0x09: {
+      name: "V2_SWAP_EXACT_OUT",
+      params:
+        "address recipient, uint256 amountOut, uint256 amountInMax, address[] path, bool payerIsUser",
+    },
+    0x0a: {
+      name: "PERMIT2_PERMIT",
+      params:
+        "((address token, uint160 amount, uint48 expiration, uint48 nonce) details, address spender, uint256 sigDeadline) permitSingle, bytes signature",
+    },
+    0x0b: { name: "WRAP_ETH", params: "address recipient, uint256 amountMin" },
+    0x0c: {
+      name: "UNWRAP_WETH",
+      params: "address recipient, uint256 amountMin",
+    },
+    0x0d: {
+      name: "PERMIT2_TRANSFER_FROM_BATCH",
+      params:
+        "(address from, address to, uint160 amount, address token)[] transferDetails",
+    },
+    0x0e: {
+      name: "BALANCE_CHECK_ERC20",
+      params: "address owner, address token, uint256 minBalance",
+    },
+  };
+
+function decodeUniversalRouterCommand(command: number, input: Hex): NestedCall {
+  const type = command & 0x1f;
+  const allowRevert = (command & 0x80) !== 0;
+  const spec = UNIVERSAL_ROUTER_COMMANDS[type];
+  const hexType = `0x${type.toString(16).padStart(2, "0")}` as Hex;
+  const label = `${spec?.name ?? `COMMAND_${hexType}`}${
+    allowRevert ? " (allow revert)" : ""
+  }`;
+
+  if (!spec) return { label, data: input, decoding: { candidates: [] } };
+
+  try {
+    const params = parseAbiParameters(spec.params) as readonly AbiParameter[];
+    const values = decodeAbiParameters(params, input);
+    return {
+      label,
+      data: input,
+      decoding: {
+        selector: hexType,
+        candidates: [
+          {
+            signature: `${spec.name}(${params.map((p) => p.type).join(",")})`,
+            source: "wrapper",
+            exact: true,
+            args: params.map((p, i) => ({
+              name: p.name,
+              type: p.type,
+              value: values[i],
+            })),
+            nested: [],
+          },
+        ],
+      },
+    };
+  } catch {
+    return { label, data: input, decoding: { candidates: [] } };
+  }
+}
+
+/** Safe `multiSend(bytes)`: packed (uint8 op, address to, uint256 value, uint256 len, bytes data)*. */
+function unpackMultiSend(
+  packed: Hex,
+  sources: CalldataDecoderSources,
+  depth: number
+): NestedCall[] {
+  const out: NestedCall[] = [];
+  const total = size(packed);
+  let offset = 0;
+  while (offset + 85 <= total) {
+    const operation = Number(BigInt(slice(packed, offset, offset + 1)));
+    const target = slice(packed, offset + 1, offset + 21);
+    const value = BigInt(slice(packed, offset + 21, offset + 53));
+    const length = Number(BigInt(slice(packed, offset + 53, offset + 85)));
+    const start = offset + 85;
+    if (start + length > total) break;
+    const data = length ? slice(packed, start, start + length) : ("0x" as Hex);
+    out.push({
+      label: `tx[${out.length}]`,
+      target,
+      value,
+      operation,
+      data,
+      decoding: decodeCalldata(data, sources, depth + 1, target),
+    });
+    offset = start + length;
+  }
+  return out;
+}
+
+function extractNestedCalls(
+  signature: string,
+  args: readonly unknown[],
+  sources: CalldataDecoderSources,
+  depth: number,
+  target: string | undefined
+): NestedCall[] {
+  const nested = (
+    label: string,
+    data: unknown,
+    extra?: Partial<Omit<NestedCall, "label" | "data" | "decoding">>
+  ): NestedCall | null => {
+    const hex = asHex(data);
+    if (!hex) return null;
+    return {
+      label,
+      ...extra,
+      data: hex,
+      decoding: decodeCalldata(hex, sources, depth + 1, extra?.target ?? target),
+    };
+  };
+  const compact = (calls: Array<NestedCall | null>) =>
+    calls.filter((c): c is NestedCall => Boolean(c));
+
+  switch (signature) {
+    case "multicall(bytes[])":
+      return compact(asList(args[0]).map((d, i) => nested(`call[${i}]`, d)));
+    case "multicall(uint256,bytes[])":
+    case "multicall(bytes32,bytes[])":
+      return compact(asList(args[1]).map((d, i) => nested(`call[${i}]`, d)));
+    case "aggregate((address,bytes)[])":
+    case "blockAndAggregate((address,bytes)[])":
+      return compact(
+        asList(args[0]).map((c, i) =>
+          nested(`calls[${i}]`, tupleField(c, 1, "callData"), {
+            target: asHex(tupleField(c, 0, "target")),
+          })
+        )
+      );
+    case "tryAggregate(bool,(address,bytes)[])":
+    case "tryBlockAndAggregate(bool,(address,bytes)[])":
+      return compact(
+        asList(args[1]).map((c, i) =>
+          nested(`calls[${i}]`, tupleField(c, 1, "callData"), {
+            target: asHex(tupleField(c, 0, "target")),
+          })
+        )
+      );
+    case "aggregate3((address,bool,bytes)[])":
+      return compact(
+        asList(args[0]).map((c, i) =>
+          nested(`calls[${i}]`, tupleField(c, 2, "callData"), {
+            target: asHex(tupleField(c, 0, "target")),
+          })
+        )
+      );
+    case "aggregate3Value((address,bool,uint256,bytes)[])":
+      return compact(
+        asList(args[0]).map((c, i) =>
+          nested(`calls[${i}]`, tupleField(c, 3, "callData"), {
+            target: asHex(tupleField(c, 0, "target")),
+            value: asBigInt(tupleField(c, 2, "value")),
+          })
+        )
+      );
+    case "execTransaction(address,uint256,bytes,uint8,uint256,uint256,uint256,address,address,bytes)":
+    case "execTransactionFromModule(address,uint256,bytes,uint8)":
+      return compact([
+        nested("data", args[2], {
+          target: asHex(args[0]),
+          value: asBigInt(args[1]),
+          operation: Number(args[3] ?? 0),
+        }),
+      ]);
+    case "multiSend(bytes)": {
+      const packed = asHex(args[0]);
+      return packed ? unpackMultiSend(packed, sources, depth) : [];
+    }
+    case "execute(address,uint256,bytes)":
+      return compact([
+        nested("data", args[2], {
+          target: asHex(args[0]),
+          value: asBigInt(args[1]),
+        }),
+      ]);
+    case "executeBatch(address[],bytes[])": {
+      const targets = asList(args[0]);
+      return compact(
+        asList(args[1]).map((d, i) =>
+          nested(`calls[${i}]`, d, { target: asHex(targets[i]) })
+        )
+      );
+    }
+    case "executeBatch(address[],uint256[],bytes[])": {
+      const targets = asList(args[0]);
+      const values = asList(args[1]);
+      return compact(
+        asList(args[2]).map((d, i) =>
+          nested(`calls[${i}]`, d, {
+            target: asHex(targets[i]),
+            value: asBigInt(values[i]),
+          })
+        )
+      );
+    }
+    case "executeBatch((address,uint256,bytes)[])":
+      return compact(
+        asList(args[0]).map((c, i) =>
+          nested(`calls[${i}]`, tupleField(c, 2, "data"), {
+            target: asHex(tupleField(c, 0, "target")),
+            value: asBigInt(tupleField(c, 1, "value")),
+          })
+        )
+      );
+    case "upgradeToAndCall(address,bytes)":
+      return compact([nested("initializer", args[1])]);
+    case "execute(bytes,bytes[])":
+    case "execute(bytes,bytes[],uint256)": {
+      const commands = asHex(args[0]);
+      if (!commands) return [];
+      const inputs = asList(args[1]);
+      return Array.from({ length: size(commands) }, (_, i) => {
+        const command = Number(BigInt(slice(commands, i, i + 1)));
+        const input = asHex(inputs[i]) ?? ("0x" as Hex);
+        const call = decodeUniversalRouterCommand(command, input);
+        return { ...call, label: `commands[${i}] ${call.label}` };
+      });
+    }
+    default:
+      return [];
+  }
+}
+
+function decodeWithFunction(
+  fn: AbiFunction,
+  data: Hex,
+  source: DecodedCandidate["source"],
+  sources: CalldataDecoderSources,
+  depth: number,
+  target: string | undefined
+): DecodedCandidate | null {
+  let args: readonly unknown[];
+  try {
+    args = decodeFunctionData({ abi: [fn], data }).args ?? [];
+  } catch {
+    return null;
+  }
+
+  let exact = false;
+  try {
+    exact =
+      encodeFunctionData({
+        abi: [fn],
+        functionName: fn.name,
+        args,
+      } as Parameters<typeof encodeFunctionData>[0]).toLowerCase() ===
+      data.toLowerCase();
+  } catch {
+    exact = false;
+  }
+
+  const signature = formatAbiItem(fn);
+  return {
+    signature,
+    source,
+    exact,
+    args: fn.inputs.map((p, i) => ({
+      name: p.name,
+      type: p.type,
+      value: args[i],
+    })),
+    nested:
+      depth < MAX_DEPTH
+        ? extractNestedCalls(signature, args, sources, depth, target)
+        : [],
+  };
+}
+
+/**
+ * `target` is the contract receiving `data`; nested calls without an explicit
+ * target inherit it (e.g. `multicall` calls back into the same contract).
+ */
+export function decodeCalldata(
+  data: Hex,
+  sources: CalldataDecoderSources,
+  depth = 0,
+  target?: string
+): CalldataDecoding {
+  if (size(data) < 4) return { candidates: [] };
+  const selector = slice(data, 0, 4).toLowerCase() as Hex;
+
+  const candidates: DecodedCandidate[] = [];
+  const seen = new Set<string>();
+
+  // User ABIs carry parameter names, so they win over bare database signatures.
+  const abiFunctions = [
+    ...((target && sources.resolveAbiFunctions?.(target)) || []),
+    ...(sources.abiFunctions ?? []),
+  ];
+  for (const fn of abiFunctions) {
+    if (toFunctionSelector(fn) !== selector) continue;
+    const candidate = decodeWithFunction(fn, data, "abi", sources, depth, target);
+    if (candidate && !seen.has(candidate.signature)) {
+      seen.add(candidate.signature);
+      candidates.push(candidate);
+    }
+  }
+
+  for (const signature of sources.database?.get(selector) ?? []) {
+    if (seen.has(signature)) continue;
+    const fn = signatureToAbiFunction(signature);
+    if (!fn) continue;
+    const candidate = decodeWithFunction(
+      fn,
+      data,
+      "database",
+      sources,
+      depth,
+      target
+    );
+    if (candidate) {
+      seen.add(candidate.signature);
+      candidates.push(candidate);
+    }
+  }
+
+  // Exact round-trips first; keep the rest so collisions stay visible.
+  candidates.sort((a, b) => Number(b.exact) - Number(a.exact));
+  return { selector, candidates };
+}
+
+/** JSON-ish rendering for decoded values (bigints, nested tuples/arrays). */
+export function stringifyDecodedValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean" || typeof value === "number")
+    return String(value);
+  try {
+    return JSON.stringify(value, (_, v) =>
+      typeof v === "bigint" ? v.toString() : v
+    );
+  } catch {
+    return String(value);
+  }
+}
@@ -58,3 +58,82 @@ export function getExplorerIcon(chainId: number) {
   }
   return `${chain.blockExplorers.default.url}/favicon.ico`;
 }
+
+/**
+ * Tenderly `network_id` per configured chain. Tenderly uses the decimal chain id
+ * for all of these, but keeping the map explicit means a new entry in
+ * `SUPPORTED_CHAINS` doesn't silently claim Tenderly support.
+ */
+const TENDERLY_NETWORK_IDS: Record<SupportedChainId, string> = {
+  [base.id]: "8453",
+  [baseSepolia.id]: "84532",
+  [mainnet.id]: "1",
+  [arbitrum.id]: "42161",
+  [optimism.id]: "10",
+  [polygon.id]: "137",
+  [zora.id]: "7777777",
+};
+
+export function getTenderlyNetworkId(chainId: number) {
+  return isSupportedChainId(chainId)
+    ? TENDERLY_NETWORK_IDS[chainId]
+    : undefined;
+}
+
+/** Chains Tenderly can simulate on. */
+export function isTenderlySupportedChainId(chainId: number) {
+  return getTenderlyNetworkId(chainId) !== undefined;
+}
+
+/**
+ * Returns the Tenderly `network_id` for `chainId` (a number or a `network_id`
+ * string from a pasted request), or throws a readable error.
+ */
+export function requireTenderlyNetworkId(chainId: number | string) {
+  const id = Number(chainId);
+  const networkId = Number.isFinite(id) ? getTenderlyNetworkId(id) : undefined;
+  if (!networkId) {
+    throw new Error(
+      `Tenderly simulation isn't available on ${
+        Number.isFinite(id) ? getChainLabel(id) : `network "${chainId}"`
+      }. Use the Local RPC backend for this network.`
+    );
+  }
+  return networkId;
+}
+
+/**
+ * Lowest gas limit auto-fill will set. 21k is the cost of a plain transfer;
+ * Arbitrum's gas limit also pays for L1 calldata, which simulated L2 gas
+ * doesn't include, so it gets a wider floor.
+ */
+const MIN_GAS_LIMITS: Record<SupportedChainId, bigint> = {
+  [base.id]: 21_000n,
+  [baseSepolia.id]: 21_000n,
+  [mainnet.id]: 21_000n,
+  [arbitrum.id]: 100_000n,
+  [optimism.id]: 21_000n,
+  [polygon.id]: 21_000n,
+  [zora.id]: 21_000n,
+};
+
+export function getMinGasLimit(chainId: number) {
+  return isSupportedChainId(chainId) ? MIN_GAS_LIMITS[chainId] : 21_000n;
+}
+
+/** Safe Transaction Service per network; a custom URL (e.g. a local stand-in) overrides it. */
+const SAFE_TRANSACTION_SERVICE_URLS: Record<SupportedChainId, string> = {
+  [base.id]: "https://safe-transaction-base.safe.global",
+  [baseSepolia.id]: "https://safe-transaction-base-sepolia.safe.global",
+  [mainnet.id]: "https://safe-transaction-mainnet.safe.global",
+  [arbitrum.id]: "https://safe-transaction-arbitrum.safe.global",
+  [optimism.id]: "https://safe-transaction-optimism.safe.global",
+  [polygon.id]: "https://safe-transaction-polygon.safe.global",
+  [zora.id]: "https://safe-transaction-zora.safe.global",
+};
+
+export function getSafeTransactionServiceUrl(chainId: number) {
+  return isSupportedChainId(chainId)
+    ? SAFE_TRANSACTION_SERVICE_URLS[chainId]
+    : undefined;
+}
@@ -0,0 +1,315 @@
+import type { Abi, AbiEvent, AbiFunction, Address, Hex } from "viem";
+import {
+  decodeEventLog,
+  decodeFunctionData,
+  getAddress,
+  isAddress,
+  toEventSelector,
+  toFunctionSelector,
+} from "viem";
+
+import type {
+  TenderlyDecodedParam,
+  TenderlyLog,
+  TenderlyTraceEntry,
+} from "@/lib/tenderly";
+
+/**
+ * Local ABI / label registry keyed by (chainId, address).
+ *
+ * Entries are user-owned and persisted in localStorage; they take precedence over
+ * names Tenderly returns and let traces/logs of unverified contracts decode.
+ */
+export type ContractRegistryEntry = {
+  chainId: number;
+  address: Address;
+  label?: string;
+  abi?: Abi;
+  /** Where the ABI came from, e.g. `foundry: Vault.json`. */
+  source?: string;
+  updatedAt: number;
+};
+
+export type ContractRegistry = ContractRegistryEntry[];
+
+export type ArtifactFormat = "abi" | "foundry" | "hardhat";
+
+export type ParsedContractArtifact =
+  | {
+      ok: true;
+      format: ArtifactFormat;
+      abi: Abi;
+      name?: string;
+      /** Present in hardhat-deploy `deployments/<network>/*.json` files. */
+      address?: Address;
+    }
+  | { ok: false; error: string };
+
+export function registryKey(chainId: number, address: string) {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+export function findRegistryEntry(
+  registry: ContractRegistry,
+  chainId: number,
+  address?: string
+) {
+  if (!address) return undefined;
+  const key = registryKey(chainId, address);
+  return registry.find((e) => registryKey(e.chainId, e.address) === key);
+}
+
+/** Inserts or merges an entry; omitted label/abi keep their previous values. */
+export function upsertRegistryEntry(
+  registry: ContractRegistry,
+  entry: Omit<ContractRegistryEntry, "updatedAt" | "address"> & {
+    address: string;
+  }
+): ContractRegistry {
+  const address = getAddress(entry.address);
+  const key = registryKey(entry.chainId, address);
+  const existing = registry.find(
+    (e) => registryKey(e.chainId, e.address) === key
+  );
+  const next: ContractRegistryEntry = {
+    ...existing,
+    ...Object.fromEntries(
+      Object.entries(entry).filter(([, v]) => v !== undefined)
+    ),
+    chainId: entry.chainId,
+    address,
+    updatedAt: Date.now(),
+  };
+  return [
+    next,
+    ...registry.filter((e) => registryKey(e.chainId, e.address) !== key),
+  ];
+}
+
+export function removeRegistryEntry(
+  registry: ContractRegistry,
+  chainId: number,
+  address: string
+): ContractRegistry {
+  const key = registryKey(chainId, address);
+  return registry.filter((e) => registryKey(e.chainId, e.address) !== key);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isAbi(value: unknown): value is Abi {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => isRecord(item) && typeof item.type === "string")
+  );
+}
+
+function nameFromFileName(fileName?: string) {
+  const base = fileName?.split(/[\\/]/).pop()?.replace(/\.json$/i, "");
+  return base && !/^\d+$/.test(base) ? base : undefined;
+}
+
+/**
+ * Accepts a bare ABI array, a Hardhat artifact (`_format: hh-sol-artifact-1`) or
+ * hardhat-deploy deployment, or a Foundry `out/<File>.sol/<Contract>.json` artifact.
+ */
+export function parseContractArtifact(
+  text: string,
+  fileName?: string
+): ParsedContractArtifact {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    return {
+      ok: false,
+      error: e instanceof Error ? e.message : "Invalid JSON",
+    };
+  }
+
+  if (Array.isArray(json)) {
+    return isAbi(json)
+      ? { ok: true, format: "abi", abi: json, name: nameFromFileName(fileName) }
+      : { ok: false, error: "ABI entries must be objects with a `type`" };
+  }
+
+  if (!isRecord(json) || !isAbi(json.abi)) {
+    return { ok: false, error: "No `abi` array found" };
+  }
+  const address =
+    typeof json.address === "string" && isAddress(json.address)
+      ? getAddress(json.address)
+      : undefined;
+
+  if (
+    typeof json._format === "string" &&
+    json._format.startsWith("hh-sol-artifact")
+  ) {
+    return {
+      ok: true,
+      format: "hardhat",
+      abi: json.abi,
+      name:
+        typeof json.contractName === "string"
+          ? json.contractName
+          : nameFromFileName(fileName),
+      address,
+    };
+  }
+
+  const metadata = isRecord(json.metadata) ? json.metadata : undefined;
+  const settings = isRecord(metadata?.settings) ? metadata.settings : undefined;
+  const target = isRecord(settings?.compilationTarget)
+    ? Object.values(settings.compilationTarget).find(
+        (v): v is string => typeof v === "string"
+      )
+    : undefined;
+  const isFoundry =
+    isRecord(json.bytecode) || isRecord(json.deployedBytecode) || !!metadata;
+
+  return {
+    ok: true,
+    format: isFoundry ? "foundry" : address ? "hardhat" : "abi",
+    abi: json.abi,
+    name: target ?? nameFromFileName(fileName),
+    address,
+  };
+}
+
+/**
+ * Parses an exported registry (array of entries). Invalid entries are skipped.
+ */
+export function parseRegistryExport(text: string): ContractRegistryEntry[] {
+  const json = JSON.parse(text);
+  if (!Array.isArray(json)) throw new Error("Expected an array of entries");
+  const entries: ContractRegistryEntry[] = [];
+  for (const item of json) {
+    if (!isRecord(item)) continue;
+    const chainId = Number(item.chainId);
+    const address =
+      typeof item.address === "string" && isAddress(item.address)
+        ? getAddress(item.address)
+        : undefined;
+    if (!Number.isInteger(chainId) || chainId <= 0 || !address) continue;
+    entries.push({
+      chainId,
+      address,
+      label:
+        typeof item.label === "string" && item.label.trim()
+          ? item.label.trim()
+          : undefined,
+      abi: isAbi(item.abi) ? item.abi : undefined,
+      source: typeof item.source === "string" ? item.source : undefined,
+      updatedAt: Number(item.updatedAt) || Date.now(),
+    });
+  }
+  return entries;
+}
+
+export function getAbiFunctions(abi?: Abi): AbiFunction[] {
+  return (abi ?? []).filter(
+    (item): item is AbiFunction => item.type === "function"
+  );
+}
+
+function getAbiEvents(abi?: Abi): AbiEvent[] {
+  return (abi ?? []).filter((item): item is AbiEvent => item.type === "event");
+}
+
+/** Tenderly returns decoded values as JSON; match that (bigints as decimal strings). */
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (isRecord(value))
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toJsonValue(v)])
+    );
+  return value;
+}
+
+function toDecodedParams(
+  inputs: readonly { name?: string; type: string; indexed?: boolean }[],
+  args: unknown
+): TenderlyDecodedParam[] {
+  return inputs.map((input, i) => ({
+    name: input.name || undefined,
+    type: input.type,
+    indexed: input.indexed,
+    value: toJsonValue(
+      Array.isArray(args)
+        ? args[i]
+        : isRecord(args) && input.name
+        ? args[input.name]
+        : undefined
+    ),
+  }));
+}
+
+/**
+ * Fills `method`/`decodedInput` on trace frames Tenderly couldn't decode, using
+ * the registry ABI for the frame's `to` address.
+ */
+export function decodeTraceWithRegistry(
+  trace: TenderlyTraceEntry[],
+  registry: ContractRegistry,
+  chainId: number
+): TenderlyTraceEntry[] {
+  if (!registry.length) return trace;
+  return trace.map((entry) => {
+    if (typeof entry.method === "string" && entry.method.trim()) return entry;
+    const input = typeof entry.input === "string" ? entry.input : undefined;
+    if (!input || input.length < 10) return entry;
+    const functions = getAbiFunctions(
+      findRegistryEntry(registry, chainId, entry.to)?.abi
+    );
+    const selector = input.slice(0, 10).toLowerCase();
+    const fn = functions.find((f) => toFunctionSelector(f) === selector);
+    if (!fn) return entry;
+    try {
+      const { args } = decodeFunctionData({ abi: [fn], data: input as Hex });
+      return {
+        ...entry,
+        method: fn.name,
+        decodedInput: toDecodedParams(fn.inputs, args),
+      };
+    } catch {
+      return { ...entry, method: fn.name };
+    }
+  });
+}
+
+/** Fills `name`/`inputs` on logs Tenderly couldn't decode. */
+export function decodeLogsWithRegistry(
+  logs: TenderlyLog[],
+  registry: ContractRegistry,
+  chainId: number
+): TenderlyLog[] {
+  if (!registry.length) return logs;
+  return logs.map((log) => {
+    if (typeof log.name === "string" && log.name.trim()) return log;
+    const topics = Array.isArray(log.raw?.topics) ? log.raw.topics : [];
+    const topic0 = topics[0]?.toLowerCase();
+    if (!topic0) return log;
+    const events = getAbiEvents(
+      findRegistryEntry(registry, chainId, log.raw?.address)?.abi
+    );
+    const event = events.find((e) => toEventSelector(e) === topic0);
+    if (!event) return log;
+    try {
+      const decoded = decodeEventLog({
+        abi: [event],
+        topics: topics as [Hex, ...Hex[]],
+        data: (log.raw?.data ?? "0x") as Hex,
+      });
+      return {
+        ...log,
+        name: event.name,
+        inputs: toDecodedParams(event.inputs, decoded.args),
+      };
+    } catch {
+      return { ...log, name: event.name };
+    }
+  });
+}
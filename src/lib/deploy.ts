@@ -0,0 +1,299 @@
+import {
+  concat,
+  getContractAddress,
+  isAddress,
+  isHex,
+  numberToHex,
+  pad,
+  size,
+  type Abi,
+  type Address,
+  type Hex,
+} from "viem";
+
+import {
+  encodeAbiFormArgs,
+  type AbiFormValue,
+  type EncodedAbiCall,
+} from "@/lib/abiForm";
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+
+type AbiConstructor = Extract<Abi[number], { type: "constructor" }>;
+
+/**
+ * Deploy mode: the form sends creation code instead of a call. CREATE leaves
+ * `to` empty; CREATE2 calls a deterministic deployer with `salt || initcode`,
+ * which deploys at an address that depends only on the deployer, salt and code.
+ */
+export type DeployMethod = "create" | "create2";
+
+export type DeploySettings = {
+  enabled: boolean;
+  /** Creation bytecode, or a Foundry/Hardhat artifact JSON. */
+  source: string;
+  /** Constructor arguments, as the ABI form keeps them. */
+  args: AbiFormValue[];
+  method: DeployMethod;
+  /** CREATE2 factory; blank uses `DETERMINISTIC_DEPLOYER`. */
+  deployer: string;
+  /** CREATE2 salt, hex or decimal; blank is zero. */
+  salt: string;
+};
+
+export const DEPLOY_METHOD_LABELS: Record<DeployMethod, string> = {
+  create: "CREATE (sender + nonce)",
+  create2: "CREATE2 (deployer + salt)",
+};
+
+/**
+ * Arachnid's deterministic deployment proxy, which Foundry uses for
+ * `new C{salt: …}()` in scripts. Takes `salt || initcode` as raw calldata.
+ */
+export const DETERMINISTIC_DEPLOYER: Address =
+  "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+/** EIP-170 cap on deployed (runtime) code. */
+export const MAX_CODE_SIZE = 24_576;
+
+export const DEFAULT_DEPLOY_SETTINGS: DeploySettings = {
+  enabled: false,
+  source: "",
+  args: [],
+  method: "create",
+  deployer: "",
+  salt: "",
+};
+
+export type ParsedDeploySource =
+  | { ok: true; bytecode: Hex; constructorAbi?: AbiConstructor }
+  | { ok: false; error: string };
+
+function isAbiConstructor(item: unknown): item is AbiConstructor {
+  return (
+    Boolean(item) &&
+    typeof item === "object" &&
+    (item as { type?: unknown }).type === "constructor"
+  );
+}
+
+/**
+ * Accepts raw creation bytecode or a compiler artifact: Foundry's
+ * `{ abi, bytecode: { object } }` or Hardhat's `{ abi, bytecode }`.
+ */
+export function parseDeploySource(text: string): ParsedDeploySource {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { ok: false, error: "Paste creation bytecode or an artifact" };
+  }
+
+  let bytecode: unknown = trimmed;
+  let constructorAbi: AbiConstructor | undefined;
+  if (trimmed.startsWith("{")) {
+    let json: any;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (e) {
+      return {
+        ok: false,
+        error: e instanceof Error ? e.message : "Invalid artifact JSON",
+      };
+    }
+    bytecode =
+      typeof json?.bytecode === "string"
+        ? json.bytecode
+        : json?.bytecode?.object;
+    constructorAbi = Array.isArray(json?.abi)
+      ? json.abi.find(isAbiConstructor)
+      : undefined;
+    if (typeof bytecode !== "string") {
+      return { ok: false, error: "Artifact has no bytecode" };
+    }
+  }
+
+  const hex = (bytecode as string).startsWith("0x")
+    ? (bytecode as string)
+    : `0x${bytecode}`;
+  if (/__\$[0-9a-fA-F]{34}\$__/.test(hex)) {
+    return {
+      ok: false,
+      error: "Bytecode has unlinked libraries; link them before deploying",
+    };
+  }
+  if (!isHex(hex) || hex.length % 2 !== 0) {
+    return { ok: false, error: "Bytecode must be even-length hex" };
+  }
+  if (hex === "0x") {
+    return {
+      ok: false,
+      error: "Artifact has empty bytecode (abstract contract?)",
+    };
+  }
+  return { ok: true, bytecode: hex, constructorAbi };
+}
+
+/** Creation bytecode followed by the ABI-encoded constructor arguments. */
+export function encodeInitcode(
+  bytecode: Hex,
+  constructorAbi: AbiConstructor | undefined,
+  args: AbiFormValue[]
+): EncodedAbiCall {
+  if (!constructorAbi?.inputs.length) {
+    return { ok: true, data: bytecode, errors: {} };
+  }
+  const encoded = encodeAbiFormArgs(constructorAbi.inputs, args);
+  return encoded.ok
+    ? { ...encoded, data: concat([bytecode, encoded.data]) }
+    : encoded;
+}
+
+/** Salt input → 32-byte word; `undefined` if it doesn't fit. */
+export function toCreate2Salt(raw: string): Hex | undefined {
+  const v = raw.trim();
+  if (!v) return pad("0x", { size: 32 });
+  try {
+    if (isHex(v)) return size(v) <= 32 ? pad(v, { size: 32 }) : undefined;
+    const n = BigInt(v);
+    if (n < 0n || n >= 1n << 256n) return undefined;
+    return numberToHex(n, { size: 32 });
+  } catch {
+    return undefined;
+  }
+}
+
+export type Deployment = {
+  /** The deployer for CREATE2; absent for CREATE. */
+  to?: Address;
+  data: Hex;
+  /** Address the contract will have. */
+  address: Address;
+  initcode: Hex;
+};
+
+/**
+ * Transaction fields and predicted address for `initcode`. CREATE needs the
+ * sender's nonce at send time, so a queued transaction shifts the address.
+ */
+export function buildDeployment(
+  settings: Pick<DeploySettings, "method" | "deployer">,
+  initcode: Hex,
+  params: { from: Address; nonce: number } | { salt: Hex }
+): Deployment {
+  if (settings.method === "create") {
+    if (!("from" in params)) {
+      throw new Error("CREATE needs a sender and nonce");
+    }
+    return {
+      data: initcode,
+      address: getContractAddress({
+        opcode: "CREATE",
+        from: params.from,
+        nonce: BigInt(params.nonce),
+      }),
+      initcode,
+    };
+  }
+
+  if (!("salt" in params)) throw new Error("CREATE2 needs a salt");
+  const deployer = settings.deployer.trim() || DETERMINISTIC_DEPLOYER;
+  if (!isAddress(deployer, { strict: false })) {
+    throw new Error("Invalid deployer address");
+  }
+  return {
+    to: deployer as Address,
+    data: concat([params.salt, initcode]),
+    address: getContractAddress({
+      opcode: "CREATE2",
+      from: deployer as Address,
+      salt: params.salt,
+      bytecode: initcode,
+    }),
+    initcode,
+  };
+}
+
+/**
+ * Runtime code size of the contract `result` created at `address`, read from
+ * the CREATE frame's output; `undefined` when the trace doesn't show it.
+ */
+export function deployedCodeSize(
+  result: TenderlySimulateResult,
+  address: Address
+): number | undefined {
+  const frame = result.trace?.find(
+    (entry) =>
+      entry.type?.toUpperCase().startsWith("CREATE") &&
+      entry.to?.toLowerCase() === address.toLowerCase()
+  );
+  const output = frame?.output;
+  return typeof output === "string" && isHex(output)
+    ? size(output)
+    : undefined;
+}
+
+export type PreparedDeployment = {
+  source?: ParsedDeploySource;
+  initcode?: EncodedAbiCall;
+  deployment?: Deployment;
+  /** First reason the deployment can't be built yet. */
+  error?: string;
+};
+
+/**
+ * Settings → deployment, one step at a time so the panel can show where it
+ * stops. CREATE needs `from` and its next `nonce`.
+ */
+export function prepareDeployment(
+  settings: DeploySettings,
+  sender: { from?: Address; nonce?: number }
+): PreparedDeployment {
+  const source = parseDeploySource(settings.source);
+  if (!source.ok) return { source, error: source.error };
+
+  const initcode = encodeInitcode(
+    source.bytecode,
+    source.constructorAbi,
+    settings.args
+  );
+  if (!initcode.ok) {
+    return {
+      source,
+      initcode,
+      error: initcode.error ?? "Fix the constructor arguments",
+    };
+  }
+
+  let params: Parameters<typeof buildDeployment>[2];
+  if (settings.method === "create") {
+    if (!sender.from) {
+      return {
+        source,
+        initcode,
+        error: "Connect a wallet or set Simulate From",
+      };
+    }
+    if (sender.nonce === undefined) {
+      return { source, initcode, error: "Reading the sender's nonce…" };
+    }
+    params = { from: sender.from, nonce: sender.nonce };
+  } else {
+    const salt = toCreate2Salt(settings.salt);
+    if (!salt) {
+      return { source, initcode, error: "Salt must fit in 32 bytes" };
+    }
+    params = { salt };
+  }
+
+  try {
+    return {
+      source,
+      initcode,
+      deployment: buildDeployment(settings, initcode.data, params),
+    };
+  } catch (e) {
+    return {
+      source,
+      initcode,
+      error: e instanceof Error ? e.message : "Invalid deployment",
+    };
+  }
+}
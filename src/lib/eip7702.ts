@@ -0,0 +1,320 @@
+import {
+  concat,
+  fromRlp,
+  getAddress,
+  hexToNumber,
+  isAddress,
+  isHex,
+  zeroAddress,
+  type Address,
+  type AuthorizationRequest,
+  type Hex,
+  type SignedAuthorization,
+  type SignedAuthorizationList,
+} from "viem";
+import { hashAuthorization, recoverAuthorizationAddress } from "viem/utils";
+
+import type { TxType } from "@/lib/fees";
+import type { TenderlyStateObjects } from "@/lib/tenderlyApi";
+
+/**
+ * EIP-7702 authorizations: an EOA (the authority) signs "run my account as
+ * `contract`", and a type-4 transaction carries the signature on chain.
+ *
+ * Browser wallets don't expose authorization signing, so the editor shows the
+ * digest and a `cast wallet sign-auth` command, and the signed authorization
+ * is pasted back as cast's RLP output or as JSON.
+ */
+export type AuthorizationDraft = {
+  /** Contract to delegate to; the zero address clears a delegation. */
+  contract: string;
+  /** Blank signs for the form's network, "0" for every network. */
+  chainId: string;
+  /** Blank uses the authority's next nonce. */
+  nonce: string;
+  /** Pasted signature; cleared when the draft is edited. */
+  signed?: StoredAuthorization;
+};
+
+/** JSON-safe signed authorization, with its recovered signer. */
+export type StoredAuthorization = {
+  address: Address;
+  chainId: number;
+  nonce: number;
+  yParity: number;
+  r: Hex;
+  s: Hex;
+  authority: Address;
+};
+
+export const EMPTY_AUTHORIZATION: AuthorizationDraft = {
+  contract: "",
+  chainId: "",
+  nonce: "",
+};
+
+/** Prefix of the code an authority gets: `0xef0100 || contract`. */
+export const DELEGATION_PREFIX = "0xef0100";
+
+/** First problem with `drafts`, or `undefined` when all entries are valid. */
+export function validateAuthorizations(drafts: AuthorizationDraft[]) {
+  for (const [i, d] of drafts.entries()) {
+    const where = `Authorization ${i + 1}`;
+    if (!isAddress(d.contract.trim(), { strict: false })) {
+      return `${where}: invalid contract address`;
+    }
+    if (d.chainId.trim() && !/^\d+$/.test(d.chainId.trim())) {
+      return `${where}: chain id must be a whole number`;
+    }
+    if (d.nonce.trim() && !/^\d+$/.test(d.nonce.trim())) {
+      return `${where}: nonce must be a whole number`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Nonce an authorization must carry. The sender's own nonce is bumped before
+ * the authorization list is processed, so self-delegation signs one ahead.
+ */
+export function expectedAuthorizationNonce(
+  authorityNonce: number,
+  authority: string,
+  sender: string | undefined
+) {
+  return sender?.toLowerCase() === authority.toLowerCase()
+    ? authorityNonce + 1
+    : authorityNonce;
+}
+
+/** Draft → what gets signed; blank fields take `defaults`. */
+export function resolveAuthorization(
+  draft: AuthorizationDraft,
+  defaults: { chainId: number; nonce?: number }
+): AuthorizationRequest | undefined {
+  const nonce = draft.nonce.trim()
+    ? Number(draft.nonce.trim())
+    : defaults.nonce;
+  if (!isAddress(draft.contract.trim(), { strict: false })) return undefined;
+  if (nonce === undefined) return undefined;
+  return {
+    address: getAddress(draft.contract.trim()),
+    chainId: draft.chainId.trim()
+      ? Number(draft.chainId.trim())
+      : defaults.chainId,
+    nonce,
+  };
+}
+
+/** Digest the authority signs: `keccak256(0x05 || rlp([chainId, address, nonce]))`. */
+export function authorizationDigest(request: AuthorizationRequest): Hex {
+  return hashAuthorization(request);
+}
+
+export function castSignAuthCommand(request: AuthorizationRequest) {
+  return `cast wallet sign-auth ${request.address} --chain ${request.chainId} --nonce ${request.nonce}`;
+}
+
+const isQuantity = (v: unknown): v is string | number =>
+  typeof v === "string" || typeof v === "number";
+
+/**
+ * Parses a signed authorization: cast's RLP hex
+ * (`[chainId, address, nonce, yParity, r, s]`) or a JSON object with the same
+ * fields. The authority is recovered from the signature.
+ */
+export async function parseSignedAuthorization(
+  input: string
+): Promise<StoredAuthorization> {
+  const text = input.trim();
+  let auth: SignedAuthorization;
+  if (text.startsWith("{")) {
+    let obj: Record<string, unknown>;
+    try {
+      obj = JSON.parse(text);
+    } catch {
+      throw new Error("Invalid JSON");
+    }
+    const address = obj.address ?? obj.contractAddress;
+    const r = obj.r;
+    const s = obj.s;
+    const yParity = obj.yParity ?? obj.v;
+    if (
+      typeof address !== "string" ||
+      !isAddress(address, { strict: false }) ||
+      !isHex(r) ||
+      !isHex(s) ||
+      yParity === undefined ||
+      // Defaulting these would recover a signer for a message never signed.
+      !isQuantity(obj.chainId) ||
+      !isQuantity(obj.nonce)
+    ) {
+      throw new Error("Expected address, chainId, nonce, yParity, r and s");
+    }
+    auth = {
+      address: getAddress(address),
+      chainId: Number(obj.chainId),
+      nonce: Number(obj.nonce),
+      yParity: Number(yParity) % 27,
+      r,
+      s,
+    };
+  } else {
+    if (!isHex(text)) throw new Error("Paste cast's hex output or JSON");
+    let fields: unknown;
+    try {
+      fields = fromRlp(text, "hex");
+    } catch {
+      throw new Error("Not an RLP-encoded authorization");
+    }
+    if (
+      !Array.isArray(fields) ||
+      fields.length !== 6 ||
+      !fields.every((f) => typeof f === "string")
+    ) {
+      throw new Error("Expected [chainId, address, nonce, yParity, r, s]");
+    }
+    const [chainId, address, nonce, yParity, r, s] = fields as Hex[];
+    if (!isAddress(address, { strict: false })) {
+      throw new Error("Invalid contract address");
+    }
+    const num = (v: Hex) => (v === "0x" ? 0 : hexToNumber(v));
+    auth = {
+      address: getAddress(address),
+      chainId: num(chainId),
+      nonce: num(nonce),
+      yParity: num(yParity),
+      r,
+      s,
+    };
+  }
+  if (
+    !Number.isSafeInteger(auth.chainId) ||
+    !Number.isSafeInteger(auth.nonce)
+  ) {
+    throw new Error("Chain id and nonce must be whole numbers");
+  }
+
+  let authority: Address;
+  try {
+    authority = await recoverAuthorizationAddress({ authorization: auth });
+  } catch {
+    throw new Error("Signature doesn't recover to an address");
+  }
+  return {
+    address: auth.address,
+    chainId: auth.chainId,
+    nonce: auth.nonce,
+    yParity: auth.yParity!,
+    r: auth.r,
+    s: auth.s,
+    authority,
+  };
+}
+
+/**
+ * Why the drafts can't be sent yet: type-4 transactions need EIP-1559 fees,
+ * and every entry must be signed.
+ */
+export function authorizationSendError(
+  drafts: AuthorizationDraft[],
+  feeType: TxType
+) {
+  if (!drafts.length) return undefined;
+  if (feeType !== "eip1559") return "Authorizations need EIP-1559 fees";
+  const unsigned = drafts.findIndex((d) => !d.signed);
+  return unsigned === -1
+    ? undefined
+    : `Authorization ${unsigned + 1}: attach a signature before sending`;
+}
+
+/** Signed drafts, in order, as a transaction's `authorizationList`. */
+export function toAuthorizationList(
+  drafts: AuthorizationDraft[]
+): SignedAuthorizationList {
+  return drafts.flatMap((d) => {
+    if (!d.signed) return [];
+    const { authority: _authority, ...auth } = d.signed;
+    return [auth];
+  });
+}
+
+/** Code the authority runs after delegating; clearing leaves it empty. */
+export function delegationCode(contract: Address): Hex {
+  return contract.toLowerCase() === zeroAddress
+    ? "0x"
+    : concat([DELEGATION_PREFIX, contract.toLowerCase() as Hex]);
+}
+
+export type Delegation = { authority: Address; contract: Address };
+
+/**
+ * Delegations `drafts` would install on `chainId`. Unsigned drafts are assumed
+ * to be signed by `defaultAuthority`; signatures for another network are left
+ * out, since the chain skips them.
+ */
+export function toDelegations(
+  drafts: AuthorizationDraft[],
+  chainId: number,
+  defaultAuthority: Address | undefined
+): Delegation[] {
+  return drafts.flatMap((d) => {
+    if (d.signed) {
+      return d.signed.chainId === 0 || d.signed.chainId === chainId
+        ? [{ authority: d.signed.authority, contract: d.signed.address }]
+        : [];
+    }
+    return defaultAuthority && isAddress(d.contract.trim(), { strict: false })
+      ? [
+          {
+            authority: defaultAuthority,
+            contract: getAddress(d.contract.trim()),
+          },
+        ]
+      : [];
+  });
+}
+
+/** Delegations carried by a signed transaction; unrecoverable entries are skipped. */
+export async function delegationsFromList(
+  list: SignedAuthorizationList,
+  chainId: number
+): Promise<Delegation[]> {
+  const recovered = await Promise.all(
+    list.map(async (authorization) => {
+      if (authorization.chainId !== 0 && authorization.chainId !== chainId) {
+        return [];
+      }
+      try {
+        const authority = await recoverAuthorizationAddress({ authorization });
+        return [{ authority, contract: authorization.address }];
+      } catch {
+        return [];
+      }
+    })
+  );
+  return recovered.flat();
+}
+
+/**
+ * `stateObjects` with each authority's code replaced by its delegation
+ * designator, as if the authorizations had already been processed. Later
+ * entries win, like repeated authorizations in one transaction.
+ */
+export function withDelegations(
+  stateObjects: TenderlyStateObjects | undefined,
+  delegations: Delegation[]
+): TenderlyStateObjects | undefined {
+  if (!delegations.length) return stateObjects;
+  const result = { ...stateObjects };
+  for (const { authority, contract } of delegations) {
+    const key = authority.toLowerCase();
+    const existingKey = Object.keys(result).find(
+      (address) => address.toLowerCase() === key
+    );
+    const existing = existingKey ? result[existingKey] : {};
+    if (existingKey) delete result[existingKey];
+    result[key] = { ...existing, code: delegationCode(contract) };
+  }
+  return result;
+}
@@ -0,0 +1,227 @@
+import {
+  WaitForTransactionReceiptTimeoutError,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type Transaction,
+  type TransactionReceipt,
+} from "viem";
+
+import type { HistoryItem } from "@/components/app/transaction/HistoryDataTable";
+
+/** Fields of an execution's `HistoryItem` that tracking fills in. */
+export type ExecutionUpdate = Partial<
+  Pick<
+    HistoryItem,
+    | "status"
+    | "nonce"
+    | "blockNumber"
+    | "transactionIndex"
+    | "gasUsed"
+    | "effectiveGasPrice"
+    | "replacedBy"
+    | "contractAddress"
+  >
+>;
+
+export type ReplacementKind = "speed-up" | "cancel";
+
+/** How long one `waitForTransactionReceipt` round runs before re-checking the mempool. */
+const WAIT_ROUND_MS = 5 * 60_000;
+
+/** A tx no node knows about, whose nonce is still unused, is dropped after this long. */
+export const DROPPED_AFTER_MS = 30 * 60_000;
+
+export function receiptUpdate(receipt: TransactionReceipt): ExecutionUpdate {
+  return {
+    status: receipt.status === "success" ? "success" : "reverted",
+    blockNumber: Number(receipt.blockNumber),
+    transactionIndex: receipt.transactionIndex,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+    // Only a top-level CREATE fills this in; CREATE2 keeps the prediction.
+    ...(receipt.contractAddress
+      ? { contractAddress: receipt.contractAddress }
+      : {}),
+  };
+}
+
+async function isKnown(client: PublicClient, hash: Hex) {
+  try {
+    await client.getTransaction({ hash });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Follows a sent transaction until it settles: mined (success or reverted),
+ * replaced by another tx with the same nonce, or dropped from the mempool.
+ *
+ * Works from nothing but the stored history item, so pending executions can be
+ * picked up again after a reload. `onUpdate` receives intermediate facts (the
+ * nonce, once the node returns the tx); the resolved value is the final state.
+ */
+export async function trackExecution(
+  client: PublicClient,
+  item: Pick<HistoryItem, "hash" | "from" | "nonce" | "timestamp">,
+  onUpdate?: (update: ExecutionUpdate) => void
+): Promise<ExecutionUpdate> {
+  if (!item.hash) throw new Error("Execution has no transaction hash");
+  const hash = item.hash as Hex;
+
+  let nonce = item.nonce;
+  if (nonce === undefined) {
+    try {
+      nonce = (await client.getTransaction({ hash })).nonce;
+      onUpdate?.({ nonce });
+    } catch {
+      // Not propagated yet; the nonce check below waits for it.
+    }
+  }
+
+  for (;;) {
+    try {
+      let replacedBy: Hex | undefined;
+      const receipt = await client.waitForTransactionReceipt({
+        hash,
+        timeout: WAIT_ROUND_MS,
+        onReplaced: (replacement) => {
+          replacedBy = replacement.transaction.hash;
+        },
+      });
+      if (replacedBy && replacedBy !== hash) {
+        return { status: "replaced", replacedBy, nonce };
+      }
+      return { ...receiptUpdate(receipt), nonce };
+    } catch (e) {
+      if (!(e instanceof WaitForTransactionReceiptTimeoutError)) {
+        // RPC hiccup; back off briefly and re-check.
+        await new Promise((resolve) => setTimeout(resolve, 15_000));
+      }
+    }
+
+    if (await isKnown(client, hash)) continue;
+
+    if (nonce !== undefined && item.from) {
+      try {
+        const used = await client.getTransactionCount({
+          address: item.from as Address,
+          blockTag: "latest",
+        });
+        // Something else was mined with this nonce.
+        if (used > nonce) return { status: "replaced", nonce };
+      } catch {
+        // Try again next round.
+      }
+    }
+
+    if (Date.now() - item.timestamp > DROPPED_AFTER_MS) {
+      return { status: "dropped", nonce };
+    }
+  }
+}
+
+/** Nodes reject replacements that raise fees by less than 10%. */
+const REPLACEMENT_FEE_BUMP_PERCENT = 15n;
+
+const bumpFee = (fee: bigint) =>
+  (fee * (100n + REPLACEMENT_FEE_BUMP_PERCENT) + 99n) / 100n;
+
+const maxOf = (...values: (bigint | undefined)[]) =>
+  values.reduce<bigint>((a, b) => (b !== undefined && b > a ? b : a), 0n);
+
+/**
+ * Envelope fields a speed-up must keep: dropping them would spend the nonce on
+ * a different transaction, e.g. a type-4 send without its delegations.
+ */
+function speedUpTypeFields(original: Transaction) {
+  switch (original.type) {
+    case "eip2930":
+    case "eip1559":
+      return { type: original.type, accessList: original.accessList };
+    case "eip7702":
+      if (!original.authorizationList?.length) {
+        throw new Error(
+          "The network didn't return this transaction's authorization list."
+        );
+      }
+      return {
+        type: original.type,
+        accessList: original.accessList,
+        authorizationList: original.authorizationList,
+      };
+    case "eip4844":
+      throw new Error("Blob transactions can't be sped up from here.");
+    default:
+      return { type: "legacy" as const };
+  }
+}
+
+/**
+ * Transaction that replaces pending `hash` by reusing its nonce with bumped
+ * fees: the same call for a speed-up, or a 0-value self-send for a cancel.
+ * Fees are at least the original's plus `REPLACEMENT_FEE_BUMP_PERCENT`, or the
+ * current network suggestion when that is higher.
+ */
+export async function buildReplacement(
+  client: PublicClient,
+  hash: Hex,
+  kind: ReplacementKind
+) {
+  let original;
+  try {
+    original = await client.getTransaction({ hash });
+  } catch {
+    throw new Error(
+      "The network no longer knows this transaction; it was likely dropped."
+    );
+  }
+  if (original.blockNumber !== null) {
+    throw new Error(`Already mined in block ${original.blockNumber}.`);
+  }
+
+  const call =
+    kind === "cancel"
+      ? {
+          to: original.from,
+          data: "0x" as Hex,
+          value: 0n,
+          gas: 21_000n,
+        }
+      : {
+          to: original.to ?? undefined,
+          data: original.input,
+          value: original.value,
+          gas: original.gas,
+          ...speedUpTypeFields(original),
+        };
+
+  if (original.maxFeePerGas !== undefined) {
+    const current = await client.estimateFeesPerGas().catch(() => undefined);
+    const maxPriorityFeePerGas = maxOf(
+      bumpFee(original.maxPriorityFeePerGas ?? 0n),
+      current?.maxPriorityFeePerGas
+    );
+    return {
+      ...call,
+      from: original.from,
+      nonce: original.nonce,
+      maxPriorityFeePerGas,
+      maxFeePerGas: maxOf(
+        bumpFee(original.maxFeePerGas),
+        current?.maxFeePerGas,
+        maxPriorityFeePerGas
+      ),
+    };
+  }
+
+  const gasPrice = await client.getGasPrice().catch(() => undefined);
+  return {
+    ...call,
+    from: original.from,
+    nonce: original.nonce,
+    gasPrice: maxOf(bumpFee(original.gasPrice ?? 0n), gasPrice),
+  };
+}
@@ -0,0 +1,189 @@
+import { formatGwei, parseGwei, type PublicClient } from "viem";
+
+/**
+ * Fee, nonce and type settings for sending, as entered in the Advanced form.
+ * Blank fields leave the value to the wallet.
+ */
+export type TxType = "eip1559" | "eip2930" | "legacy";
+
+export type FeeSettings = {
+  type: TxType;
+  /** EIP-1559 caps, in gwei. */
+  maxFeeGwei: string;
+  priorityFeeGwei: string;
+  /** Legacy / EIP-2930 price, in gwei. */
+  gasPriceGwei: string;
+  nonce: string;
+};
+
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+  type: "eip1559",
+  maxFeeGwei: "",
+  priorityFeeGwei: "",
+  gasPriceGwei: "",
+  nonce: "",
+};
+
+export const TX_TYPE_LABELS: Record<TxType, string> = {
+  eip1559: "EIP-1559 (type 2)",
+  eip2930: "Access list (type 1)",
+  legacy: "Legacy (type 0)",
+};
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+/** `eth_feeHistory` reward percentiles behind each speed. */
+const SPEED_PERCENTILES: Record<FeeSpeed, number> = {
+  slow: 10,
+  normal: 50,
+  fast: 90,
+};
+
+/** Blocks of history the suggestions look at. */
+const FEE_HISTORY_BLOCKS = 20;
+
+export type FeeSuggestion = {
+  speed: FeeSpeed;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** What a type 0/1 tx would offer: next base fee plus the tip. */
+  gasPrice: bigint;
+};
+
+export type FeeSuggestions = {
+  /** Base fee of the next block. */
+  baseFeePerGas: bigint;
+  suggestions: FeeSuggestion[];
+};
+
+const median = (values: bigint[]) => {
+  if (!values.length) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Slow / normal / fast suggestions from recent blocks' priority fee
+ * percentiles. Max fee leaves room for the base fee to double, as wallets do.
+ */
+export async function suggestFees(
+  client: Pick<PublicClient, "getFeeHistory">
+): Promise<FeeSuggestions> {
+  const speeds = Object.keys(SPEED_PERCENTILES) as FeeSpeed[];
+  const history = await client.getFeeHistory({
+    blockCount: FEE_HISTORY_BLOCKS,
+    blockTag: "latest",
+    rewardPercentiles: speeds.map((s) => SPEED_PERCENTILES[s]),
+  });
+  const baseFeePerGas = history.baseFeePerGas.at(-1) ?? 0n;
+  // Empty blocks report 0 rewards; they say nothing about competition.
+  const rewards = (history.reward ?? []).filter((r) => r.some((v) => v > 0n));
+
+  return {
+    baseFeePerGas,
+    suggestions: speeds.map((speed, i) => {
+      const maxPriorityFeePerGas = median(rewards.map((r) => r[i]));
+      return {
+        speed,
+        maxPriorityFeePerGas,
+        maxFeePerGas: baseFeePerGas * 2n + maxPriorityFeePerGas,
+        gasPrice: baseFeePerGas + maxPriorityFeePerGas,
+      };
+    }),
+  };
+}
+
+/** Settings that `suggestion` fills in for `type`. */
+export function applyFeeSuggestion(
+  fees: FeeSettings,
+  suggestion: FeeSuggestion
+): FeeSettings {
+  return fees.type === "eip1559"
+    ? {
+        ...fees,
+        maxFeeGwei: formatGwei(suggestion.maxFeePerGas),
+        priorityFeeGwei: formatGwei(suggestion.maxPriorityFeePerGas),
+      }
+    : { ...fees, gasPriceGwei: formatGwei(suggestion.gasPrice) };
+}
+
+const parseGweiInput = (raw: string) => {
+  const v = raw.trim();
+  if (!v) return undefined;
+  try {
+    const wei = parseGwei(v);
+    return wei >= 0n ? wei : null;
+  } catch {
+    return null;
+  }
+};
+
+/** First problem with `fees`, or `undefined`. Only fields used by `fees.type` count. */
+export function validateFeeSettings(fees: FeeSettings) {
+  if (fees.nonce.trim() && !/^\d+$/.test(fees.nonce.trim())) {
+    return "Nonce must be a whole number.";
+  }
+  if (fees.type !== "eip1559") {
+    return parseGweiInput(fees.gasPriceGwei) === null
+      ? "Invalid gas price."
+      : undefined;
+  }
+  const maxFee = parseGweiInput(fees.maxFeeGwei);
+  const priority = parseGweiInput(fees.priorityFeeGwei);
+  if (maxFee === null) return "Invalid max fee.";
+  if (priority === null) return "Invalid priority fee.";
+  if (maxFee !== undefined && priority !== undefined && priority > maxFee) {
+    return "Priority fee can't exceed the max fee.";
+  }
+  return undefined;
+}
+
+/** Transaction fields for `sendTransaction`. Assumes `validateFeeSettings` passed. */
+export function toFeeParams(fees: FeeSettings) {
+  const nonce = fees.nonce.trim() ? Number(fees.nonce.trim()) : undefined;
+  if (fees.type === "eip1559") {
+    return {
+      type: "eip1559" as const,
+      nonce,
+      maxFeePerGas: parseGweiInput(fees.maxFeeGwei) ?? undefined,
+      maxPriorityFeePerGas: parseGweiInput(fees.priorityFeeGwei) ?? undefined,
+    };
+  }
+  return {
+    type: fees.type,
+    nonce,
+    gasPrice: parseGweiInput(fees.gasPriceGwei) ?? undefined,
+  };
+}
+
+/**
+ * Expected and worst-case fee per gas for `fees`, falling back to the normal
+ * suggestion for blank fields.
+ */
+export function feePerGas(
+  fees: FeeSettings,
+  suggested?: FeeSuggestions
+): { expected?: bigint; max?: bigint } {
+  const normal = suggested?.suggestions.find((s) => s.speed === "normal");
+  if (fees.type !== "eip1559") {
+    const price = parseGweiInput(fees.gasPriceGwei) ?? normal?.gasPrice;
+    return { expected: price ?? undefined, max: price ?? undefined };
+  }
+  const max =
+    parseGweiInput(fees.maxFeeGwei) ?? normal?.maxFeePerGas ?? undefined;
+  const priority =
+    parseGweiInput(fees.priorityFeeGwei) ??
+    normal?.maxPriorityFeePerGas ??
+    undefined;
+  const expected =
+    suggested && priority !== undefined
+      ? suggested.baseFeePerGas + priority
+      : undefined;
+  return {
+    expected:
+      expected !== undefined && max !== undefined && expected > max
+        ? max
+        : expected,
+    max,
+  };
+}
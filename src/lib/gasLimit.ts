@@ -0,0 +1,33 @@
+import { getMinGasLimit } from "@/lib/chains";
+
+/** Gas limit auto-fill settings, persisted across sessions. */
+export type GasAutoFill = {
+  enabled: boolean;
+  /** Extra headroom over simulated gas used, in percent. */
+  bufferPercent: string;
+};
+
+export const DEFAULT_GAS_AUTO_FILL: GasAutoFill = {
+  enabled: false,
+  bufferPercent: "20",
+};
+
+/** `undefined` when `raw` isn't a non-negative number of percent. */
+export function parseBufferPercent(raw: string) {
+  const v = raw.trim();
+  if (!/^\d+(\.\d+)?$/.test(v)) return undefined;
+  return Number(v);
+}
+
+/** `gasUsed` plus `bufferPercent`, rounded up, and at least the chain's minimum. */
+export function bufferedGasLimit(
+  gasUsed: bigint,
+  bufferPercent: number,
+  chainId: number
+) {
+  // Basis points keep fractional percentages exact in bigint math.
+  const bps = BigInt(Math.round(bufferPercent * 100));
+  const buffered = (gasUsed * (10_000n + bps) + 9_999n) / 10_000n;
+  const min = getMinGasLimit(chainId);
+  return buffered > min ? buffered : min;
+}
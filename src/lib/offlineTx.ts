@@ -0,0 +1,252 @@
+import {
+  formatTransactionRequest,
+  keccak256,
+  parseTransaction,
+  recoverTransactionAddress,
+  serializeTransaction,
+  type AccessList,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type SignedAuthorizationList,
+  type TransactionSerializable,
+  type TransactionSerializableEIP1559,
+  type TransactionSerializableEIP2930,
+  type TransactionSerializableEIP7702,
+  type TransactionSerializableLegacy,
+  type TransactionSerialized,
+} from "viem";
+
+import { suggestFees, toFeeParams, type FeeSettings } from "@/lib/fees";
+
+/**
+ * Offline signing: the app fills in every field a signer needs (nonce, gas,
+ * fees, chain id) so an air-gapped device can sign without network access,
+ * and the signed raw transaction comes back here for broadcast.
+ */
+export type OfflineTransaction = {
+  from: Address;
+  tx:
+    | TransactionSerializableEIP1559
+    | TransactionSerializableEIP2930
+    | TransactionSerializableEIP7702
+    | TransactionSerializableLegacy;
+};
+
+/**
+ * Form fields → fully specified transaction. Blank fee and nonce settings use
+ * the "normal" fee suggestion and the pending nonce; a blank gas limit is
+ * estimated. An authorization list makes it an EIP-7702 (type 4) transaction.
+ */
+export async function buildOfflineTransaction(
+  client: PublicClient,
+  fields: {
+    chainId: number;
+    from: Address;
+    /** Omitted for a contract creation. */
+    to?: Address;
+    data: Hex;
+    value: bigint;
+    gas?: bigint;
+    fees: FeeSettings;
+    accessList?: AccessList;
+    authorizationList?: SignedAuthorizationList;
+  }
+): Promise<OfflineTransaction> {
+  const { chainId, from, to, data, value, fees, accessList, authorizationList } =
+    fields;
+  const params = toFeeParams(fees);
+
+  const [nonce, gas, suggested] = await Promise.all([
+    params.nonce ??
+      client.getTransactionCount({ address: from, blockTag: "pending" }),
+    fields.gas ??
+      client.estimateGas({
+        account: from,
+        to,
+        data,
+        value,
+        accessList,
+        authorizationList,
+      }),
+    suggestFees(client).catch(() => undefined),
+  ]);
+  const normal = suggested?.suggestions.find((s) => s.speed === "normal");
+  const base = { chainId, to, data, value, gas, nonce };
+
+  if (params.type === "eip1559") {
+    const maxFeePerGas = params.maxFeePerGas ?? normal?.maxFeePerGas;
+    const maxPriorityFeePerGas =
+      params.maxPriorityFeePerGas ?? normal?.maxPriorityFeePerGas;
+    if (maxFeePerGas === undefined || maxPriorityFeePerGas === undefined) {
+      throw new Error("No fee suggestion available; enter the fees by hand");
+    }
+    if (authorizationList?.length) {
+      if (!to) throw new Error("EIP-7702 transactions can't create contracts");
+      return {
+        from,
+        tx: {
+          ...base,
+          to,
+          type: "eip7702",
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+          accessList,
+          authorizationList,
+        },
+      };
+    }
+    return {
+      from,
+      tx: {
+        ...base,
+        type: "eip1559",
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+        accessList,
+      },
+    };
+  }
+
+  const gasPrice = params.gasPrice ?? normal?.gasPrice;
+  if (gasPrice === undefined) {
+    throw new Error("No gas price suggestion available; enter it by hand");
+  }
+  return params.type === "eip2930"
+    ? {
+        from,
+        tx: {
+          ...base,
+          type: "eip2930",
+          gasPrice,
+          accessList: accessList ?? [],
+        },
+      }
+    : { from, tx: { ...base, type: "legacy", gasPrice } };
+}
+
+/** Unsigned, RLP-serialized transaction (what `cast mktx`-style signers take). */
+export function serializeUnsigned(offline: OfflineTransaction): Hex {
+  return serializeTransaction(offline.tx);
+}
+
+/**
+ * JSON-RPC `eth_signTransaction` request for `offline`, with quantities as hex.
+ * The Offline view also shows it as a QR code, unless the calldata is too
+ * large for one.
+ */
+export function signingRequestPayload(offline: OfflineTransaction) {
+  const { tx, from } = offline;
+  return {
+    method: "eth_signTransaction",
+    params: [
+      {
+        ...formatTransactionRequest({ ...tx, from }),
+        chainId: `0x${tx.chainId!.toString(16)}`,
+      },
+    ],
+  };
+}
+
+export type SignedTransaction = {
+  hash: Hex;
+  from: Address;
+  tx: TransactionSerializable;
+};
+
+/** Parses a signed raw transaction and recovers its sender. */
+export async function decodeSignedTransaction(
+  raw: string
+): Promise<SignedTransaction> {
+  const serialized = raw.trim() as Hex;
+  if (!/^0x[0-9a-fA-F]+$/.test(serialized)) {
+    throw new Error("Raw transaction must be hex");
+  }
+  let tx: TransactionSerializable;
+  try {
+    tx = parseTransaction(serialized);
+  } catch {
+    throw new Error("Not a serialized transaction");
+  }
+  if (tx.r === undefined || tx.s === undefined) {
+    throw new Error("Transaction is not signed");
+  }
+  const from = await recoverTransactionAddress({
+    serializedTransaction: serialized as TransactionSerialized,
+  });
+  return { hash: keccak256(serialized), from, tx };
+}
+
+export type SignedTransactionCheck = {
+  level: "error" | "warning" | "info";
+  message: string;
+};
+
+/**
+ * What would happen if `signed` were broadcast now: a used or gapped nonce,
+ * a balance that can't cover the worst-case cost, or a tx the node already has.
+ * Checks whose RPC call fails are skipped.
+ */
+export async function verifySignedTransaction(
+  client: PublicClient,
+  signed: SignedTransaction
+): Promise<SignedTransactionCheck[]> {
+  const { tx, from, hash } = signed;
+  const checks: SignedTransactionCheck[] = [];
+  if (tx.chainId === undefined) {
+    checks.push({
+      level: "warning",
+      message:
+        "No chain id (pre-EIP-155): the signature is valid on every network.",
+    });
+  }
+
+  const [latestNonce, pendingNonce, balance, known] = await Promise.all([
+    client
+      .getTransactionCount({ address: from, blockTag: "latest" })
+      .catch(() => undefined),
+    client
+      .getTransactionCount({ address: from, blockTag: "pending" })
+      .catch(() => undefined),
+    client.getBalance({ address: from }).catch(() => undefined),
+    client
+      .getTransaction({ hash })
+      .then(() => true)
+      .catch(() => false),
+  ]);
+
+  if (known) {
+    checks.push({
+      level: "info",
+      message: "The node already knows this transaction; it was broadcast.",
+    });
+  }
+  const nonce = tx.nonce ?? 0;
+  if (!known && latestNonce !== undefined && nonce < latestNonce) {
+    checks.push({
+      level: "error",
+      message: `Nonce ${nonce} is already used (next is ${latestNonce}); this can't be mined.`,
+    });
+  } else if (pendingNonce !== undefined && nonce > pendingNonce) {
+    checks.push({
+      level: "warning",
+      message: `Nonce gap: the sender's next nonce is ${pendingNonce}, so this waits for ${
+        nonce - pendingNonce
+      } earlier transaction(s).`,
+    });
+  }
+
+  const feePerGas =
+    "maxFeePerGas" in tx && tx.maxFeePerGas !== undefined
+      ? tx.maxFeePerGas
+      : tx.gasPrice ?? 0n;
+  const maxCost = (tx.value ?? 0n) + (tx.gas ?? 0n) * feePerGas;
+  if (!known && balance !== undefined && balance < maxCost) {
+    checks.push({
+      level: "error",
+      message: "The sender's balance doesn't cover the value plus the max gas cost.",
+    });
+  }
+  return checks;
+}
+
@@ -0,0 +1,344 @@
+import { toFunctionSelector, type Hex } from "viem";
+
+import type { TenderlySimulateResult, TenderlyTraceEntry } from "@/lib/tenderly";
+
+/**
+ * Rules that judge a simulation result: approvals, privileged calls and call
+ * patterns that deserve a second look before signing.
+ *
+ * Rules are synchronous and only read the result plus `RiskContext`. Anything
+ * that needs the chain (code at an address, pre-tx balances) is gathered first
+ * by the caller; a rule skips its check when that data is missing.
+ */
+export type RiskSeverity = "critical" | "high" | "medium" | "low";
+
+export type RiskFinding = {
+  rule: string;
+  severity: RiskSeverity;
+  title: string;
+  detail: string;
+  /** Contract or account the finding is about. */
+  address?: string;
+};
+
+export type RiskContext = {
+  /** The transaction's sender. */
+  sender?: string;
+  /** Sender balances before the tx, keyed by lowercased token address or "native". */
+  senderBalances?: Record<string, bigint>;
+  /** Lowercased addresses known to have no code. */
+  codelessAddresses?: Set<string>;
+  /** Whether `address` has a known source/ABI (verified, or in the registry). */
+  isVerified?: (address: string) => boolean;
+  /** Share of a balance above which an outgoing transfer is flagged. */
+  largeTransferPercent?: number;
+};
+
+export type RiskRule = {
+  id: string;
+  check: (result: TenderlySimulateResult, ctx: RiskContext) => RiskFinding[];
+};
+
+export const RISK_SEVERITY_ORDER: RiskSeverity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+];
+
+export const DEFAULT_LARGE_TRANSFER_PERCENT = 50;
+
+/** Allowances at or above this are "unlimited" (covers max uint256 and max int256). */
+const UNLIMITED_ALLOWANCE = 1n << 255n;
+
+const toBigInt = (v: unknown) => {
+  if (typeof v === "bigint") return v;
+  if (typeof v !== "string" && typeof v !== "number") return undefined;
+  try {
+    return BigInt(v);
+  } catch {
+    return undefined;
+  }
+};
+
+const lower = (v?: string) => v?.toLowerCase();
+
+const selectorOf = (entry: TenderlyTraceEntry) =>
+  typeof entry.input === "string" && entry.input.length >= 10
+    ? (entry.input.slice(0, 10).toLowerCase() as Hex)
+    : undefined;
+
+const methodName = (entry: TenderlyTraceEntry) =>
+  typeof entry.method === "string" ? entry.method.split("(")[0] : undefined;
+
+const symbolOf = (info?: { symbol?: string; contractAddress?: string }) =>
+  info?.symbol ?? info?.contractAddress ?? "token";
+
+const unlimitedApprovals: RiskRule = {
+  id: "unlimited-approval",
+  check: (result) =>
+    (result.exposureChanges ?? [])
+      .filter((c) => (toBigInt(c.rawAmount) ?? 0n) >= UNLIMITED_ALLOWANCE)
+      .map((c) => ({
+        rule: "unlimited-approval",
+        severity: "high" as const,
+        title: "Unlimited approval",
+        detail: `Lets ${c.spender ?? "a spender"} move all of ${
+          c.owner ?? "the owner"
+        }'s ${symbolOf(c.assetInfo)}, now and later.`,
+        address: c.spender,
+      })),
+};
+
+const SET_APPROVAL_FOR_ALL = toFunctionSelector(
+  "setApprovalForAll(address,bool)"
+);
+
+const approvalForAll: RiskRule = {
+  id: "approval-for-all",
+  check: (result) =>
+    (result.trace ?? [])
+      .filter((e) => selectorOf(e) === SET_APPROVAL_FOR_ALL)
+      // Revoking (approved = false) is the safe direction.
+      .filter((e) => typeof e.input === "string" && !/0{64}$/.test(e.input))
+      .map((e) => ({
+        rule: "approval-for-all",
+        severity: "high" as const,
+        title: "setApprovalForAll",
+        detail: `Gives an operator control of every token ${
+          e.from ?? "the caller"
+        } holds in collection ${e.to ?? "?"}.`,
+        address: e.to,
+      })),
+};
+
+const largeTransfers: RiskRule = {
+  id: "large-transfer",
+  check: (result, ctx) => {
+    const sender = lower(ctx.sender);
+    const balances = ctx.senderBalances;
+    if (!sender || !balances) return [];
+    const percent = ctx.largeTransferPercent ?? DEFAULT_LARGE_TRANSFER_PERCENT;
+
+    const outgoing = new Map<string, { raw: bigint; symbol: string }>();
+    for (const change of result.assetChanges ?? []) {
+      if (lower(change.from) !== sender) continue;
+      const info = change.assetInfo as
+        | { contractAddress?: string; symbol?: string; standard?: string }
+        | undefined;
+      if (info?.standard === "ERC721") continue;
+      const key = lower(info?.contractAddress) ?? "native";
+      const prev = outgoing.get(key);
+      outgoing.set(key, {
+        raw: (prev?.raw ?? 0n) + (toBigInt(change.rawAmount) ?? 0n),
+        symbol: info?.symbol ?? (key === "native" ? "ETH" : key),
+      });
+    }
+
+    const findings: RiskFinding[] = [];
+    for (const [key, { raw, symbol }] of outgoing) {
+      const balance = balances[key];
+      if (!balance || raw * 100n <= balance * BigInt(percent)) continue;
+      findings.push({
+        rule: "large-transfer",
+        severity: "medium",
+        title: `Sends most of your ${symbol}`,
+        detail: `Moves ${Number((raw * 10_000n) / balance) / 100}% of the sender's ${symbol} balance.`,
+        address: key === "native" ? undefined : key,
+      });
+    }
+    return findings;
+  },
+};
+
+/** Precompiles live at 0x…01–0x…ff and legitimately take calldata. */
+const isPrecompile = (address: string) => /^0x0{38}[0-9a-f]{2}$/i.test(address);
+
+const callsToEoas: RiskRule = {
+  id: "eoa-call-with-calldata",
+  check: (result, ctx) => {
+    const codeless = ctx.codelessAddresses;
+    if (!codeless) return [];
+    const seen = new Set<string>();
+    return (result.trace ?? [])
+      .filter((e) => {
+        const to = lower(e.to);
+        if (!to || seen.has(to) || isPrecompile(to)) return false;
+        const hasCalldata = typeof e.input === "string" && e.input.length > 2;
+        const isCall = !e.type || /^(CALL|STATICCALL)$/i.test(e.type);
+        if (!hasCalldata || !isCall || !codeless.has(to)) return false;
+        seen.add(to);
+        return true;
+      })
+      .map((e) => ({
+        rule: "eoa-call-with-calldata",
+        severity: "medium" as const,
+        title: "Calldata sent to an account without code",
+        detail: `${e.to} has no contract code, so the calldata does nothing. A wrong address or a contract on another chain?`,
+        address: e.to,
+      }));
+  },
+};
+
+const delegatecallsToUnverified: RiskRule = {
+  id: "delegatecall-unverified",
+  check: (result, ctx) => {
+    if (!ctx.isVerified) return [];
+    const seen = new Set<string>();
+    return (result.trace ?? [])
+      .filter((e) => {
+        const to = lower(e.to);
+        if (!to || seen.has(to) || !/^DELEGATECALL$/i.test(e.type ?? ""))
+          return false;
+        seen.add(to);
+        return !ctx.isVerified!(to);
+      })
+      .map((e) => ({
+        rule: "delegatecall-unverified",
+        severity: "high" as const,
+        title: "DELEGATECALL into unverified code",
+        detail: `${e.from ?? "A contract"} runs code from ${e.to} with its own storage and funds, and that code has no known source.`,
+        address: e.to,
+      }));
+  },
+};
+
+const PRIVILEGED_SIGNATURES = [
+  "transferOwnership(address)",
+  "renounceOwnership()",
+  "acceptOwnership()",
+  "grantRole(bytes32,address)",
+  "revokeRole(bytes32,address)",
+  "renounceRole(bytes32,address)",
+  "upgradeTo(address)",
+  "upgradeToAndCall(address,bytes)",
+  "changeAdmin(address)",
+];
+
+const PRIVILEGED_SELECTORS = new Map(
+  PRIVILEGED_SIGNATURES.map((s) => [toFunctionSelector(s), s.split("(")[0]])
+);
+
+const privilegedCalls: RiskRule = {
+  id: "privileged-call",
+  check: (result) =>
+    (result.trace ?? []).flatMap((e) => {
+      const selector = selectorOf(e);
+      const name =
+        (selector && PRIVILEGED_SELECTORS.get(selector)) ??
+        [...PRIVILEGED_SELECTORS.values()].find((n) => n === methodName(e));
+      if (!name) return [];
+      const upgrade = name.startsWith("upgrade") || name === "changeAdmin";
+      return [
+        {
+          rule: "privileged-call",
+          severity: upgrade ? ("critical" as const) : ("high" as const),
+          title: upgrade ? `Proxy upgrade (${name})` : `Access change (${name})`,
+          detail: upgrade
+            ? `Replaces the code behind ${e.to ?? "a proxy"}.`
+            : `Changes who controls ${e.to ?? "a contract"}.`,
+          address: e.to,
+        },
+      ];
+    }),
+};
+
+const selfDestructs: RiskRule = {
+  id: "selfdestruct",
+  check: (result) =>
+    (result.trace ?? [])
+      .filter((e) => /^SELFDESTRUCT$/i.test(e.type ?? ""))
+      .map((e) => ({
+        rule: "selfdestruct",
+        severity: "critical" as const,
+        title: "SELFDESTRUCT",
+        detail: `${e.from ?? "A contract"} self-destructs and sends its balance to ${
+          e.to ?? "?"
+        }.`,
+        address: e.from,
+      })),
+};
+
+export const RISK_RULES: RiskRule[] = [
+  selfDestructs,
+  privilegedCalls,
+  unlimitedApprovals,
+  approvalForAll,
+  delegatecallsToUnverified,
+  largeTransfers,
+  callsToEoas,
+];
+
+/** All findings for `result`, most severe first. */
+export function analyzeSimulationRisk(
+  result: TenderlySimulateResult,
+  ctx: RiskContext = {},
+  rules: RiskRule[] = RISK_RULES
+): RiskFinding[] {
+  return rules
+    .flatMap((rule) => rule.check(result, ctx))
+    .sort(
+      (a, b) =>
+        RISK_SEVERITY_ORDER.indexOf(a.severity) -
+        RISK_SEVERITY_ORDER.indexOf(b.severity)
+    );
+}
+
+/**
+ * Addresses the trace shows running code: callers below the top frame, and
+ * callees that made calls or returned data. This catches code from state
+ * overrides and EIP-7702 delegations, which a lookup on chain misses.
+ */
+function tracedCodeAddresses(result: TenderlySimulateResult) {
+  const running = new Set<string>();
+  (result.trace ?? []).forEach((e, i) => {
+    const from = lower(e.from);
+    const to = lower(e.to);
+    if (i > 0 && from) running.add(from);
+    const returned = typeof e.output === "string" && e.output.length > 2;
+    if (to && (returned || (e.subtraces ?? 0) > 0)) running.add(to);
+  });
+  return running;
+}
+
+/** Addresses whose code `callsToEoas` needs to know about. */
+export function riskCallTargets(result: TenderlySimulateResult): string[] {
+  const created = new Set(
+    (result.trace ?? [])
+      .filter((e) => /^CREATE2?$/i.test(e.type ?? ""))
+      .map((e) => lower(e.to))
+  );
+  const running = tracedCodeAddresses(result);
+  const targets = new Set<string>();
+  for (const e of result.trace ?? []) {
+    const to = lower(e.to);
+    if (
+      to &&
+      !created.has(to) &&
+      !running.has(to) &&
+      !isPrecompile(to) &&
+      typeof e.input === "string" &&
+      e.input.length > 2
+    ) {
+      targets.add(to);
+    }
+  }
+  return [...targets];
+}
+
+/** Tokens (lowercased, or "native") the sender sends out, for `senderBalances`. */
+export function riskOutgoingAssets(
+  result: TenderlySimulateResult,
+  sender: string
+): string[] {
+  const keys = new Set<string>();
+  for (const change of result.assetChanges ?? []) {
+    if (lower(change.from) !== lower(sender)) continue;
+    const info = change.assetInfo as
+      | { contractAddress?: string; standard?: string }
+      | undefined;
+    if (info?.standard === "ERC721") continue;
+    keys.add(lower(info?.contractAddress) ?? "native");
+  }
+  return [...keys];
+}
@@ -0,0 +1,554 @@
+import type { Hex } from "viem";
+import {
+  decodeErrorResult,
+  decodeEventLog,
+  decodeFunctionResult,
+  encodeFunctionData,
+  erc20Abi,
+  formatUnits,
+  isHex,
+  numberToHex,
+  parseAbi,
+} from "viem";
+
+import type {
+  TenderlyAssetChange,
+  TenderlyExposureChange,
+  TenderlyLog,
+  TenderlySimulateResult,
+  TenderlyStateChange,
+  TenderlyTraceEntry,
+} from "@/lib/tenderly";
+import type {
+  TenderlySimulateApiRequest,
+  TenderlyStateObjects,
+} from "@/lib/tenderlyApi";
+import { toRpcStateOverrides } from "@/lib/stateOverrides";
+import { toRpcAccessList } from "@/lib/accessList";
+
+/**
+ * Simulation against a user-provided JSON-RPC node (e.g. `anvil --fork-url …`).
+ *
+ * Runs `eth_call` plus `debug_traceCall` with `callTracer` (with logs) and
+ * `prestateTracer` in diff mode, then maps the output onto `TenderlySimulateResult`
+ * so the dashboard views render it unchanged. Nothing is persisted.
+ */
+
+type RpcError = { code: number; message: string; data?: unknown };
+
+type CallFrame = {
+  type?: string;
+  from?: string;
+  to?: string;
+  value?: Hex;
+  gas?: Hex;
+  gasUsed?: Hex;
+  input?: Hex;
+  output?: Hex;
+  error?: string;
+  revertReason?: string;
+  calls?: CallFrame[];
+  logs?: Array<{ address: string; topics: Hex[]; data: Hex; position?: Hex }>;
+};
+
+type PrestateAccount = {
+  balance?: Hex;
+  nonce?: number;
+  code?: Hex;
+  storage?: Record<string, Hex>;
+};
+
+type PrestateDiff = {
+  pre: Record<string, PrestateAccount>;
+  post: Record<string, PrestateAccount>;
+};
+
+export class RpcRequestError extends Error {
+  code: number;
+  data?: unknown;
+  constructor(error: RpcError) {
+    super(error.message);
+    this.name = "RpcRequestError";
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+let rpcId = 0;
+
+export async function rpcRequest<T>(
+  url: string,
+  method: string,
+  params: unknown[]
+): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: ++rpcId, method, params }),
+    });
+  } catch {
+    throw new Error(`Could not reach RPC at ${url}`);
+  }
+  let body: { result?: T; error?: RpcError } | undefined;
+  try {
+    body = await res.json();
+  } catch {
+    body = undefined;
+  }
+  if (body?.error) throw new RpcRequestError(body.error);
+  if (!res.ok || !body || !("result" in body)) {
+    throw new Error(`${method} failed (${res.status})`);
+  }
+  return body.result as T;
+}
+
+const ZERO_WORD = `0x${"0".repeat(64)}` as Hex;
+
+const erc20MetadataAbi = parseAbi([
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+]);
+
+/** `Error(string)` / `Panic(uint256)` revert data from an `eth_call` error. */
+function decodeRevertData(data: unknown): string | undefined {
+  if (typeof data !== "string" || !isHex(data) || data.length < 10) {
+    return undefined;
+  }
+  try {
+    const { errorName, args } = decodeErrorResult({ abi: [], data });
+    return errorName === "Error"
+      ? String(args?.[0])
+      : `${errorName}(${(args ?? []).join(", ")})`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Depth-first flattening into Tenderly-style entries with `traceAddress`. */
+function flattenCallFrames(root: CallFrame): TenderlyTraceEntry[] {
+  const out: TenderlyTraceEntry[] = [];
+  const visit = (frame: CallFrame, traceAddress: number[]) => {
+    out.push({
+      type: frame.type,
+      from: frame.from,
+      to: frame.to,
+      gas: frame.gas,
+      gasUsed: frame.gasUsed,
+      value: frame.value,
+      input: frame.input,
+      output: frame.output,
+      subtraces: frame.calls?.length ?? 0,
+      traceAddress,
+      error: frame.revertReason ?? frame.error,
+    });
+    frame.calls?.forEach((child, i) => visit(child, [...traceAddress, i]));
+  };
+  visit(root, []);
+  return out;
+}
+
+/**
+ * Logs in execution order. `position` is the number of child calls made before
+ * the log was emitted; reverted frames' logs are dropped.
+ */
+function collectLogs(frame: CallFrame): TenderlyLog[] {
+  if (frame.error) return [];
+  const logs = [...(frame.logs ?? [])].sort(
+    (a, b) => Number(a.position ?? 0) - Number(b.position ?? 0)
+  );
+  const calls = frame.calls ?? [];
+  const out: TenderlyLog[] = [];
+  let nextCall = 0;
+  for (const log of logs) {
+    const position = Number(log.position ?? calls.length);
+    while (nextCall < Math.min(position, calls.length)) {
+      out.push(...collectLogs(calls[nextCall++]));
+    }
+    out.push({
+      raw: { address: log.address, topics: log.topics, data: log.data },
+    });
+  }
+  while (nextCall < calls.length) out.push(...collectLogs(calls[nextCall++]));
+  return out;
+}
+
+/** ERC20 Transfer/Approval are decoded here; the rest is left for the registry. */
+function decodeKnownLog(log: TenderlyLog): TenderlyLog {
+  const topics = (log.raw?.topics ?? []) as Hex[];
+  if (topics.length !== 3) return log;
+  try {
+    const decoded = decodeEventLog({
+      abi: erc20Abi,
+      topics: topics as [Hex, ...Hex[]],
+      data: (log.raw?.data ?? "0x") as Hex,
+    });
+    const args = decoded.args as Record<string, unknown>;
+    return {
+      ...log,
+      name: decoded.eventName,
+      inputs: Object.entries(args).map(([name, value]) => ({
+        name,
+        type: typeof value === "bigint" ? "uint256" : "address",
+        value: typeof value === "bigint" ? value.toString() : value,
+      })),
+    };
+  } catch {
+    return log;
+  }
+}
+
+function toStateChanges(diff: PrestateDiff): TenderlyStateChange[] {
+  const addresses = new Set([
+    ...Object.keys(diff.pre ?? {}),
+    ...Object.keys(diff.post ?? {}),
+  ]);
+  const out: TenderlyStateChange[] = [];
+  for (const address of addresses) {
+    const pre = diff.pre?.[address] ?? {};
+    const post = diff.post?.[address];
+    const change: TenderlyStateChange = { address };
+
+    // Accounts missing from `post` were destroyed.
+    const newBalance = post ? post.balance : "0x0";
+    if (newBalance !== undefined && newBalance !== pre.balance) {
+      change.balance = {
+        previousValue: pre.balance ?? "0x0",
+        newValue: newBalance,
+      };
+    }
+    if (post?.nonce !== undefined && post.nonce !== pre.nonce) {
+      change.nonce = {
+        previousValue: numberToHex(pre.nonce ?? 0),
+        newValue: numberToHex(post.nonce),
+      };
+    }
+    const slots = new Set([
+      ...Object.keys(pre.storage ?? {}),
+      ...Object.keys(post?.storage ?? {}),
+    ]);
+    const storage = [...slots]
+      .map((slot) => ({
+        slot,
+        previousValue: pre.storage?.[slot] ?? ZERO_WORD,
+        newValue: post?.storage?.[slot] ?? ZERO_WORD,
+      }))
+      .filter((s) => s.previousValue !== s.newValue);
+    if (storage.length) change.storage = storage;
+
+    if (change.balance || change.nonce || change.storage) out.push(change);
+  }
+  return out;
+}
+
+type TokenInfo = { symbol?: string; decimals?: number };
+
+async function readTokenInfo(
+  url: string,
+  token: string,
+  block: string
+): Promise<TokenInfo> {
+  const call = async (functionName: "symbol" | "decimals") => {
+    const data = encodeFunctionData({ abi: erc20MetadataAbi, functionName });
+    const result = await rpcRequest<Hex>(url, "eth_call", [
+      { to: token, data },
+      block,
+    ]);
+    return decodeFunctionResult({
+      abi: erc20MetadataAbi,
+      functionName,
+      data: result,
+    });
+  };
+  const [symbol, decimals] = await Promise.allSettled([
+    call("symbol"),
+    call("decimals"),
+  ]);
+  return {
+    symbol: symbol.status === "fulfilled" ? String(symbol.value) : undefined,
+    decimals:
+      decimals.status === "fulfilled" ? Number(decimals.value) : undefined,
+  };
+}
+
+async function toAssetChanges(
+  url: string,
+  block: string,
+  trace: TenderlyTraceEntry[],
+  logs: TenderlyLog[]
+): Promise<{
+  assetChanges: TenderlyAssetChange[];
+  exposureChanges: TenderlyExposureChange[];
+}> {
+  const tokens = new Set<string>();
+  for (const log of logs) {
+    if (log.name === "Transfer" || log.name === "Approval") {
+      const address = log.raw?.address?.toLowerCase();
+      if (address) tokens.add(address);
+    }
+  }
+  const infos = new Map<string, TokenInfo>();
+  await Promise.all(
+    [...tokens].map(async (token) =>
+      infos.set(token, await readTokenInfo(url, token, block))
+    )
+  );
+
+  const format = (raw: string, decimals?: number) =>
+    decimals !== undefined ? formatUnits(BigInt(raw), decimals) : raw;
+
+  const assetChanges: TenderlyAssetChange[] = [];
+  // Native value moved by successful frames.
+  for (const entry of trace) {
+    if (entry.error || entry.type === "DELEGATECALL") continue;
+    const value = typeof entry.value === "string" ? BigInt(entry.value) : 0n;
+    if (value <= 0n) continue;
+    assetChanges.push({
+      type: "Transfer",
+      from: entry.from,
+      to: entry.to,
+      rawAmount: numberToHex(value),
+      amount: formatUnits(value, 18),
+      assetInfo: { standard: "NativeCurrency", symbol: "ETH", decimals: 18 },
+    });
+  }
+
+  const exposureChanges: TenderlyExposureChange[] = [];
+  for (const log of logs) {
+    const token = log.raw?.address;
+    if (!token) continue;
+    const args = Object.fromEntries(
+      (log.inputs ?? []).map((p) => [p.name, p.value])
+    ) as Record<string, string>;
+    const info = infos.get(token.toLowerCase());
+    const assetInfo = {
+      standard: "ERC20",
+      contractAddress: token,
+      symbol: info?.symbol,
+      decimals: info?.decimals,
+    };
+    if (log.name === "Transfer") {
+      assetChanges.push({
+        type: "Transfer",
+        from: args.from,
+        to: args.to,
+        rawAmount: args.value,
+        amount: format(args.value, info?.decimals),
+        assetInfo,
+      });
+    } else if (log.name === "Approval") {
+      exposureChanges.push({
+        type: "Approve",
+        owner: args.owner,
+        spender: args.spender,
+        rawAmount: args.value,
+        amount: format(args.value, info?.decimals),
+        assetInfo,
+      });
+    }
+  }
+  return { assetChanges, exposureChanges };
+}
+
+function toHexQuantity(value: string | number | undefined) {
+  if (value === undefined || value === "") return undefined;
+  return numberToHex(BigInt(value));
+}
+
+function toRpcCall(req: TenderlySimulateApiRequest) {
+  return {
+    from: req.from,
+    to: req.to,
+    data: req.input || "0x",
+    value: toHexQuantity(req.value),
+    gas: toHexQuantity(req.gas),
+    accessList: toRpcAccessList(req.access_list),
+  };
+}
+
+export async function rpcSimulate(
+  rpcUrl: string,
+  req: TenderlySimulateApiRequest
+): Promise<TenderlySimulateResult> {
+  const url = rpcUrl.trim();
+  if (!url) throw new Error("Set an RPC URL for local simulation");
+  if (req.transaction_index !== undefined) {
+    throw new Error(
+      "Local RPC can't simulate mid-block; clear the transaction index"
+    );
+  }
+
+  const rpcChainId = Number(BigInt(await rpcRequest<Hex>(url, "eth_chainId", [])));
+  if (String(rpcChainId) !== req.network_id) {
+    throw new Error(
+      `RPC is on chain ${rpcChainId}, but the transaction targets chain ${req.network_id}`
+    );
+  }
+
+  const block =
+    typeof req.block_number === "number"
+      ? numberToHex(req.block_number)
+      : "latest";
+  const call = toRpcCall(req);
+  const stateOverrides = toRpcStateOverrides(req.state_objects);
+
+  const [callResult, frame, prestate, blockNumber] = await Promise.all([
+    rpcRequest<Hex>(
+      url,
+      "eth_call",
+      stateOverrides ? [call, block, stateOverrides] : [call, block]
+    ).then(
+      (output) => ({ output, error: undefined as string | undefined }),
+      (e: unknown) => ({
+        output: undefined,
+        error:
+          (e instanceof RpcRequestError ? decodeRevertData(e.data) : undefined) ??
+          (e instanceof Error ? e.message : "eth_call failed"),
+      })
+    ),
+    rpcRequest<CallFrame>(url, "debug_traceCall", [
+      call,
+      block,
+      {
+        tracer: "callTracer",
+        tracerConfig: { withLog: true },
+        stateOverrides,
+      },
+    ]),
+    rpcRequest<PrestateDiff>(url, "debug_traceCall", [
+      call,
+      block,
+      {
+        tracer: "prestateTracer",
+        tracerConfig: { diffMode: true },
+        stateOverrides,
+      },
+    ]).catch(() => undefined),
+    block === "latest"
+      ? rpcRequest<Hex>(url, "eth_blockNumber", [])
+      : Promise.resolve(block as Hex),
+  ]);
+
+  const trace = flattenCallFrames(frame);
+  const logs = collectLogs(frame).map(decodeKnownLog);
+  const status = !frame.error;
+  const { assetChanges, exposureChanges } = await toAssetChanges(
+    url,
+    blockNumber,
+    trace,
+    logs
+  );
+
+  return {
+    backend: "rpc",
+    status,
+    gasUsed: frame.gasUsed,
+    blockNumber,
+    trace,
+    logs,
+    stateChanges: prestate ? toStateChanges(prestate) : [],
+    assetChanges,
+    exposureChanges,
+    balanceChanges: [],
+    errorMessage: status
+      ? undefined
+      : frame.revertReason ?? callResult.error ?? frame.error,
+  };
+}
+
+/** Dev-node cheatcodes are namespaced `anvil_*` or `hardhat_*`; try both. */
+async function devNodeRequest(url: string, method: string, params: unknown[]) {
+  try {
+    return await rpcRequest<unknown>(url, `anvil_${method}`, params);
+  } catch {
+    return await rpcRequest<unknown>(url, `hardhat_${method}`, params);
+  }
+}
+
+/** Writes Tenderly-style overrides into the dev node's state for real. */
+async function applyStateObjects(url: string, stateObjects: TenderlyStateObjects) {
+  for (const [address, o] of Object.entries(stateObjects)) {
+    if (o.balance !== undefined) {
+      await devNodeRequest(url, "setBalance", [
+        address,
+        numberToHex(BigInt(o.balance)),
+      ]);
+    }
+    if (o.nonce !== undefined) {
+      await devNodeRequest(url, "setNonce", [address, numberToHex(o.nonce)]);
+    }
+    if (o.code !== undefined) {
+      await devNodeRequest(url, "setCode", [address, o.code]);
+    }
+    for (const [slot, value] of Object.entries(o.storage ?? {})) {
+      await devNodeRequest(url, "setStorageAt", [address, slot, value]);
+    }
+  }
+}
+
+/** Mines `req` for real (from an impersonated sender, with no fee) so later steps see its state. */
+async function commitStep(url: string, req: TenderlySimulateApiRequest) {
+  await devNodeRequest(url, "impersonateAccount", [req.from]);
+  try {
+    await devNodeRequest(url, "setNextBlockBaseFeePerGas", ["0x0"]);
+    const hash = await rpcRequest<Hex>(url, "eth_sendTransaction", [
+      { ...toRpcCall(req), gasPrice: "0x0" },
+    ]);
+    const receipt = await rpcRequest<unknown>(url, "eth_getTransactionReceipt", [
+      hash,
+    ]);
+    // anvil and hardhat automine by default; mine by hand if that's off.
+    if (!receipt) await rpcRequest<unknown>(url, "evm_mine", []);
+  } finally {
+    await devNodeRequest(url, "stopImpersonatingAccount", [req.from]).catch(
+      () => undefined
+    );
+  }
+}
+
+/**
+ * Runs `reqs` in order with shared state on a dev node (anvil or hardhat). Each
+ * step is traced with `rpcSimulate` and then mined so the next step builds on it.
+ * Reverted steps are not mined, and state overrides are written into the node.
+ * A snapshot taken up front is reverted at the end,
+ * so the fork is left as it was.
+ */
+export async function rpcSimulateBundle(
+  rpcUrl: string,
+  reqs: TenderlySimulateApiRequest[]
+): Promise<TenderlySimulateResult[]> {
+  const url = rpcUrl.trim();
+  if (!url) throw new Error("Set an RPC URL for local simulation");
+  if (!reqs.length) return [];
+  if (reqs.some((r) => typeof r.block_number === "number")) {
+    throw new Error(
+      "Local RPC bundles run on the node's latest block; clear the block number"
+    );
+  }
+
+  let snapshot: Hex;
+  try {
+    snapshot = await rpcRequest<Hex>(url, "evm_snapshot", []);
+  } catch {
+    throw new Error(
+      "Bundles on a local RPC need a dev node with evm_snapshot (anvil or hardhat)"
+    );
+  }
+
+  const results: TenderlySimulateResult[] = [];
+  try {
+    for (const [i, req] of reqs.entries()) {
+      // Overrides must outlive this step, so write them instead of passing them.
+      if (req.state_objects) await applyStateObjects(url, req.state_objects);
+      const result = await rpcSimulate(url, { ...req, state_objects: undefined });
+      results.push(result);
+      if (result.status && i < reqs.length - 1) await commitStep(url, req);
+    }
+  } finally {
+    await rpcRequest<boolean>(url, "evm_revert", [snapshot]).catch(
+      () => undefined
+    );
+  }
+  return results;
+}
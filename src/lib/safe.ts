@@ -0,0 +1,294 @@
+import {
+  concat,
+  encodeFunctionData,
+  getAddress,
+  hashTypedData,
+  numberToHex,
+  pad,
+  parseAbi,
+  zeroAddress,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+
+import type { TenderlyStateObjects } from "@/lib/tenderlyApi";
+
+/**
+ * Safe (Gnosis Safe) proposal mode: the form becomes a `SafeTx` that owners
+ * sign off-chain (EIP-712) and someone later executes with `execTransaction`.
+ *
+ * Only Safes from v1.3.0 are supported; older versions hash without a chain id.
+ */
+export const SAFE_ABI = parseAbi([
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function nonce() view returns (uint256)",
+  "function VERSION() view returns (string)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)",
+]);
+
+export type SafeOperation = 0 | 1;
+
+export const SAFE_OPERATION_LABELS: Record<SafeOperation, string> = {
+  0: "Call",
+  1: "Delegate call",
+};
+
+/** Proposal settings persisted with the form. */
+export type SafeModeSettings = {
+  enabled: boolean;
+  safe: string;
+  operation: SafeOperation;
+  /** Blank uses the Safe's current nonce. */
+  nonce: string;
+  /** Blank uses the network's public Safe Transaction Service. */
+  serviceUrl: string;
+};
+
+export const DEFAULT_SAFE_MODE: SafeModeSettings = {
+  enabled: false,
+  safe: "",
+  operation: 0,
+  nonce: "",
+  serviceUrl: "",
+};
+
+export type SafeInfo = {
+  address: Address;
+  owners: Address[];
+  threshold: number;
+  nonce: bigint;
+  version: string;
+};
+
+export async function readSafeInfo(
+  client: PublicClient,
+  safe: Address
+): Promise<SafeInfo> {
+  const read = <T>(functionName: "getOwners" | "getThreshold" | "nonce" | "VERSION") =>
+    client.readContract({
+      address: safe,
+      abi: SAFE_ABI,
+      functionName,
+    }) as Promise<T>;
+
+  let info;
+  try {
+    const [owners, threshold, nonce, version] = await Promise.all([
+      read<readonly Address[]>("getOwners"),
+      read<bigint>("getThreshold"),
+      read<bigint>("nonce"),
+      read<string>("VERSION"),
+    ]);
+    info = { owners: [...owners], threshold: Number(threshold), nonce, version };
+  } catch {
+    throw new Error(`${safe} is not a Safe on this network`);
+  }
+
+  const [major, minor] = info.version.split(".").map(Number);
+  if (major < 1 || (major === 1 && minor < 3)) {
+    throw new Error(`Safe v${info.version} isn't supported (needs v1.3.0+)`);
+  }
+  return { address: safe, ...info };
+}
+
+export type SafeTx = {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  operation: SafeOperation;
+  safeTxGas: bigint;
+  baseGas: bigint;
+  gasPrice: bigint;
+  gasToken: Address;
+  refundReceiver: Address;
+  nonce: bigint;
+};
+
+/** A `SafeTx` without gas refunds, which is what the Safe apps propose. */
+export function buildSafeTx(fields: {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  operation: SafeOperation;
+  nonce: bigint;
+}): SafeTx {
+  return {
+    ...fields,
+    safeTxGas: 0n,
+    baseGas: 0n,
+    gasPrice: 0n,
+    gasToken: zeroAddress,
+    refundReceiver: zeroAddress,
+  };
+}
+
+const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+/** EIP-712 payload for `signTypedData`. */
+export function safeTxTypedData(chainId: number, safe: Address, tx: SafeTx) {
+  return {
+    domain: { chainId, verifyingContract: safe },
+    types: SAFE_TX_TYPES,
+    primaryType: "SafeTx" as const,
+    message: tx,
+  };
+}
+
+export function safeTxHash(chainId: number, safe: Address, tx: SafeTx): Hex {
+  return hashTypedData(safeTxTypedData(chainId, safe, tx));
+}
+
+/**
+ * "Pre-validated" signature: accepted for `owner` when `owner` itself calls
+ * `execTransaction`, with no actual signature.
+ */
+export function approvedHashSignature(owner: Address): Hex {
+  return concat([pad(owner), pad("0x0"), "0x01"]);
+}
+
+export function encodeExecTransaction(tx: SafeTx, signatures: Hex): Hex {
+  return encodeFunctionData({
+    abi: SAFE_ABI,
+    functionName: "execTransaction",
+    args: [
+      tx.to,
+      tx.value,
+      tx.data,
+      tx.operation,
+      tx.safeTxGas,
+      tx.baseGas,
+      tx.gasPrice,
+      tx.gasToken,
+      tx.refundReceiver,
+      signatures,
+    ],
+  });
+}
+
+/** Storage slot of `threshold` in Safe v1.x (`OwnerManager`). */
+const SAFE_THRESHOLD_SLOT = numberToHex(4, { size: 32 });
+
+/**
+ * `stateObjects` plus a threshold of 1 on `safe`, so one owner calling
+ * `execTransaction` can execute without the other signatures.
+ */
+export function withSafeThresholdOverride(
+  stateObjects: TenderlyStateObjects | undefined,
+  safe: Address
+): TenderlyStateObjects {
+  const key = safe.toLowerCase();
+  const existing =
+    Object.entries(stateObjects ?? {}).find(
+      ([address]) => address.toLowerCase() === key
+    )?.[1] ?? {};
+  const rest = Object.fromEntries(
+    Object.entries(stateObjects ?? {}).filter(
+      ([address]) => address.toLowerCase() !== key
+    )
+  );
+  return {
+    ...rest,
+    [key]: {
+      ...existing,
+      storage: {
+        ...existing.storage,
+        [SAFE_THRESHOLD_SLOT]: numberToHex(1, { size: 32 }),
+      },
+    },
+  };
+}
+
+/**
+ * Signed proposal in the Safe Transaction Service's `multisig-transactions`
+ * shape (numbers as decimal strings), plus `safe` and `chainId` so the file
+ * is self-contained.
+ */
+export type SafeProposal = {
+  safe: Address;
+  chainId: number;
+  to: Address;
+  value: string;
+  data: Hex | null;
+  operation: SafeOperation;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: Address;
+  refundReceiver: Address;
+  nonce: string;
+  contractTransactionHash: Hex;
+  sender: Address;
+  signature: Hex;
+  origin: string;
+};
+
+export function toSafeProposal(
+  chainId: number,
+  safe: Address,
+  tx: SafeTx,
+  sender: Address,
+  signature: Hex
+): SafeProposal {
+  return {
+    safe: getAddress(safe),
+    chainId,
+    to: getAddress(tx.to),
+    value: tx.value.toString(),
+    data: tx.data === "0x" ? null : tx.data,
+    operation: tx.operation,
+    safeTxGas: tx.safeTxGas.toString(),
+    baseGas: tx.baseGas.toString(),
+    gasPrice: tx.gasPrice.toString(),
+    gasToken: tx.gasToken,
+    refundReceiver: tx.refundReceiver,
+    nonce: tx.nonce.toString(),
+    contractTransactionHash: safeTxHash(chainId, safe, tx),
+    sender: getAddress(sender),
+    signature,
+    origin: "Execute Onchain",
+  };
+}
+
+/** Delivers a signed proposal somewhere other owners can pick it up. */
+export type SafeProposalSubmitter = (proposal: SafeProposal) => Promise<void>;
+
+/**
+ * Submitter for a Safe Transaction Service at `baseUrl`: the public service or
+ * anything that serves the same `POST /api/v1/safes/{safe}/multisig-transactions/`.
+ */
+export function safeServiceSubmitter(baseUrl: string): SafeProposalSubmitter {
+  return async (proposal) => {
+    const { safe, chainId: _chainId, ...body } = proposal;
+    const res = await fetch(
+      `${baseUrl.replace(/\/+$/, "")}/api/v1/safes/${safe}/multisig-transactions/`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }
+    );
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new Error(
+        `Safe Transaction Service returned ${res.status}${
+          text ? `: ${text.slice(0, 200)}` : ""
+        }`
+      );
+    }
+  };
+}
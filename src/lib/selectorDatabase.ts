@@ -0,0 +1,52 @@
+import type { Hex } from "viem";
+import { toFunctionSelector } from "viem";
+
+import selectorsAssetUrl from "@/assets/selectors.txt?gzip";
+
+/**
+ * Offline 4byte-style selector database.
+ *
+ * The asset is a curated list of canonical signatures
+ * (`src/assets/selectors.txt`), gzipped by the build and fetched on first use.
+ * Selectors are derived on load, so the list can't drift from its hashes.
+ * Several signatures may share a selector.
+ */
+export type SelectorDatabase = ReadonlyMap<Hex, readonly string[]>;
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+async function readAssetText(res: Response) {
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  // Some static hosts already decode `.gz` via Content-Encoding.
+  if (bytes[0] !== GZIP_MAGIC[0] || bytes[1] !== GZIP_MAGIC[1]) {
+    return new TextDecoder().decode(bytes);
+  }
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return await new Response(stream).text();
+}
+
+export function buildSelectorDatabase(text: string): SelectorDatabase {
+  const db = new Map<Hex, string[]>();
+  for (const line of text.split("\n")) {
+    const signature = line.trim();
+    if (!signature || signature.startsWith("#")) continue;
+    const selector = toFunctionSelector(signature);
+    const existing = db.get(selector);
+    if (existing) {
+      if (!existing.includes(signature)) existing.push(signature);
+    } else {
+      db.set(selector, [signature]);
+    }
+  }
+  return db;
+}
+
+export async function loadSelectorDatabase(): Promise<SelectorDatabase> {
+  const res = await fetch(selectorsAssetUrl);
+  if (!res.ok) {
+    throw new Error(`Selector database failed to load (${res.status})`);
+  }
+  return buildSelectorDatabase(await readAssetText(res));
+}
@@ -0,0 +1,112 @@
+import { keccak256, stringToHex, type Hex } from "viem";
+
+import type { AuthorizationDraft } from "@/lib/eip7702";
+
+/**
+ * Simulate-before-send policy. Sends are compared with the last successful
+ * simulation by fingerprinting the fields that decide what the tx does.
+ */
+export type SendGateMode = "off" | "warn" | "block";
+
+export type SendGatePolicy = {
+  mode: SendGateMode;
+  /** Simulations older than this many blocks count as stale. */
+  maxAgeBlocks: string;
+};
+
+export const DEFAULT_SEND_GATE_POLICY: SendGatePolicy = {
+  mode: "off",
+  maxAgeBlocks: "20",
+};
+
+export const SEND_GATE_MODE_LABELS: Record<SendGateMode, string> = {
+  off: "Off",
+  warn: "Warn if unsimulated",
+  block: "Require a matching simulation",
+};
+
+export type SendTuple = {
+  chainId: number;
+  from?: string;
+  to?: string;
+  data: string;
+  value: bigint;
+  /** Gas limit; `undefined` leaves it to the wallet. */
+  gas?: bigint;
+  /** EIP-7702 authorizations; signing one after simulating counts as a change. */
+  authorizations?: readonly AuthorizationDraft[];
+};
+
+export function fingerprintSend(tuple: SendTuple): Hex {
+  return keccak256(
+    stringToHex(
+      JSON.stringify([
+        tuple.chainId,
+        tuple.from?.toLowerCase() ?? "",
+        tuple.to?.toLowerCase() ?? "",
+        (tuple.data || "0x").toLowerCase(),
+        tuple.value.toString(),
+        tuple.gas?.toString() ?? "",
+        (tuple.authorizations ?? []).map((a) => [
+          a.contract.trim().toLowerCase(),
+          a.chainId.trim(),
+          a.nonce.trim(),
+          a.signed?.r ?? "",
+          a.signed?.s ?? "",
+        ]),
+      ])
+    )
+  );
+}
+
+/** What the gate remembers about the last successful single simulation. */
+export type SimulatedSend = {
+  fingerprint: Hex;
+  blockNumber?: bigint;
+  /**
+   * The simulation changed state the real transaction won't: overrides, or
+   * delegations beyond what the authorization list installs.
+   */
+  overriddenState?: boolean;
+};
+
+/**
+ * Reasons the current form isn't covered by `simulated`; empty when it is.
+ * `currentBlock` is skipped when the chain head couldn't be read.
+ */
+export function checkSendGate(
+  policy: SendGatePolicy,
+  simulated: SimulatedSend | null,
+  current: SendTuple,
+  currentBlock?: bigint
+): string[] {
+  if (!simulated) return ["This transaction hasn't been simulated successfully."];
+
+  const problems: string[] = [];
+  if (simulated.fingerprint !== fingerprintSend(current)) {
+    problems.push(
+      "The form changed since the last simulation (network, sender, destination, calldata, value, gas or authorizations)."
+    );
+  }
+  if (simulated.overriddenState) {
+    problems.push(
+      "The simulation ran against overridden state; the real transaction sees the chain as it is."
+    );
+  }
+  const maxAge = /^\d+$/.test(policy.maxAgeBlocks.trim())
+    ? BigInt(policy.maxAgeBlocks.trim())
+    : undefined;
+  if (
+    maxAge !== undefined &&
+    currentBlock !== undefined &&
+    simulated.blockNumber !== undefined &&
+    currentBlock - simulated.blockNumber > maxAge
+  ) {
+    problems.push(
+      `The simulation ran ${
+        currentBlock - simulated.blockNumber
+      } blocks ago (limit ${maxAge}).`
+    );
+  }
+  return problems;
+}
@@ -0,0 +1,103 @@
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+import {
+  tenderlySimulateAndSave,
+  tenderlySimulateBundle,
+  type TenderlySimulateApiRequest,
+} from "@/lib/tenderlyApi";
+import {
+  isTenderlySupportedChainId,
+  requireTenderlyNetworkId,
+} from "@/lib/chains";
+import { rpcSimulate, rpcSimulateBundle } from "@/lib/rpcSimulation";
+import {
+  TENDERLY_RPC_CHAIN_ID,
+  tenderlyRpcSimulateBundle,
+  tenderlyRpcSimulateTransaction,
+} from "@/lib/tenderlyRpc";
+
+/**
+ * A place simulations can run. Every backend takes the Tenderly request shape (it
+ * is what the form, history and JSON import already speak) and returns a
+ * `TenderlySimulateResult`, so the dashboard doesn't care which one ran.
+ */
+export interface SimulationBackend {
+  id: SimulationBackendId;
+  label: string;
+  /** Results are saved remotely and show up in Recent Activity. */
+  persists: boolean;
+  supportsChain: (chainId: number) => boolean;
+  simulate: (req: TenderlySimulateApiRequest) => Promise<TenderlySimulateResult>;
+  /** Runs `reqs` in order, each step on top of the previous steps' state. */
+  simulateBundle: (
+    reqs: TenderlySimulateApiRequest[]
+  ) => Promise<TenderlySimulateResult[]>;
+}
+
+export type SimulationBackendId = "tenderly" | "tenderly-quick" | "rpc";
+
+export type SimulationBackendSettings = {
+  backend: SimulationBackendId;
+  rpcUrl: string;
+};
+
+export const DEFAULT_SIMULATION_RPC_URL = "http://127.0.0.1:8545";
+
+export const SIMULATION_BACKEND_LABELS: Record<SimulationBackendId, string> = {
+  tenderly: "Tenderly",
+  "tenderly-quick": "Tenderly RPC (quick, unsaved)",
+  rpc: "Local RPC",
+};
+
+export const tenderlyBackend: SimulationBackend = {
+  id: "tenderly",
+  label: SIMULATION_BACKEND_LABELS.tenderly,
+  persists: true,
+  supportsChain: isTenderlySupportedChainId,
+  simulate: (req) =>
+    tenderlySimulateAndSave({
+      ...req,
+      network_id: requireTenderlyNetworkId(req.network_id),
+    }),
+  simulateBundle: (reqs) =>
+    tenderlySimulateBundle(
+      reqs.map((req) => ({
+        ...req,
+        network_id: requireTenderlyNetworkId(req.network_id),
+      }))
+    ),
+};
+
+/** Same engine over the Tenderly node RPC: faster, no dashboard entry. */
+export const tenderlyQuickBackend: SimulationBackend = {
+  id: "tenderly-quick",
+  label: SIMULATION_BACKEND_LABELS["tenderly-quick"],
+  persists: false,
+  supportsChain: (chainId) => chainId === TENDERLY_RPC_CHAIN_ID,
+  simulate: tenderlyRpcSimulateTransaction,
+  simulateBundle: tenderlyRpcSimulateBundle,
+};
+
+/** Any chain works; `rpcSimulate` checks the node's chain id at call time. */
+export function createRpcBackend(rpcUrl: string): SimulationBackend {
+  return {
+    id: "rpc",
+    label: SIMULATION_BACKEND_LABELS.rpc,
+    persists: false,
+    supportsChain: () => Boolean(rpcUrl.trim()),
+    simulate: (req) => rpcSimulate(rpcUrl, req),
+    simulateBundle: (reqs) => rpcSimulateBundle(rpcUrl, reqs),
+  };
+}
+
+export function getSimulationBackend(
+  settings: SimulationBackendSettings
+): SimulationBackend {
+  switch (settings.backend) {
+    case "tenderly-quick":
+      return tenderlyQuickBackend;
+    case "rpc":
+      return createRpcBackend(settings.rpcUrl);
+    default:
+      return tenderlyBackend;
+  }
+}
@@ -0,0 +1,360 @@
+import type { Address, Hex, PublicClient, StateOverride as RpcStateOverride } from "viem";
+import {
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionData,
+  erc20Abi,
+  formatEther,
+  getAddress,
+  isAddress,
+  isHex,
+  keccak256,
+  numberToHex,
+  pad,
+  parseEther,
+} from "viem";
+
+import type { TenderlyStateObjects } from "@/lib/tenderlyApi";
+
+/**
+ * Form-shaped state overrides ("simulate as if this account had …").
+ *
+ * The editor keeps one entry per address with user-facing units (ETH, decimal
+ * nonce). Requests carry them as Tenderly `state_objects`; the RPC backends
+ * translate those to geth-style `stateOverride` objects.
+ */
+export type StorageOverride = {
+  slot: string;
+  value: string;
+  /** What a helper wrote here, e.g. "balanceOf(0x12…) = 100 USDC". */
+  label?: string;
+};
+
+export type StateOverride = {
+  address: string;
+  /** Native balance in ETH (decimal string). */
+  balanceEth?: string;
+  nonce?: string;
+  code?: string;
+  storage?: StorageOverride[];
+};
+
+/** Hex or decimal input → 32-byte word; `undefined` if it isn't a uint256. */
+export function toStorageWord(raw: string): Hex | undefined {
+  const v = raw.trim();
+  if (!v) return undefined;
+  try {
+    const n = BigInt(v);
+    if (n < 0n || n >= 1n << 256n) return undefined;
+    return numberToHex(n, { size: 32 });
+  } catch {
+    return undefined;
+  }
+}
+
+/** First problem with `overrides`, or `undefined` when all entries are valid. */
+export function validateStateOverrides(overrides: StateOverride[]) {
+  for (const [i, o] of overrides.entries()) {
+    const where = `Override ${i + 1}`;
+    if (!isAddress(o.address.trim(), { strict: false })) {
+      return `${where}: invalid address`;
+    }
+    if (o.balanceEth?.trim()) {
+      try {
+        parseEther(o.balanceEth.trim());
+      } catch {
+        return `${where}: invalid balance`;
+      }
+    }
+    if (o.nonce?.trim() && !/^\d+$/.test(o.nonce.trim())) {
+      return `${where}: nonce must be a whole number`;
+    }
+    if (o.code?.trim() && !isHex(o.code.trim())) {
+      return `${where}: code must be hex`;
+    }
+    for (const entry of o.storage ?? []) {
+      if (!toStorageWord(entry.slot) || !toStorageWord(entry.value)) {
+        return `${where}: storage slots and values must be uint256`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Assumes `validateStateOverrides` passed. Entries for the same address merge. */
+export function toTenderlyStateObjects(
+  overrides: StateOverride[]
+): TenderlyStateObjects | undefined {
+  const out: TenderlyStateObjects = {};
+  for (const o of overrides) {
+    const address = o.address.trim().toLowerCase();
+    const entry = out[address] ?? {};
+    if (o.balanceEth?.trim()) {
+      entry.balance = parseEther(o.balanceEth.trim()).toString();
+    }
+    if (o.nonce?.trim()) entry.nonce = Number(o.nonce.trim());
+    if (o.code?.trim()) entry.code = o.code.trim();
+    for (const s of o.storage ?? []) {
+      entry.storage = {
+        ...entry.storage,
+        [toStorageWord(s.slot)!]: toStorageWord(s.value)!,
+      };
+    }
+    if (Object.keys(entry).length) out[address] = entry;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** Inverse of `toTenderlyStateObjects`, for requests loaded from history. */
+export function fromTenderlyStateObjects(value: unknown): StateOverride[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return [];
+  const out: StateOverride[] = [];
+  for (const [address, raw] of Object.entries(value)) {
+    if (!isAddress(address, { strict: false }) || !raw || typeof raw !== "object")
+      continue;
+    const o = raw as Record<string, unknown>;
+    let balanceEth: string | undefined;
+    try {
+      balanceEth =
+        typeof o.balance === "string" || typeof o.balance === "number"
+          ? formatEther(BigInt(o.balance))
+          : undefined;
+    } catch {
+      balanceEth = undefined;
+    }
+    const storage =
+      o.storage && typeof o.storage === "object"
+        ? Object.entries(o.storage as Record<string, unknown>)
+            .filter((e): e is [string, string] => typeof e[1] === "string")
+            .map(([slot, v]) => ({ slot, value: v }))
+        : undefined;
+    out.push({
+      address,
+      balanceEth,
+      nonce:
+        typeof o.nonce === "number" || typeof o.nonce === "string"
+          ? String(o.nonce)
+          : undefined,
+      code: typeof o.code === "string" ? o.code : undefined,
+      storage: storage?.length ? storage : undefined,
+    });
+  }
+  return out;
+}
+
+/** geth-style overrides (`eth_call` 3rd param, `debug_traceCall` config). */
+export function toRpcStateOverrides(stateObjects?: TenderlyStateObjects) {
+  if (!stateObjects) return undefined;
+  const out: Record<
+    string,
+    {
+      balance?: Hex;
+      nonce?: Hex;
+      code?: string;
+      stateDiff?: Record<string, string>;
+    }
+  > = {};
+  for (const [address, o] of Object.entries(stateObjects)) {
+    out[address] = {
+      balance: o.balance !== undefined ? numberToHex(BigInt(o.balance)) : undefined,
+      nonce: o.nonce !== undefined ? numberToHex(o.nonce) : undefined,
+      code: o.code,
+      stateDiff: o.storage,
+    };
+  }
+  return out;
+}
+
+/** Adds or replaces one storage slot on `address`, creating the entry if needed. */
+export function upsertStorageOverride(
+  overrides: StateOverride[],
+  address: string,
+  entry: StorageOverride
+): StateOverride[] {
+  const lower = address.toLowerCase();
+  const slot = toStorageWord(entry.slot);
+  const index = overrides.findIndex(
+    (o) => o.address.trim().toLowerCase() === lower
+  );
+  if (index === -1) {
+    return [...overrides, { address: getAddress(address), storage: [entry] }];
+  }
+  return overrides.map((o, i) =>
+    i === index
+      ? {
+          ...o,
+          storage: [
+            ...(o.storage ?? []).filter((s) => toStorageWord(s.slot) !== slot),
+            entry,
+          ],
+        }
+      : o
+  );
+}
+
+// --- Slot discovery -------------------------------------------------------
+
+type SlotProbeClient = Pick<PublicClient, "call" | "request">;
+
+/** Distinctive value written to candidate slots; a read that returns it found the slot. */
+const PROBE_VALUE = 0x5eed_cafe_f00d_1234_5678n;
+
+/** Mapping slots tried (Solidity and Vyper layouts) when the node can't trace. */
+const MAX_MAPPING_SLOT = 20;
+
+async function readUint(
+  client: SlotProbeClient,
+  token: Address,
+  data: Hex,
+  stateOverride?: RpcStateOverride
+) {
+  try {
+    const { data: out } = await client.call({ to: token, data, stateOverride });
+    if (!out || out === "0x") return undefined;
+    return BigInt(out.slice(0, 66));
+  } catch {
+    return undefined;
+  }
+}
+
+/** Storage slots of `token` that `data` reads, via `debug_traceCall`'s prestate tracer. */
+async function tracedSlots(
+  client: SlotProbeClient,
+  token: Address,
+  data: Hex
+): Promise<Hex[]> {
+  try {
+    const prestate = (await client.request({
+      method: "debug_traceCall" as any,
+      params: [
+        { to: token, data },
+        "latest",
+        { tracer: "prestateTracer" },
+      ] as any,
+    })) as Record<string, { storage?: Record<string, Hex> }>;
+    const account = Object.entries(prestate ?? {}).find(
+      ([a]) => a.toLowerCase() === token.toLowerCase()
+    )?.[1];
+    return Object.keys(account?.storage ?? {}) as Hex[];
+  } catch {
+    return [];
+  }
+}
+
+const word = (v: Hex | bigint) =>
+  typeof v === "bigint" ? numberToHex(v, { size: 32 }) : pad(v, { size: 32 });
+
+const mappingKey = (key: Hex, slot: Hex | bigint, vyper: boolean) =>
+  keccak256(
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "bytes32" }],
+      vyper ? [word(slot), word(key)] : [word(key), word(slot)]
+    )
+  );
+
+/** Slot of `mapping[k0][k1]…` for every base slot up to `MAX_MAPPING_SLOT`, both layouts. */
+function mappingCandidates(keys: Hex[]): Hex[] {
+  const out: Hex[] = [];
+  for (const vyper of [false, true]) {
+    for (let base = 0n; base <= BigInt(MAX_MAPPING_SLOT); base++) {
+      let slot: Hex | bigint = base;
+      for (const key of keys) slot = mappingKey(key, slot, vyper);
+      out.push(slot as Hex);
+    }
+  }
+  return out;
+}
+
+async function probeSlots(
+  client: SlotProbeClient,
+  token: Address,
+  data: Hex,
+  candidates: Hex[]
+) {
+  for (const slot of candidates) {
+    const value = await readUint(client, token, data, [
+      { address: token, stateDiff: [{ slot, value: word(PROBE_VALUE) }] },
+    ]);
+    if (value === PROBE_VALUE) return slot;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the storage slot holding `data`'s uint256 result on `token`: first the
+ * slots a traced call actually reads, then the usual mapping layouts. Each
+ * candidate is confirmed by overriding it and reading the value back.
+ */
+async function findUintSlot(
+  client: SlotProbeClient,
+  token: Address,
+  data: Hex,
+  keys: Hex[],
+  what: string
+): Promise<Hex> {
+  const traced = await tracedSlots(client, token, data);
+  const slot =
+    (await probeSlots(client, token, data, traced)) ??
+    (await probeSlots(
+      client,
+      token,
+      data,
+      mappingCandidates(keys).filter((c) => !traced.includes(c))
+    ));
+  if (!slot) {
+    throw new Error(
+      `Couldn't find the ${what} slot for ${token}. It may use a non-standard layout; set the slot by hand.`
+    );
+  }
+  return slot;
+}
+
+export function findErc20BalanceSlot(
+  client: SlotProbeClient,
+  token: Address,
+  holder: Address
+) {
+  const data = encodeFunctionData({
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [holder],
+  });
+  return findUintSlot(client, token, data, [holder], "balance");
+}
+
+export function findErc20AllowanceSlot(
+  client: SlotProbeClient,
+  token: Address,
+  owner: Address,
+  spender: Address
+) {
+  const data = encodeFunctionData({
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [owner, spender],
+  });
+  return findUintSlot(client, token, data, [owner, spender], "allowance");
+}
+
+export async function readErc20Metadata(
+  client: SlotProbeClient,
+  token: Address
+): Promise<{ decimals: number; symbol?: string }> {
+  const read = async (functionName: "decimals" | "symbol") => {
+    const { data } = await client.call({
+      to: token,
+      data: encodeFunctionData({ abi: erc20Abi, functionName }),
+    });
+    return data
+      ? decodeFunctionResult({ abi: erc20Abi, functionName, data })
+      : undefined;
+  };
+  const [decimals, symbol] = await Promise.all([
+    read("decimals").catch(() => undefined),
+    read("symbol").catch(() => undefined),
+  ]);
+  if (typeof decimals !== "number") {
+    throw new Error(`${token} doesn't look like an ERC20 (no decimals())`);
+  }
+  return { decimals, symbol: typeof symbol === "string" ? symbol : undefined };
+}
@@ -23,6 +23,23 @@ import type {
 
 export type TenderlySimulationType = "full" | "quick" | "abi";
 
+/**
+ * Per-address overrides applied before a simulation runs (`state_objects`).
+ * Balance is in wei as a decimal string; storage maps 32-byte slots to values.
+ */
+export type TenderlyStateObjects = Record<
+  string,
+  {
+    balance?: string;
+    nonce?: number;
+    code?: string;
+    storage?: Record<string, string>;
+  }
+>;
+
+/** EIP-2930 access list, in Tenderly's snake_case shape. */
+export type TenderlyAccessList = { address: string; storage_keys: string[] }[];
+
 export type TenderlySimulateApiRequest = {
   /** Persist the simulation in Tenderly dashboard so we can list/fetch it later. */
   save: boolean;
@@ -34,8 +51,8 @@ export type TenderlySimulateApiRequest = {
   network_id: string;
   /** Sender address. */
   from: string;
-  /** Recipient address. */
-  to: string;
+  /** Recipient address; omitted for a contract creation. */
+  to?: string;
   /** Calldata/input. */
   input: string;
   /** Gas limit. */
@@ -45,6 +62,14 @@ export type TenderlySimulateApiRequest = {
    * Use string to avoid precision loss for large values.
    */
   value?: string | number;
+  /** Block to simulate on; latest when omitted. */
+  block_number?: number;
+  /** Position within `block_number`; earlier transactions in the block apply first. */
+  transaction_index?: number;
+  /** State overrides; see `TenderlyStateObjects`. */
+  state_objects?: TenderlyStateObjects;
+  /** Access list the transaction declares up front. */
+  access_list?: TenderlyAccessList;
   [key: string]: unknown;
 };
 
@@ -538,6 +563,47 @@ export async function tenderlySimulateAndSave(
   return result;
 }
 
+export type TenderlySimulateBundleResponse = {
+  simulation_results?: unknown[];
+  [key: string]: unknown;
+};
+
+/**
+ * Simulates `reqs` in order on top of each other's state (`/simulate-bundle`).
+ * Tenderly runs every step on the first step's block.
+ */
+export async function tenderlySimulateBundle(
+  reqs: TenderlySimulateApiRequest[]
+): Promise<TenderlySimulateResult[]> {
+  if (!reqs.length) return [];
+
+  if (TENDERLY_DEBUG) {
+    console.debug("[tenderly-api] simulate-bundle request", {
+      network_id: reqs[0].network_id,
+      steps: reqs.length,
+      save: reqs[0].save,
+    });
+  }
+
+  const payload = await tenderlyApiFetch<TenderlySimulateBundleResponse>(
+    "/simulate-bundle",
+    {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ simulations: reqs }),
+    }
+  );
+
+  const raw = Array.isArray(payload?.simulation_results)
+    ? payload.simulation_results
+    : [];
+  const results = raw.map(normalizeTenderlySimulateResult);
+  if (results.length !== reqs.length || results.some((r) => !r)) {
+    throw new Error("Unexpected Tenderly simulate-bundle response");
+  }
+  return results as TenderlySimulateResult[];
+}
+
 export type TenderlySavedSimulationListResponse = {
   simulations?: unknown[];
   data?: unknown[];
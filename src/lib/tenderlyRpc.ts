@@ -0,0 +1,159 @@
+import { numberToHex } from "viem";
+import { base } from "wagmi/chains";
+
+import type {
+  TenderlySimulateResponse,
+  TenderlySimulateResult,
+} from "@/lib/tenderly";
+import {
+  normalizeTenderlySimulateResult,
+  type TenderlySimulateApiRequest,
+} from "@/lib/tenderlyApi";
+import { toRpcStateOverrides } from "@/lib/stateOverrides";
+import { toRpcAccessList } from "@/lib/accessList";
+
+/**
+ * Tenderly node RPC client (`tenderly_simulateTransaction` / `tenderly_simulateBundle`).
+ *
+ * Talks to `/tenderly-base`, which Vite proxies to `TENDERLY_BASE_RPC_URL`. These
+ * simulations are quick and unsaved: nothing shows up in the Tenderly dashboard.
+ *
+ * See:
+ * - https://docs.tenderly.co/node/rpc-reference/base-mainnet/tenderly_simulateTransaction
+ * - https://docs.tenderly.co/node/rpc-reference/base-mainnet/tenderly_simulateBundle
+ */
+
+const TENDERLY_RPC_URL = "/tenderly-base";
+
+/** Node RPC URLs are per network; the dev proxy only forwards Base mainnet. */
+export const TENDERLY_RPC_CHAIN_ID = base.id;
+
+function assertRpcNetwork(req: TenderlySimulateApiRequest) {
+  if (req.transaction_index !== undefined) {
+    throw new Error(
+      "The Tenderly node RPC can't simulate mid-block; clear the transaction index or use the Tenderly backend."
+    );
+  }
+  if (req.network_id !== String(TENDERLY_RPC_CHAIN_ID)) {
+    throw new Error(
+      `The Tenderly node RPC proxy only serves Base (8453), not network ${req.network_id}. Use the Tenderly backend instead.`
+    );
+  }
+}
+
+function toRpcTransaction(req: TenderlySimulateApiRequest) {
+  return {
+    from: req.from,
+    to: req.to,
+    data: req.input || "0x",
+    gas: req.gas !== undefined ? numberToHex(req.gas) : undefined,
+    value:
+      req.value !== undefined && req.value !== ""
+        ? numberToHex(BigInt(req.value))
+        : undefined,
+    accessList: toRpcAccessList(req.access_list),
+  };
+}
+
+function toBlockParam(req: TenderlySimulateApiRequest) {
+  return typeof req.block_number === "number"
+    ? numberToHex(req.block_number)
+    : "latest";
+}
+
+/**
+ * The RPC result already matches `TenderlySimulateResult`; this only fills the
+ * fields the UI reads that the RPC leaves implicit.
+ */
+export function normalizeTenderlyRpcSimulation(
+  payload: unknown
+): TenderlySimulateResult {
+  const result = normalizeTenderlySimulateResult(payload);
+  if (!result) throw new Error("Unexpected Tenderly RPC simulation result");
+
+  const rawStatus = result.status as unknown;
+  const status =
+    typeof rawStatus === "string" ? BigInt(rawStatus) === 1n : result.status;
+
+  const root = result.trace?.[0];
+  const reason =
+    (typeof root?.errorReason === "string" ? root.errorReason : undefined) ??
+    root?.error;
+
+  return {
+    ...result,
+    backend: "tenderly-rpc",
+    status,
+    errorMessage:
+      result.errorMessage ?? (status === false ? reason : undefined),
+  };
+}
+
+type TenderlyBundleResponse = Omit<TenderlySimulateResponse, "result"> & {
+  result?: TenderlySimulateResult[];
+};
+
+let rpcId = 0;
+
+async function tenderlyRpcFetch<
+  T extends TenderlySimulateResponse | TenderlyBundleResponse
+>(method: string, params: unknown[]): Promise<NonNullable<T["result"]>> {
+  const res = await fetch(TENDERLY_RPC_URL, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ jsonrpc: "2.0", id: ++rpcId, method, params }),
+  });
+
+  let body: T | undefined;
+  try {
+    body = (await res.json()) as T;
+  } catch {
+    body = undefined;
+  }
+
+  if (body?.error) throw new Error(body.error.message);
+  if (!res.ok || !body?.result) {
+    // Without the proxy the dev server answers with index.html (or a 404).
+    throw new Error(
+      `${method} failed (${res.status}). Is TENDERLY_BASE_RPC_URL set for the dev server?`
+    );
+  }
+  return body.result as NonNullable<T["result"]>;
+}
+
+export async function tenderlyRpcSimulateTransaction(
+  req: TenderlySimulateApiRequest
+): Promise<TenderlySimulateResult> {
+  assertRpcNetwork(req);
+  const result = await tenderlyRpcFetch<TenderlySimulateResponse>(
+    "tenderly_simulateTransaction",
+    [
+      toRpcTransaction(req),
+      toBlockParam(req),
+      ...(req.state_objects ? [toRpcStateOverrides(req.state_objects)] : []),
+    ]
+  );
+  return normalizeTenderlyRpcSimulation(result);
+}
+
+/** Simulates `reqs` in order on one block; each step sees the previous steps' state. */
+export async function tenderlyRpcSimulateBundle(
+  reqs: TenderlySimulateApiRequest[]
+): Promise<TenderlySimulateResult[]> {
+  if (!reqs.length) return [];
+  reqs.forEach(assertRpcNetwork);
+  const results = await tenderlyRpcFetch<TenderlyBundleResponse>(
+    "tenderly_simulateBundle",
+    [
+      reqs.map(toRpcTransaction),
+      toBlockParam(reqs[0]),
+      ...(reqs[0].state_objects
+        ? [toRpcStateOverrides(reqs[0].state_objects)]
+        : []),
+    ]
+  );
+  if (!Array.isArray(results)) {
+    throw new Error("Unexpected Tenderly RPC bundle result");
+  }
+  return results.map(normalizeTenderlyRpcSimulation);
+}
@@ -0,0 +1,122 @@
+import { parseEther } from "viem";
+
+import type { TenderlySimulateResult } from "@/lib/tenderly";
+import {
+  tenderlyGetSavedSimulationById,
+  tenderlySimulateAndSave,
+  type TenderlySimulateApiRequest,
+} from "@/lib/tenderlyApi";
+import type { TransactionDraft } from "@/lib/transaction";
+
+/** Gas used when neither the saved simulation nor the caller provides one. */
+const DEFAULT_RESIMULATE_GAS = 30_000_000;
+
+const SIMULATOR_URL_RE = /\/simulator\/([0-9A-Za-z-]+)/;
+const SIMULATION_ID_RE = /^[0-9A-Za-z-]{8,}$/;
+
+const safeString = (v: unknown) =>
+  typeof v === "string" && v.trim().length ? v.trim() : undefined;
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  Boolean(v) && typeof v === "object" && !Array.isArray(v);
+
+const safeNumber = (v: unknown) => {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string" && v.trim().length) {
+    const n = Number(v);
+    if (Number.isFinite(n)) return n;
+  }
+  return undefined;
+};
+
+/**
+ * Extracts a simulation ID from a raw ID or a pasted
+ * `dashboard.tenderly.co/<account>/<project>/simulator/<id>` URL.
+ */
+export function parseTenderlySimulationIdInput(raw: string) {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  const fromUrl = trimmed.match(SIMULATOR_URL_RE)?.[1];
+  if (fromUrl) return fromUrl;
+  return SIMULATION_ID_RE.test(trimmed) ? trimmed : undefined;
+}
+
+/**
+ * Tenderly's saved-simulation GET endpoint may return only `simulation` metadata
+ * (no trace/log/state). The dashboard needs at least one of these to render.
+ */
+export function hasSimulationDetails(result: TenderlySimulateResult) {
+  return (
+    Array.isArray(result.trace) ||
+    Array.isArray(result.logs) ||
+    Array.isArray(result.stateChanges) ||
+    Array.isArray(result.assetChanges) ||
+    Array.isArray(result.balanceChanges) ||
+    Array.isArray(result.exposureChanges)
+  );
+}
+
+export type LoadedTenderlySimulation = {
+  result: TenderlySimulateResult;
+  /** Set when details were missing and the simulation had to be re-run. */
+  request: TenderlySimulateApiRequest | null;
+};
+
+/**
+ * Loads a saved simulation by ID. When Tenderly returns metadata only, re-runs a
+ * full simulation (without saving) from that metadata, falling back to `fallback`
+ * for any field the metadata lacks.
+ */
+export async function loadTenderlySimulation(
+  simulationId: string,
+  fallback?: Partial<TransactionDraft>
+): Promise<LoadedTenderlySimulation> {
+  const result = await tenderlyGetSavedSimulationById(simulationId);
+  if (hasSimulationDetails(result)) return { result, request: null };
+
+  const sim = result.simulation as Record<string, unknown> | undefined;
+  const from = safeString(sim?.from) ?? safeString(fallback?.from);
+  const to = safeString(sim?.to) ?? safeString(fallback?.to);
+  const input =
+    safeString(sim?.input) ?? safeString(fallback?.calldata) ?? "0x";
+
+  const gas =
+    safeNumber(sim?.gas) ??
+    safeNumber(fallback?.gasLimit) ??
+    DEFAULT_RESIMULATE_GAS;
+
+  const networkId =
+    safeString(sim?.network_id) ??
+    (fallback?.chainId !== undefined ? String(fallback.chainId) : undefined);
+
+  let valueWei = safeString(sim?.value);
+  if (!valueWei) {
+    const eth = safeString(fallback?.valueEth);
+    if (eth) {
+      try {
+        valueWei = parseEther(eth).toString();
+      } catch {
+        valueWei = undefined;
+      }
+    }
+  }
+
+  if (!from || !to) throw new Error("Missing from/to for simulation");
+  if (!networkId) throw new Error("Missing network for simulation");
+
+  const request: TenderlySimulateApiRequest = {
+    save: false,
+    simulation_type: "full",
+    network_id: networkId,
+    from,
+    to,
+    input,
+    gas,
+    value: valueWei ?? "0",
+    state_objects: isRecord(sim?.state_objects)
+      ? (sim.state_objects as TenderlySimulateApiRequest["state_objects"])
+      : undefined,
+  };
+
+  return { result: await tenderlySimulateAndSave(request), request };
+}
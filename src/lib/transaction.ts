@@ -0,0 +1,89 @@
+import type { Hex, PublicClient, Transaction, TransactionReceipt } from "viem";
+import { formatEther } from "viem";
+
+import type {
+  TenderlyAccessList,
+  TenderlyStateObjects,
+} from "@/lib/tenderlyApi";
+
+/**
+ * Form-shaped transaction fields. Every input source (history, tx hash, JSON, …)
+ * produces one of these so the New Transaction form can be populated the same way.
+ */
+export type TransactionDraft = {
+  chainId?: number;
+  /** Sender; loaded into "Simulate From". */
+  from?: string;
+  /** Absent for a contract creation, whose calldata is the initcode. */
+  to?: string;
+  calldata?: string;
+  /** Value in ETH (decimal string), matching the form's Amount field. */
+  valueEth?: string;
+  /** Gas limit as a decimal string. */
+  gasLimit?: string;
+  /** State overrides; loaded into the form's override editor. */
+  stateObjects?: TenderlyStateObjects;
+  /** Pinned block; loaded into the form's block pin. */
+  blockNumber?: number;
+  transactionIndex?: number;
+  accessList?: TenderlyAccessList;
+};
+
+/** Where a replayed transaction should be simulated. */
+export type ReplayBlockTarget = "parent" | "latest";
+
+export type MinedTransaction = {
+  transaction: Transaction;
+  /** `null` while the transaction is still pending. */
+  receipt: TransactionReceipt | null;
+};
+
+// Exactly 64 digits, so raw tx bytes or a signature don't yield a "hash".
+const TX_HASH_RE = /\b0x[0-9a-fA-F]{64}(?![0-9a-fA-F])/;
+
+/**
+ * Extracts a transaction hash from raw input. Accepts a bare hash or any text
+ * containing one (e.g. a pasted explorer URL).
+ */
+export function parseTxHashInput(raw: string): Hex | undefined {
+  const match = raw.trim().match(TX_HASH_RE);
+  return match ? (match[0].toLowerCase() as Hex) : undefined;
+}
+
+export async function fetchMinedTransaction(
+  client: PublicClient,
+  hash: Hex
+): Promise<MinedTransaction> {
+  const transaction = await client.getTransaction({ hash });
+  if (transaction.blockNumber === null) {
+    return { transaction, receipt: null };
+  }
+  const receipt = await client.getTransactionReceipt({ hash });
+  return { transaction, receipt };
+}
+
+export function transactionToDraft(
+  tx: Transaction,
+  chainId: number
+): TransactionDraft {
+  return {
+    chainId,
+    from: tx.from,
+    to: tx.to ?? undefined,
+    calldata: tx.input,
+    valueEth: tx.value > 0n ? formatEther(tx.value) : "",
+    gasLimit: tx.gas.toString(),
+  };
+}
+
+/**
+ * Block to pin a replay simulation to. "parent" runs on top of the state right
+ * before the transaction's block; "latest" leaves the block unset.
+ */
+export function getReplayBlockNumber(
+  tx: Transaction,
+  target: ReplayBlockTarget
+): number | undefined {
+  if (target === "latest" || tx.blockNumber === null) return undefined;
+  return Number(tx.blockNumber - 1n);
+}
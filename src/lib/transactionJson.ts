@@ -0,0 +1,375 @@
+import { formatEther, isAddress } from "viem";
+import { z } from "zod";
+
+import { hexToBigIntSafe } from "@/lib/format";
+import type { TenderlyStateObjects } from "@/lib/tenderlyApi";
+import type { TransactionDraft } from "@/lib/transaction";
+
+/**
+ * Parses pasted transaction JSON into form drafts.
+ *
+ * Supported shapes (and arrays of them):
+ * - Tenderly simulate request (what "Copy Tx JSON" produces)
+ * - JSON-RPC `eth_sendTransaction` / `eth_call` request, or just its params object
+ * - Safe transaction (`SafeTx`), or a Safe Transaction Builder batch file
+ */
+
+export type TransactionJsonKind =
+  | "tenderly"
+  | "rpc-request"
+  | "rpc-params"
+  | "safe"
+  | "safe-batch";
+
+export const TRANSACTION_JSON_KIND_LABELS: Record<TransactionJsonKind, string> =
+  {
+    tenderly: "Tenderly request",
+    "rpc-request": "JSON-RPC request",
+    "rpc-params": "Transaction params",
+    safe: "Safe transaction",
+    "safe-batch": "Safe batch",
+  };
+
+export type TransactionJsonIssue = {
+  /** Dotted path to the offending field, relative to the pasted JSON. */
+  path: string;
+  message: string;
+};
+
+export type ParsedTransactionJsonItem =
+  | {
+      ok: true;
+      kind: TransactionJsonKind;
+      path: string;
+      draft: TransactionDraft;
+      warnings: string[];
+    }
+  | {
+      ok: false;
+      kind?: TransactionJsonKind;
+      path: string;
+      issues: TransactionJsonIssue[];
+    };
+
+export type TransactionJsonParseResult =
+  | { ok: true; items: ParsedTransactionJsonItem[] }
+  | { ok: false; error: string };
+
+const address = z
+  .string()
+  .refine((v) => isAddress(v, { strict: false }), "Invalid address");
+
+const hexData = z
+  .string()
+  .regex(/^0x([0-9a-fA-F]{2})*$/, "Expected even-length 0x-prefixed hex");
+
+/** A non-negative integer as JSON number, decimal string or 0x-quantity. */
+const quantity = z
+  .union([z.string(), z.number()])
+  .refine(
+    (v) => hexToBigIntSafe(v) !== undefined,
+    "Expected a non-negative integer (decimal or 0x-hex)"
+  );
+
+const storageWord = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{1,64}$/, "Expected 0x-hex of at most 32 bytes");
+
+/** Tenderly `state_objects`: per-account balance, nonce, code and storage. */
+const stateObjectsSchema = z.record(
+  address,
+  z.looseObject({
+    balance: quantity.optional(),
+    nonce: quantity.optional(),
+    code: hexData.optional(),
+    storage: z.record(storageWord, storageWord).optional(),
+  })
+);
+
+const tenderlyRequestSchema = z.looseObject({
+  network_id: z.union([z.string(), z.number()]).pipe(quantity),
+  from: address,
+  to: address.optional(),
+  input: hexData,
+  gas: quantity.optional(),
+  value: quantity.optional(),
+  state_objects: stateObjectsSchema.optional(),
+  block_number: quantity.optional(),
+  transaction_index: quantity.optional(),
+  access_list: z
+    .array(
+      z.looseObject({
+        address,
+        storage_keys: z.array(storageWord).optional(),
+      })
+    )
+    .optional(),
+});
+
+const rpcParamsSchema = z
+  .looseObject({
+    from: address.optional(),
+    to: address.optional(),
+    data: hexData.optional(),
+    input: hexData.optional(),
+    value: quantity.optional(),
+    gas: quantity.optional(),
+    chainId: quantity.optional(),
+  })
+  .refine((v) => !(v.data && v.input && v.data !== v.input), {
+    message: "`data` and `input` disagree",
+    path: ["data"],
+  });
+
+const rpcRequestSchema = z.looseObject({
+  method: z.enum(["eth_sendTransaction", "eth_call"]),
+  params: z.tuple([rpcParamsSchema], z.unknown()),
+});
+
+const safeTxSchema = z.looseObject({
+  safe: address.optional(),
+  to: address,
+  value: quantity,
+  data: z.union([hexData, z.null()]).optional(),
+  operation: z.union([z.literal(0), z.literal(1)]).optional(),
+  nonce: quantity.optional(),
+  chainId: quantity.optional(),
+});
+
+const safeBatchSchema = z.looseObject({
+  chainId: quantity.optional(),
+  meta: z.looseObject({ createdFromSafeAddress: address.optional() }).optional(),
+  transactions: z
+    .array(
+      z.looseObject({
+        to: address,
+        value: quantity.optional(),
+        data: z.union([hexData, z.null()]).optional(),
+      })
+    )
+    .min(1, "Batch has no transactions"),
+});
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function detectKind(value: unknown): TransactionJsonKind | undefined {
+  if (!isRecord(value)) return undefined;
+  if ("network_id" in value || "save" in value || "simulation_type" in value)
+    return "tenderly";
+  if ("method" in value && "params" in value) return "rpc-request";
+  if ("transactions" in value) return "safe-batch";
+  if (
+    "safeTxGas" in value ||
+    "operation" in value ||
+    "refundReceiver" in value ||
+    "safe" in value
+  )
+    return "safe";
+  if ("to" in value) return "rpc-params";
+  return undefined;
+}
+
+function joinPath(base: string, segments: readonly PropertyKey[]) {
+  return [base, ...segments.map(String)].filter(Boolean).join(".");
+}
+
+function toIssues(
+  error: z.ZodError,
+  basePath: string
+): TransactionJsonIssue[] {
+  return error.issues.map((issue) => ({
+    path: joinPath(basePath, issue.path) || "(root)",
+    message: issue.message,
+  }));
+}
+
+function weiToEth(value: unknown) {
+  const wei = hexToBigIntSafe(value);
+  return wei !== undefined && wei > 0n ? formatEther(wei) : "";
+}
+
+function toGasString(value: unknown) {
+  return hexToBigIntSafe(value)?.toString();
+}
+
+function toNumber(value: unknown) {
+  const bi = hexToBigIntSafe(value);
+  return bi !== undefined ? Number(bi) : undefined;
+}
+
+function toStateObjects(
+  value: z.infer<typeof stateObjectsSchema> | undefined
+): TenderlyStateObjects | undefined {
+  if (!value || !Object.keys(value).length) return undefined;
+  return Object.fromEntries(
+    Object.entries(value).map(([account, o]) => [
+      account,
+      {
+        balance: hexToBigIntSafe(o.balance)?.toString(),
+        nonce: toNumber(o.nonce),
+        code: o.code,
+        storage: o.storage,
+      },
+    ])
+  );
+}
+
+function rpcParamsToDraft(
+  params: z.infer<typeof rpcParamsSchema>
+): TransactionDraft {
+  return {
+    chainId: toNumber(params.chainId),
+    from: params.from,
+    to: params.to,
+    calldata: params.data ?? params.input ?? "0x",
+    valueEth: weiToEth(params.value),
+    gasLimit: toGasString(params.gas),
+  };
+}
+
+function parseItem(value: unknown, path: string): ParsedTransactionJsonItem[] {
+  const kind = detectKind(value);
+  if (!kind) {
+    return [
+      {
+        ok: false,
+        path,
+        issues: [
+          {
+            path: path || "(root)",
+            message: "Unrecognized transaction shape",
+          },
+        ],
+      },
+    ];
+  }
+
+  const fail = (error: z.ZodError): ParsedTransactionJsonItem[] => [
+    { ok: false, kind, path, issues: toIssues(error, path) },
+  ];
+
+  switch (kind) {
+    case "tenderly": {
+      const parsed = tenderlyRequestSchema.safeParse(value);
+      if (!parsed.success) return fail(parsed.error);
+      const req = parsed.data;
+      return [
+        {
+          ok: true,
+          kind,
+          path,
+          warnings: [],
+          draft: {
+            chainId: toNumber(req.network_id),
+            from: req.from,
+            to: req.to,
+            calldata: req.input,
+            valueEth: weiToEth(req.value),
+            gasLimit: toGasString(req.gas),
+            stateObjects: toStateObjects(req.state_objects),
+            blockNumber: toNumber(req.block_number),
+            transactionIndex: toNumber(req.transaction_index),
+            accessList: req.access_list?.length
+              ? req.access_list.map((entry) => ({
+                  address: entry.address,
+                  storage_keys: entry.storage_keys ?? [],
+                }))
+              : undefined,
+          },
+        },
+      ];
+    }
+    case "rpc-request": {
+      const parsed = rpcRequestSchema.safeParse(value);
+      if (!parsed.success) return fail(parsed.error);
+      return [
+        {
+          ok: true,
+          kind,
+          path,
+          warnings: [],
+          draft: rpcParamsToDraft(parsed.data.params[0]),
+        },
+      ];
+    }
+    case "rpc-params": {
+      const parsed = rpcParamsSchema.safeParse(value);
+      if (!parsed.success) return fail(parsed.error);
+      return [
+        {
+          ok: true,
+          kind,
+          path,
+          warnings: [],
+          draft: rpcParamsToDraft(parsed.data),
+        },
+      ];
+    }
+    case "safe": {
+      const parsed = safeTxSchema.safeParse(value);
+      if (!parsed.success) return fail(parsed.error);
+      const tx = parsed.data;
+      return [
+        {
+          ok: true,
+          kind,
+          path,
+          warnings:
+            tx.operation === 1
+              ? [
+                  "DELEGATECALL operation: loaded as a plain call from the Safe, which will not match on-chain behaviour.",
+                ]
+              : [],
+          draft: {
+            chainId: toNumber(tx.chainId),
+            from: tx.safe,
+            to: tx.to,
+            calldata: tx.data ?? "0x",
+            valueEth: weiToEth(tx.value),
+          },
+        },
+      ];
+    }
+    case "safe-batch": {
+      const parsed = safeBatchSchema.safeParse(value);
+      if (!parsed.success) return fail(parsed.error);
+      const batch = parsed.data;
+      return batch.transactions.map((tx, i) => ({
+        ok: true as const,
+        kind,
+        path: joinPath(path, ["transactions", i]),
+        warnings: [],
+        draft: {
+          chainId: toNumber(batch.chainId),
+          from: batch.meta?.createdFromSafeAddress,
+          to: tx.to,
+          calldata: tx.data ?? "0x",
+          valueEth: weiToEth(tx.value),
+        },
+      }));
+    }
+  }
+}
+
+export function parseTransactionJson(text: string): TransactionJsonParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (e) {
+    return {
+      ok: false,
+      error: e instanceof Error ? e.message : "Invalid JSON",
+    };
+  }
+
+  if (Array.isArray(value)) {
+    if (!value.length) return { ok: false, error: "Array is empty" };
+    return {
+      ok: true,
+      items: value.flatMap((v, i) => parseItem(v, String(i))),
+    };
+  }
+  return { ok: true, items: parseItem(value, "") };
+}
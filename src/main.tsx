@@ -8,6 +8,7 @@ import "./globals.css";
 import { wagmiConfig } from "./wagmi";
 import { Toaster } from "@/components/ui/sonner";
 import { ThemeProvider } from "@/components/theme-provider";
+import { ContractRegistryProvider } from "@/components/contract-registry-provider";
 
 const queryClient = new QueryClient();
 
@@ -17,7 +18,9 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
       <QueryClientProvider client={queryClient}>
         <ThemeProvider defaultTheme="dark" storageKey="vite-ui-theme">
           <IconContext.Provider value={{ weight: "duotone" }}>
-            <App />
+            <ContractRegistryProvider>
+              <App />
+            </ContractRegistryProvider>
             <Toaster />
           </IconContext.Provider>
         </ThemeProvider>
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+declare module "*?gzip" {
+  const src: string;
+  export default src;
+}
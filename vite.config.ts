@@ -1,6 +1,36 @@
 import react from "@vitejs/plugin-react";
+import { readFileSync } from "fs";
 import path from "path";
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
+import { gzipSync } from "zlib";
+
+// `import url from "./file?gzip"` resolves to a gzip-compressed copy of the
+// file: an emitted `.gz` asset in builds, an inline data URL in dev.
+const gzipAssets = (): Plugin => {
+  let serve = false;
+  return {
+    name: "gzip-assets",
+    enforce: "pre",
+    configResolved(config) {
+      serve = config.command === "serve";
+    },
+    load(id) {
+      const [file, query] = id.split("?");
+      if (query !== "gzip") return null;
+      this.addWatchFile(file);
+      const gz = gzipSync(readFileSync(file), { level: 9 });
+      if (serve) {
+        return `export default "data:application/gzip;base64,${gz.toString("base64")}";`;
+      }
+      const ref = this.emitFile({
+        type: "asset",
+        name: `${path.basename(file)}.gz`,
+        source: gz,
+      });
+      return `export default import.meta.ROLLUP_FILE_URL_${ref};`;
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), ["TENDERLY_"]);
@@ -59,7 +89,7 @@ export default defineConfig(({ mode }) => {
 
   return {
     base,
-    plugins: [react()],
+    plugins: [react(), gzipAssets()],
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "./src"),